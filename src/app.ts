@@ -5,7 +5,7 @@ import morgan from 'morgan';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-import { corsOptions } from './config/cors.js';
+import { corsOptionsDelegate } from './config/cors.js';
 import { env, isDev } from './config/env.js';
 import { errorHandler, notFoundHandler } from './shared/middleware/error.middleware.js';
 
@@ -20,6 +20,9 @@ import webhooksRoutes from './modules/webhooks/webhooks.routes.js';
 import conversationsRoutes from './modules/conversations/conversations.routes.js';
 import channelsRoutes from './modules/channels/channels.routes.js';
 import flowsRoutes from './modules/flows/flows.routes.js';
+import credentialsRoutes from './modules/credentials/credentials.routes.js';
+import flowHooksRoutes from './modules/flows/flows.hooks.routes.js';
+import webchatRoutes from './modules/webchat/webchat.routes.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -27,19 +30,27 @@ const __dirname = path.dirname(__filename);
 export const createApp = (): Application => {
   const app = express();
 
+  // Behind a reverse proxy, req.ip (rate limits) must come from X-Forwarded-For
+  app.set('trust proxy', env.TRUST_PROXY);
+
   // CORS - must be FIRST before any other middleware
-  app.use(cors(corsOptions));
+  app.use(cors(corsOptionsDelegate));
 
   // Handle preflight requests explicitly
-  app.options('*', cors(corsOptions));
+  app.options('*', cors(corsOptionsDelegate));
 
   // Security middleware
   app.use(helmet({
     crossOriginResourcePolicy: { policy: 'cross-origin' },
   }));
 
-  // Body parsing
-  app.use(express.json({ limit: '10mb' }));
+  // Body parsing (raw body kept for webhook signature checks)
+  app.use(express.json({
+    limit: '10mb',
+    verify: (req, res, buf) => {
+      (req as express.Request).rawBody = buf;
+    },
+  }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
   // Logging
@@ -49,7 +60,13 @@ export const createApp = (): Application => {
     app.use(morgan('combined'));
   }
 
-  // Static files for uploads
+  // Static files for uploads; visitor attachments (public widget) are always downloaded, never rendered here
+  app.use('/uploads/webchat', express.static(path.join(__dirname, '..', env.UPLOADS_DIR, 'webchat'), {
+    setHeaders: (res) => {
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', 'attachment');
+    },
+  }));
   app.use('/uploads', express.static(path.join(__dirname, '..', env.UPLOADS_DIR)));
 
   // Root route
@@ -90,9 +107,12 @@ export const createApp = (): Application => {
   app.use(`${apiV1}/conversations`, conversationsRoutes);
   app.use(`${apiV1}/channels`, channelsRoutes);
   app.use(`${apiV1}/flows`, flowsRoutes);
+  app.use(`${apiV1}/credentials`, credentialsRoutes);
 
   // Public routes (no auth required)
   app.use(`${apiV1}/public/images`, imagesRoutes);
+  app.use(`${apiV1}/hooks/flows`, flowHooksRoutes);
+  app.use(`${apiV1}/public/webchat/:channelId`, webchatRoutes);
 
   // 404 handler
   app.use(notFoundHandler);
@@ -1,4 +1,4 @@
-import { CorsOptions } from 'cors';
+import { CorsOptions, CorsOptionsDelegate } from 'cors';
 import { env } from './env.js';
 
 const allowedOrigins = env.CORS_ORIGINS.split(',').map((origin) => origin.trim());
@@ -31,3 +31,17 @@ export const corsOptions: CorsOptions = {
   exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Per-Page'],
   maxAge: 86400, // 24 hours
 };
+
+// Web chat widget is embedded on customer sites; its allowed origins are checked per channel
+const webchatCorsOptions: CorsOptions = {
+  origin: true,
+  credentials: false,
+  methods: ['GET', 'POST', 'PATCH', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
+  maxAge: 86400,
+};
+
+export const corsOptionsDelegate: CorsOptionsDelegate = (req, callback) => {
+  const { originalUrl = '' } = req as unknown as { originalUrl?: string };
+  callback(null, originalUrl.startsWith('/v1/public/webchat/') ? webchatCorsOptions : corsOptions);
+};
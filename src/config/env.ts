@@ -8,6 +8,8 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().default('3001').transform(Number),
   API_URL: z.string().default('http://localhost:3001'),
+  TRUST_PROXY: z.string().default('false') // Express "trust proxy": true, false, a hop count or addresses
+    .transform((value) => (value === 'true' ? true : value === 'false' ? false : /^\d+$/.test(value) ? Number(value) : value)),
 
   // Database
   DATABASE_URL: z.string(),
@@ -25,15 +27,48 @@ const envSchema = z.object({
   // CORS
   CORS_ORIGINS: z.string().default('http://localhost:8080'),
 
+  // Platform operators (comma-separated emails): actions that affect every tenant, like publishing flow templates
+  PLATFORM_ADMIN_EMAILS: z.string().default(''),
+
   // Uploads
   UPLOADS_DIR: z.string().default('./uploads'),
   MAX_FILE_SIZE: z.string().default('10485760').transform(Number),
 
   // Webhooks
   WEBHOOK_SECRET: z.string().optional(),
+  WEBHOOK_DISPATCHER_ENABLED: z.string().default('true').transform((value) => value === 'true'),
+  WEBHOOK_DISPATCH_INTERVAL_MS: z.string().default('2000').transform(Number),
+  WEBHOOK_DELIVERY_TIMEOUT_MS: z.string().default('10000').transform(Number),
+  WEBHOOK_DELIVERY_MAX_ATTEMPTS: z.string().default('6').transform(Number),
+  WEBHOOK_DISABLE_AFTER_FAILURES: z.string().default('20').transform(Number), // Consecutive failed attempts
+  CHANNEL_WEBHOOK_TOLERANCE_SECONDS: z.string().default('300').transform(Number), // Max age of a signed channel webhook
+  CHANNEL_WEBHOOK_SECRET_GRACE_SECONDS: z.string().default('86400').transform(Number), // Old secret still accepted after rotation
+  WHATSAPP_GRAPH_API_URL: z.string().default('https://graph.facebook.com/v19.0'),
+  TELEGRAM_API_URL: z.string().default('https://api.telegram.org'),
+  OUTBOUND_ALLOW_PRIVATE_NETWORKS: z.string().default('false').transform((value) => value === 'true'), // Let webhooks and HTTP nodes call private addresses (local development)
+  WEBCHAT_SESSION_TTL_SECONDS: z.string().default('2592000').transform(Number), // Idle time before a visitor token expires
+
+  // Credentials vault (HTTP nodes): 32-byte AES-256 key, hex or base64
+  CREDENTIALS_ENCRYPTION_KEY: z.string().optional(),
 
   // n8n
   N8N_BASE_URL: z.string().optional(),
+  N8N_API_KEY: z.string().optional(),
+  N8N_TIMEOUT_MS: z.string().default('30000').transform(Number),
+
+  // Flows
+  FLOW_SCHEDULER_ENABLED: z.string().default('true').transform((value) => value === 'true'),
+  FLOW_SCHEDULER_INTERVAL_MS: z.string().default('15000').transform(Number),
+  FLOW_WORKER_ENABLED: z.string().default('true').transform((value) => value === 'true'),
+  FLOW_WORKER_CONCURRENCY: z.string().default('2').transform(Number),
+  FLOW_WORKER_POLL_INTERVAL_MS: z.string().default('1000').transform(Number),
+  FLOW_WORKER_DRAIN_TIMEOUT_MS: z.string().default('25000').transform(Number),
+  FLOW_EXECUTION_TIMEOUT_MS: z.string().default('300000').transform(Number),
+  FLOW_EXECUTION_MAX_ATTEMPTS: z.string().default('3').transform(Number),
+  FLOW_DEBUG_IDLE_TIMEOUT_MS: z.string().default('600000').transform(Number),
+
+  // Products
+  LOW_STOCK_THRESHOLD: z.string().default('5').transform(Number),
 
   // Frontend
   FRONTEND_URL: z.string().default('http://localhost:8080'),
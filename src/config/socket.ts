@@ -1,5 +1,5 @@
 import { Server as HttpServer } from 'http';
-import { Server, Socket } from 'socket.io';
+import { Namespace, Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { env } from './env.js';
 import { db } from './database.js';
@@ -30,6 +30,10 @@ export interface ServerToClientEvents {
   'user:online': (userId: string) => void;
   'user:offline': (userId: string) => void;
 
+  // Flow debugger
+  'flow:debug:step': (data: { executionId: string; flowId: string; step: any; vars: Record<string, any>; paused: boolean }) => void;
+  'flow:debug:finished': (data: { executionId: string; flowId: string; status: string; output: any; error: string | null }) => void;
+
   // Errors
   'error': (error: { message: string; code?: string }) => void;
 }
@@ -47,6 +51,22 @@ export interface ClientToServerEvents {
   'message:read': (data: { conversationId: string; messageIds?: string[] }) => void;
 }
 
+// Namespace of the embeddable web chat widget (visitors, not users)
+export const WEBCHAT_NAMESPACE = '/webchat';
+
+// Web chat visitor events
+export interface WebchatServerToClientEvents {
+  'message:new': (message: any) => void;
+  'typing:start': (data: { conversationId: string; userName: string }) => void;
+  'typing:stop': (data: { conversationId: string }) => void;
+  'error': (error: { message: string; code?: string }) => void;
+}
+
+export interface WebchatClientToServerEvents {
+  'typing:start': () => void;
+  'typing:stop': () => void;
+}
+
 let io: Server<ClientToServerEvents, ServerToClientEvents> | null = null;
 
 // Get tenant_id from user
@@ -147,6 +167,7 @@ export function initializeSocket(httpServer: HttpServer): Server<ClientToServerE
           userId: socket.userId!,
           userName,
         });
+        emitToWebchatConversation(conversationId, 'typing:start', { conversationId, userName });
       } catch {
         // Ignore errors
       }
@@ -157,6 +178,7 @@ export function initializeSocket(httpServer: HttpServer): Server<ClientToServerE
         conversationId,
         userId: socket.userId!,
       });
+      emitToWebchatConversation(conversationId, 'typing:stop', { conversationId });
     });
 
     // Mark messages as read via socket
@@ -219,6 +241,25 @@ export function emitToConversation(conversationId: string, event: keyof ServerTo
   }
 }
 
+// Web chat namespace with the visitor event types
+export function webchatNamespace(server: Server<ClientToServerEvents, ServerToClientEvents>) {
+  return server.of(WEBCHAT_NAMESPACE) as unknown as Namespace<WebchatClientToServerEvents, WebchatServerToClientEvents>;
+}
+
+// Emit to the web chat visitor sockets of a session
+export function emitToVisitor(sessionId: string, event: keyof WebchatServerToClientEvents, data: any) {
+  if (io) {
+    webchatNamespace(io).to(`visitor:${sessionId}`).emit(event, data);
+  }
+}
+
+// Emit to the web chat visitors of a conversation
+export function emitToWebchatConversation(conversationId: string, event: keyof WebchatServerToClientEvents, data: any) {
+  if (io) {
+    webchatNamespace(io).to(`conversation:${conversationId}`).emit(event, data);
+  }
+}
+
 // Emit new message event
 export function emitNewMessage(tenantId: string, conversationId: string, message: any) {
   if (io) {
@@ -0,0 +1,14 @@
+-- ============================================
+-- OmniBot Hub - Scheduled Flows
+-- Version: 4.0.0
+-- Próxima execução planejada para fluxos com trigger_type = 'schedule'
+-- ============================================
+
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS proxima_execucao TIMESTAMP WITH TIME ZONE;
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS ultima_execucao_agendada TIMESTAMP WITH TIME ZONE;
+
+-- ============================================
+-- ÍNDICES para o scheduler
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_fluxos_proxima_execucao ON fluxos(proxima_execucao)
+    WHERE trigger_type = 'schedule' AND status = 'ativo';
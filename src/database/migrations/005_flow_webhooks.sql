@@ -0,0 +1,10 @@
+-- ============================================
+-- OmniBot Hub - Flow Webhook Triggers
+-- Version: 5.0.0
+-- Token e segredo por fluxo para trigger_type = 'webhook'
+-- ============================================
+
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS webhook_token VARCHAR(64);
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS webhook_secret VARCHAR(128);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fluxos_webhook_token ON fluxos(webhook_token) WHERE webhook_token IS NOT NULL;
@@ -0,0 +1,18 @@
+-- ============================================
+-- OmniBot Hub - Flow Execution Queue
+-- Version: 6.0.0
+-- execucoes_fluxo passa a servir de fila (status = 'pendente')
+-- ============================================
+
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS disponivel_em TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS tentativas INTEGER DEFAULT 0;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS max_tentativas INTEGER DEFAULT 3;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS worker_id VARCHAR(255);
+
+-- ============================================
+-- ÍNDICES para os workers
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_fila ON execucoes_fluxo(disponivel_em)
+    WHERE status = 'pendente';
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_executando ON execucoes_fluxo(iniciado_em)
+    WHERE status = 'executando';
@@ -0,0 +1,15 @@
+-- ============================================
+-- OmniBot Hub - Flow Execution Recovery
+-- Version: 7.0.0
+-- Cancelamento, retomada (retry) e replay de execuções
+-- ============================================
+
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS contexto JSONB;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS modo VARCHAR(20) DEFAULT 'normal'
+    CHECK (modo IN ('normal', 'retry', 'replay'));
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS execucao_origem_id UUID REFERENCES execucoes_fluxo(id) ON DELETE SET NULL;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS retomar_de_no VARCHAR(255);
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS cancelado_em TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_origem ON execucoes_fluxo(execucao_origem_id)
+    WHERE execucao_origem_id IS NOT NULL;
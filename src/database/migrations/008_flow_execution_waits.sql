@@ -0,0 +1,23 @@
+-- ============================================
+-- OmniBot Hub - Suspended Flow Executions
+-- Version: 8.0.0
+-- Execuções aguardando resposta do cliente ou um timer (wait_for_reply, delay)
+-- ============================================
+
+ALTER TABLE execucoes_fluxo DROP CONSTRAINT IF EXISTS execucoes_fluxo_status_check;
+ALTER TABLE execucoes_fluxo ADD CONSTRAINT execucoes_fluxo_status_check
+    CHECK (status IN ('pendente', 'executando', 'aguardando', 'sucesso', 'erro', 'cancelado'));
+
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS tipo_espera VARCHAR(20) CHECK (tipo_espera IN ('reply', 'timer'));
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS aguardando_no VARCHAR(255);
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS aguardando_ate TIMESTAMP WITH TIME ZONE;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS aguardando_conversa_id UUID REFERENCES conversas(id) ON DELETE SET NULL;
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS retomar_com JSONB;
+
+-- ============================================
+-- ÍNDICES para retomada
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_aguardando_ate ON execucoes_fluxo(aguardando_ate)
+    WHERE status = 'aguardando';
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_aguardando_conversa ON execucoes_fluxo(tenant_id, aguardando_conversa_id)
+    WHERE status = 'aguardando';
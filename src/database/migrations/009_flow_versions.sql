@@ -0,0 +1,29 @@
+-- ============================================
+-- OmniBot Hub - Flow Versions
+-- Version: 9.0.0
+-- Histórico imutável de versões publicadas dos fluxos
+-- ============================================
+
+-- ============================================
+-- TABELA: fluxo_versoes (flow version history)
+-- Snapshot do grafo a cada publicação
+-- ============================================
+CREATE TABLE IF NOT EXISTS fluxo_versoes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL,
+    fluxo_id UUID NOT NULL REFERENCES fluxos(id) ON DELETE CASCADE,
+    versao INTEGER NOT NULL,
+    nodes JSONB NOT NULL DEFAULT '[]',
+    edges JSONB NOT NULL DEFAULT '[]',
+    variables JSONB NOT NULL DEFAULT '{}',
+    trigger_type VARCHAR(50),
+    trigger_config JSONB DEFAULT '{}',
+    publicado_por UUID,
+    publicado_em TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (fluxo_id, versao)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fluxo_versoes_fluxo ON fluxo_versoes(fluxo_id, versao DESC);
+
+-- Versão do fluxo usada por cada execução
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS versao_fluxo INTEGER;
@@ -0,0 +1,13 @@
+-- ============================================
+-- OmniBot Hub - Flow n8n Sync
+-- Version: 10.0.0
+-- Fluxos executados por um workflow do n8n
+-- ============================================
+
+-- 'interno' roda o grafo no engine; 'n8n' delega a execução ao webhook do workflow vinculado
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS modo_execucao VARCHAR(20) DEFAULT 'interno'
+    CHECK (modo_execucao IN ('interno', 'n8n'));
+
+-- Última sincronização com a API do n8n
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS n8n_sincronizado_em TIMESTAMP WITH TIME ZONE;
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS n8n_erro_sync TEXT;
@@ -0,0 +1,23 @@
+-- ============================================
+-- OmniBot Hub - Tenant Flow Templates
+-- Version: 11.0.0
+-- Templates privados por tenant, parâmetros e publicação
+-- ============================================
+
+-- tenant_id NULL: template global (seed); is_public = false: visível só para o tenant dono
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS tenant_id UUID;
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS criado_por UUID;
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS fluxo_origem_id UUID REFERENCES fluxos(id) ON DELETE SET NULL;
+
+-- Trigger do fluxo de origem
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS trigger_type VARCHAR(50);
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS trigger_config JSONB DEFAULT '{}';
+
+-- Parâmetros pedidos ao criar um fluxo: [{ key, label, type, required, default, targets }]
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS parametros JSONB DEFAULT '[]';
+
+-- Publicação para todos os tenants
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS publicado_em TIMESTAMP WITH TIME ZONE;
+ALTER TABLE templates_fluxo ADD COLUMN IF NOT EXISTS publicado_por UUID;
+
+CREATE INDEX IF NOT EXISTS idx_templates_fluxo_tenant_id ON templates_fluxo(tenant_id);
@@ -0,0 +1,40 @@
+-- ============================================
+-- OmniBot Hub - Flow Execution Trace
+-- Version: 12.0.0
+-- Registro detalhado de cada nó executado e execuções de debug
+-- ============================================
+
+-- ============================================
+-- TABELA: execucao_passos (execution steps)
+-- Um registro por nó executado, na ordem de execução
+-- ============================================
+CREATE TABLE IF NOT EXISTS execucao_passos (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL,
+    execucao_id UUID NOT NULL REFERENCES execucoes_fluxo(id) ON DELETE CASCADE,
+    sequencia INTEGER NOT NULL,
+    no_id VARCHAR(255) NOT NULL,
+    tipo_no VARCHAR(100) NOT NULL,
+    status VARCHAR(50) NOT NULL CHECK (status IN ('sucesso', 'erro')),
+    tentativas INTEGER DEFAULT 1,
+    entrada JSONB,              -- Saída dos nós que levaram a este
+    config JSONB,               -- Config com os templates {{ }} já renderizados
+    saida JSONB,
+    handle VARCHAR(100),
+    arestas_seguidas JSONB DEFAULT '[]',
+    suspenso BOOLEAN DEFAULT false,
+    erro TEXT,
+    erro_stack TEXT,
+    erros_tentativas JSONB DEFAULT '[]', -- Falhas das tentativas anteriores (retry)
+    iniciado_em TIMESTAMP WITH TIME ZONE NOT NULL,
+    finalizado_em TIMESTAMP WITH TIME ZONE NOT NULL,
+    duracao INTEGER,
+    UNIQUE (execucao_id, sequencia)
+);
+
+CREATE INDEX IF NOT EXISTS idx_execucao_passos_execucao ON execucao_passos(execucao_id, sequencia);
+
+-- Execuções de debug (passo a passo pelo editor)
+ALTER TABLE execucoes_fluxo DROP CONSTRAINT IF EXISTS execucoes_fluxo_modo_check;
+ALTER TABLE execucoes_fluxo ADD CONSTRAINT execucoes_fluxo_modo_check
+    CHECK (modo IN ('normal', 'retry', 'replay', 'debug'));
@@ -0,0 +1,8 @@
+-- ============================================
+-- OmniBot Hub - Flow Analytics
+-- Version: 13.0.0
+-- Índices para as consultas de analytics por fluxo e período
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_fluxo_periodo ON execucoes_fluxo(fluxo_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_execucao_passos_no ON execucao_passos(execucao_id, no_id);
@@ -0,0 +1,42 @@
+-- ============================================
+-- OmniBot Hub - Flow Limits
+-- Version: 14.0.0
+-- Limites de concorrência, taxa, deduplicação e execução única por conversa
+-- ============================================
+
+-- { maxConcurrent, maxPerMinute, overflow, dedupeKey, dedupeWindowSeconds, singleRunPerConversation }
+ALTER TABLE fluxos ADD COLUMN IF NOT EXISTS limites JSONB DEFAULT '{}';
+
+-- Chave de deduplicação renderizada e conversa que disparou a execução
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS chave_dedupe VARCHAR(500);
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS conversa_id UUID;
+
+-- ============================================
+-- TABELA: gatilhos_limitados
+-- Disparos rejeitados ou enfileirados pelos limites do fluxo
+-- ============================================
+CREATE TABLE IF NOT EXISTS gatilhos_limitados (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL,
+    fluxo_id UUID NOT NULL REFERENCES fluxos(id) ON DELETE CASCADE,
+    motivo VARCHAR(30) NOT NULL
+        CHECK (motivo IN ('concorrencia', 'taxa', 'duplicado', 'conversa_ativa')),
+    acao VARCHAR(20) NOT NULL CHECK (acao IN ('rejeitado', 'enfileirado')),
+    trigger_type VARCHAR(50),
+    trigger_data JSONB DEFAULT '{}',
+    chave_dedupe VARCHAR(500),
+    conversa_id UUID,
+    -- Execução enfileirada, ou a que causou a rejeição (duplicada / ativa na conversa)
+    execucao_id UUID REFERENCES execucoes_fluxo(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================
+-- ÍNDICES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_gatilhos_limitados_fluxo ON gatilhos_limitados(fluxo_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_status ON execucoes_fluxo(fluxo_id, status);
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_dedupe ON execucoes_fluxo(fluxo_id, chave_dedupe, created_at)
+    WHERE chave_dedupe IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_conversa_ativa ON execucoes_fluxo(fluxo_id, conversa_id)
+    WHERE conversa_id IS NOT NULL AND status IN ('pendente', 'executando', 'aguardando');
@@ -0,0 +1,39 @@
+-- ============================================
+-- OmniBot Hub - Credentials Vault
+-- Version: 15.0.0
+-- Credenciais criptografadas referenciadas pelo nome nos nós dos fluxos
+-- ============================================
+
+-- ============================================
+-- TABELA: credenciais
+-- Segredos (API key, bearer, basic, OAuth2) nunca ficam no JSON dos nós
+-- ============================================
+CREATE TABLE IF NOT EXISTS credenciais (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL,
+    nome VARCHAR(100) NOT NULL,
+    descricao TEXT,
+    tipo VARCHAR(50) NOT NULL
+        CHECK (tipo IN ('api_key', 'bearer', 'basic', 'oauth2_client_credentials')),
+    configuracao JSONB DEFAULT '{}', -- Campos não sensíveis (ex.: tokenUrl, username), exibidos na API
+    dados_criptografados TEXT NOT NULL, -- Todos os campos, AES-256-GCM (CREDENTIALS_ENCRYPTION_KEY)
+    criado_por UUID,
+    ultimo_uso_em TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tenant_id, nome)
+);
+
+-- ============================================
+-- ÍNDICES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_credenciais_tenant ON credenciais(tenant_id);
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+DROP TRIGGER IF EXISTS update_credenciais_updated_at ON credenciais;
+CREATE TRIGGER update_credenciais_updated_at
+    BEFORE UPDATE ON credenciais
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
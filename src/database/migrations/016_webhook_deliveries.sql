@@ -0,0 +1,42 @@
+-- ============================================
+-- OmniBot Hub - Webhook Deliveries
+-- Version: 16.0.0
+-- Fila de entregas dos webhooks de saída (webhook_configs) com retentativas
+-- ============================================
+
+-- Desativação automática após falhas consecutivas
+ALTER TABLE webhook_configs ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE webhook_configs ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+-- ============================================
+-- TABELA: webhook_deliveries
+-- Um registro por evento e config; cada tentativa vai para webhook_logs
+-- ============================================
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    webhook_config_id UUID NOT NULL REFERENCES webhook_configs(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivering', 'delivered', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    -- Próxima tentativa; enquanto 'delivering', é o prazo após o qual a entrega volta para a fila
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tentativa registrada no log
+ALTER TABLE webhook_logs ADD COLUMN IF NOT EXISTS delivery_id UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL;
+ALTER TABLE webhook_logs ADD COLUMN IF NOT EXISTS attempt INTEGER;
+
+-- ============================================
+-- ÍNDICES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_fila ON webhook_deliveries(next_attempt_at)
+    WHERE status IN ('pending', 'delivering');
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_config ON webhook_deliveries(webhook_config_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_config ON webhook_logs(webhook_config_id, created_at DESC);
@@ -0,0 +1,17 @@
+-- ============================================
+-- OmniBot Hub - Channel Messages
+-- Version: 17.0.0
+-- Mensagens dos canais nativos (WhatsApp Cloud API): contato pelo id no canal,
+-- mensagens pelo id externo (reenvios do webhook e status de entrega) e conversa pelo canal
+-- ============================================
+
+-- ============================================
+-- ÍNDICES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_contatos_canal_user ON contatos(tenant_id, canal_origem, canal_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_mensagens_external_id ON mensagens(tenant_id, (metadata->>'externalId'))
+    WHERE metadata ? 'externalId';
+
+CREATE INDEX IF NOT EXISTS idx_conversas_channel_id ON conversas(tenant_id, (metadata->>'channelId'))
+    WHERE metadata ? 'channelId';
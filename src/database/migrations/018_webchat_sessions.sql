@@ -0,0 +1,34 @@
+-- ============================================
+-- OmniBot Hub - Web Chat Sessions
+-- Version: 18.0.0
+-- Sessões de visitantes do widget de chat (canal web): token anônimo,
+-- dados informados pelo visitante e contato/conversa criados na primeira mensagem
+-- ============================================
+
+-- ============================================
+-- TABELA: webchat_sessoes
+-- ============================================
+CREATE TABLE IF NOT EXISTS webchat_sessoes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL,
+    canal_id UUID NOT NULL,
+    contato_id UUID,
+    conversa_id UUID,
+    token_hash VARCHAR(64) NOT NULL UNIQUE, -- sha256 do token; o token só é devolvido na criação
+    nome VARCHAR(255),
+    email VARCHAR(255),
+    telefone VARCHAR(50),
+    origem VARCHAR(500), -- Origin da página onde o widget foi aberto
+    user_agent VARCHAR(500),
+    ultimo_acesso TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ============================================
+-- ÍNDICES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_webchat_sessoes_canal ON webchat_sessoes(tenant_id, canal_id);
+CREATE INDEX IF NOT EXISTS idx_webchat_sessoes_conversa ON webchat_sessoes(conversa_id) WHERE conversa_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_webchat_sessoes_expires ON webchat_sessoes(expires_at);
@@ -0,0 +1,14 @@
+-- ============================================
+-- OmniBot Hub - Flow Execution Heartbeat
+-- Version: 19.0.0
+-- Processos que executam fluxos (fila e execuções síncronas/debug) renovam heartbeat_em;
+-- execuções 'executando' sem heartbeat recente são recuperadas
+-- ============================================
+
+ALTER TABLE execucoes_fluxo ADD COLUMN IF NOT EXISTS heartbeat_em TIMESTAMP WITH TIME ZONE;
+
+-- ============================================
+-- ÍNDICES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_execucoes_fluxo_worker ON execucoes_fluxo(worker_id)
+    WHERE status = 'executando';
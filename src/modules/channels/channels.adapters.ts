@@ -0,0 +1,260 @@
+import { channelTypes } from './channels.schema.js';
+import { InboundContact, InboundMessage, InboundMessageType } from './channels.inbound.js';
+import { OutboundMessage } from './channels.outbound.js';
+import { whatsappCloud } from './channels.whatsapp.js';
+import { telegramBot } from './channels.telegram.js';
+import { webchatService } from '../webchat/webchat.service.js';
+import { getIO } from '../../config/socket.js';
+import { messageTypes } from '../messages/messages.schema.js';
+
+export type ChannelType = (typeof channelTypes)[number];
+
+// Linha de canais usada pelos adaptadores
+export interface ChannelRecord {
+  id: string;
+  tenant_id: string;
+  tipo: string;
+  meta_oficial?: boolean;
+  credenciais?: Record<string, any> | null;
+  configuracoes?: Record<string, any> | null;
+}
+
+// Mensagem recebida já separada em contato e conteúdo
+export interface NormalizedInbound {
+  contact: InboundContact;
+  message: InboundMessage;
+}
+
+// Resultado da conexão com o provedor: URL do webhook registrada e campos gravados em configuracoes
+export interface ChannelConnection {
+  webhookUrl?: string;
+  settings?: Record<string, any>;
+}
+
+export interface ChannelAdapter {
+  type: ChannelType;
+  // Corpo recebido em POST /v1/webhooks/channels/:type/:id -> mensagens (vazio quando só há eventos sem mensagem)
+  normalize: (body: any) => NormalizedInbound[];
+  // Se o canal entrega as mensagens de saída pela própria API; senão um relay externo (n8n) cuida do envio
+  canSend: (channel: ChannelRecord) => boolean;
+  // Envia a mensagem e devolve o id externo, quando o canal informa
+  send?: (channel: ChannelRecord, recipient: string, message: OutboundMessage) => Promise<string | null>;
+  // POST /v1/channels/:id/connect e /disconnect (registro do webhook no provedor)
+  connect?: (channel: ChannelRecord) => Promise<ChannelConnection>;
+  disconnect?: (channel: ChannelRecord) => Promise<ChannelConnection>;
+}
+
+class ChannelAdapterRegistry {
+  private readonly adapters = new Map<string, ChannelAdapter>();
+
+  register(adapter: ChannelAdapter): void {
+    if (this.adapters.has(adapter.type)) {
+      throw new Error(`Channel adapter already registered: ${adapter.type}`);
+    }
+    this.adapters.set(adapter.type, adapter);
+  }
+
+  get(type: string): ChannelAdapter | undefined {
+    return this.adapters.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.adapters.has(type);
+  }
+
+  list(): ChannelAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
+
+export const channelAdapters = new ChannelAdapterRegistry();
+
+const MEDIA_TYPES: InboundMessageType[] = ['image', 'audio', 'video', 'document', 'sticker'];
+
+const asMessageType = (type: unknown): InboundMessageType =>
+  (messageTypes as readonly string[]).includes(type as string) ? (type as InboundMessageType) : 'text';
+
+// ==========================================
+// Normalizadores
+// ==========================================
+
+// Formato do relay (n8n): { from: { id, phone, name, email }, message: { id, type, text, ... }, metadata, timestamp }
+export const normalizeRelay = (body: any): NormalizedInbound[] => {
+  const from = body?.from || {};
+  const externalId = from.id || from.phone || from.email;
+  if (!externalId || body?.message === undefined) {
+    return [];
+  }
+
+  const message = typeof body.message === 'string' ? { text: body.message } : body.message || {};
+  const type = asMessageType(message.type);
+  const mediaUrl = message.mediaUrl || message.url;
+
+  const content = message.text
+    || message.caption
+    || message.fileName
+    || (MEDIA_TYPES.includes(type) ? `[${type}]` : JSON.stringify(message));
+
+  return [{
+    contact: { externalId: String(externalId), name: from.name || null, phone: from.phone || null },
+    message: {
+      externalId: message.id || body.messageId || null,
+      type,
+      content,
+      metadata: {
+        ...body.metadata,
+        timestamp: body.timestamp,
+        from,
+        ...(mediaUrl ? { media: { url: mediaUrl, fileName: message.fileName, mimeType: message.mimeType } } : {}),
+      },
+    },
+  }];
+};
+
+const messengerAttachmentTypes: Record<string, InboundMessageType> = {
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  file: 'document',
+  location: 'location',
+};
+
+// Webhook da Meta para Messenger (object "page") e Instagram Direct (object "instagram")
+export const normalizeMessenger = (body: any): NormalizedInbound[] => {
+  const items: NormalizedInbound[] = [];
+
+  for (const entry of body?.entry || []) {
+    for (const event of entry.messaging || []) {
+      const senderId = event.sender?.id;
+      if (!senderId || event.message?.is_echo) continue;
+
+      const contact: InboundContact = { externalId: String(senderId), name: null, phone: null };
+      const metadata: Record<string, any> = { timestamp: event.timestamp };
+
+      if (event.postback) {
+        metadata.interactive = { type: 'postback', id: event.postback.payload, title: event.postback.title };
+        items.push({
+          contact,
+          message: { externalId: event.postback.mid || null, type: 'text', content: event.postback.title || event.postback.payload || '', metadata },
+        });
+        continue;
+      }
+
+      const message = event.message;
+      if (!message) continue; // Entregas, leituras, reações
+
+      if (message.reply_to?.mid) {
+        metadata.replyToExternalId = message.reply_to.mid;
+      }
+      if (message.quick_reply) {
+        metadata.interactive = { type: 'quick_reply', id: message.quick_reply.payload, title: message.text };
+      }
+
+      const attachment = message.attachments?.[0];
+      const type = attachment ? messengerAttachmentTypes[attachment.type] || 'text' : 'text';
+      if (attachment?.payload?.coordinates) {
+        metadata.location = { latitude: attachment.payload.coordinates.lat, longitude: attachment.payload.coordinates.long };
+      } else if (attachment?.payload?.url) {
+        metadata.media = { url: attachment.payload.url };
+      }
+      if (message.attachments?.length > 1) {
+        metadata.attachments = message.attachments;
+      }
+
+      items.push({
+        contact,
+        message: { externalId: message.mid || null, type, content: message.text || (attachment ? `[${type}]` : ''), metadata },
+      });
+    }
+  }
+
+  return items;
+};
+
+// E-mail repassado pelo relay: { from: { email, name } | "email", subject, text, html, messageId, inReplyTo }
+export const normalizeEmail = (body: any): NormalizedInbound[] => {
+  const from = typeof body?.from === 'string' ? { email: body.from } : body?.from || {};
+  if (!from.email || body?.message !== undefined) {
+    return normalizeRelay(body);
+  }
+
+  const text = body.text || (typeof body.html === 'string' ? body.html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() : '');
+
+  return [{
+    contact: { externalId: String(from.email).toLowerCase(), name: from.name || null, phone: null },
+    message: {
+      externalId: body.messageId || null,
+      type: 'text',
+      content: text || body.subject || '',
+      metadata: { subject: body.subject, inReplyTo: body.inReplyTo, attachments: body.attachments },
+    },
+  }];
+};
+
+// ==========================================
+// Adaptadores
+// ==========================================
+
+const relayOnly = () => false;
+
+channelAdapters.register({
+  type: 'whatsapp',
+  // Webhook da Cloud API repassado pelo relay ou formato próprio do relay
+  normalize: (body) => (body?.object === 'whatsapp_business_account'
+    ? whatsappCloud.parseWebhook(body).messages.map(({ contact, message }) => ({ contact, message }))
+    : normalizeRelay(body)),
+  canSend: (channel) => !!channel.meta_oficial,
+  send: (channel, recipient, message) =>
+    whatsappCloud.send(whatsappCloud.credentials(channel.credenciais ?? null), recipient, message),
+});
+
+channelAdapters.register({
+  type: 'instagram',
+  normalize: (body) => (body?.object === 'instagram' ? normalizeMessenger(body) : normalizeRelay(body)),
+  canSend: relayOnly,
+});
+
+channelAdapters.register({
+  type: 'facebook',
+  normalize: (body) => (body?.object === 'page' ? normalizeMessenger(body) : normalizeRelay(body)),
+  canSend: relayOnly,
+});
+
+channelAdapters.register({
+  type: 'telegram',
+  // Update da Bot API (webhook próprio ou repassado pelo relay) ou formato do relay
+  normalize: (body) => (body?.update_id !== undefined ? telegramBot.parseUpdate(body) : normalizeRelay(body)),
+  canSend: (channel) => !!channel.configuracoes?.telegram_secret_token,
+  send: (channel, recipient, message) => telegramBot.send(telegramBot.botToken(channel.credenciais), recipient, message),
+  connect: async (channel) => {
+    const { webhookUrl, secretToken } = await telegramBot.setWebhook(telegramBot.botToken(channel.credenciais), channel.id);
+    return { webhookUrl, settings: { telegram_secret_token: secretToken } };
+  },
+  disconnect: async (channel) => {
+    try {
+      await telegramBot.deleteWebhook(telegramBot.botToken(channel.credenciais));
+    } catch (error: any) {
+      // O canal é desconectado mesmo assim; updates que ainda chegarem são recusados sem o secret_token
+      console.warn(`[Channels] Failed to delete Telegram webhook of ${channel.id}:`, error.message);
+    }
+    return { settings: { telegram_secret_token: null } };
+  },
+});
+
+channelAdapters.register({
+  type: 'web',
+  normalize: normalizeRelay,
+  // Com o widget próprio (settings.widget) as respostas vão pelo namespace /webchat; o contato é a sessão do visitante.
+  // O worker avulso não tem Socket.IO: lá a resposta não é marcada como enviada e o widget a recebe por GET /messages
+  canSend: (channel) => !!channel.configuracoes?.widget && getIO() !== null,
+  send: async (channel, recipient, message) => {
+    webchatService.deliver(recipient, message);
+    return null;
+  },
+});
+
+channelAdapters.register({
+  type: 'email',
+  normalize: normalizeEmail,
+  canSend: relayOnly,
+});
@@ -4,6 +4,7 @@ import {
   createChannelSchema,
   updateChannelSchema,
   listChannelsSchema,
+  generateWebhookSchema,
 } from './channels.schema.js';
 import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.utils.js';
 
@@ -107,7 +108,8 @@ export class ChannelsController {
   async generateWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.userId;
-      const result = await channelsService.generateWebhookUrl(req.params.id, userId);
+      const data = generateWebhookSchema.parse(req.body ?? {});
+      const result = await channelsService.generateWebhookUrl(req.params.id, userId, data);
       sendSuccess(res, result);
     } catch (error) {
       next(error);
@@ -0,0 +1,187 @@
+import { db } from '../../config/database.js';
+import { emitToConversation, emitToTenant } from '../../config/socket.js';
+import { domainEvents } from '../../shared/events/domain-events.js';
+import { conversationsService } from '../conversations/conversations.service.js';
+import { messagesService } from '../messages/messages.service.js';
+import { messageTypes } from '../messages/messages.schema.js';
+
+export type InboundMessageType = (typeof messageTypes)[number];
+
+// Status de entrega de uma mensagem enviada, na ordem em que acontecem
+export const deliveryStatuses = ['sent', 'delivered', 'read', 'failed'] as const;
+export type DeliveryStatus = (typeof deliveryStatuses)[number];
+
+// Canal que recebeu a mensagem (linha de canais)
+export interface InboundChannel {
+  id: string;
+  tenant_id: string;
+  tipo: string;
+}
+
+// Identidade do contato no canal de origem
+export interface InboundContact {
+  externalId: string; // wa_id, chat id, etc.
+  name?: string | null;
+  phone?: string | null;
+}
+
+// Mensagem já normalizada para a tabela mensagens
+export interface InboundMessage {
+  externalId?: string | null; // Id da mensagem no canal; usado para ignorar reenvios
+  type: InboundMessageType;
+  content: string;
+  metadata?: Record<string, any>;
+}
+
+export interface InboundResult {
+  conversationId: string;
+  messageId: string | null;
+  duplicate: boolean;
+}
+
+// Registra mensagens recebidas pelos canais nativos: contato, conversa aberta e mensagem
+export class ChannelInboundService {
+  async receive(channel: InboundChannel, contact: InboundContact, message: InboundMessage): Promise<InboundResult> {
+    // Ids externos só são únicos por canal: dois bots do Telegram repetem "<chat_id>:<message_id>"
+    if (message.externalId) {
+      const existing = await db.query(
+        `SELECT id, conversa_id FROM mensagens
+         WHERE tenant_id = $1 AND metadata->>'externalId' = $2 AND metadata->>'channelId' = $3
+         LIMIT 1`,
+        [channel.tenant_id, message.externalId, channel.id]
+      );
+      if (existing.rows.length > 0) {
+        return { conversationId: existing.rows[0].conversa_id, messageId: existing.rows[0].id, duplicate: true };
+      }
+    }
+
+    const { conversationId, created } = await this.resolveConversation(channel, contact);
+
+    if (created) {
+      const conversation = await conversationsService.getByTenantId(channel.tenant_id, conversationId);
+      domainEvents.publish('conversation.created', channel.tenant_id, { conversationId, conversation });
+    }
+
+    // Publica message.received
+    const saved = await messagesService.createByTenantId(channel.tenant_id, conversationId, {
+      senderType: 'customer',
+      content: message.content,
+      type: message.type,
+      metadata: {
+        ...message.metadata,
+        channelId: channel.id,
+        ...(message.externalId ? { externalId: message.externalId } : {}),
+      },
+    });
+
+    return { conversationId, messageId: saved?.id ?? null, duplicate: false };
+  }
+
+  // Atualiza o status de entrega de uma mensagem enviada; status antigos que chegam fora de ordem são ignorados
+  async updateDeliveryStatus(
+    tenantId: string,
+    externalId: string,
+    status: DeliveryStatus,
+    error?: string | null
+  ): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE mensagens
+       SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('deliveryStatus', $3::text, 'deliveryError', $4::text)
+       WHERE tenant_id = $1 AND metadata->>'externalId' = $2
+         AND ($3 = 'failed' OR COALESCE(array_position($5::text[], metadata->>'deliveryStatus'), 0) < array_position($5::text[], $3))
+       RETURNING id, conversa_id, metadata`,
+      [tenantId, externalId, status, error ?? null, deliveryStatuses.slice(0, 3)]
+    );
+
+    for (const row of result.rows) {
+      this.emitUpdated(tenantId, row);
+    }
+    return result.rows.length > 0;
+  }
+
+  // Grava o resultado do envio pelo canal na mensagem
+  async recordDelivery(
+    tenantId: string,
+    messageId: string,
+    delivery: { externalId?: string | null; status: DeliveryStatus; error?: string | null }
+  ): Promise<void> {
+    const patch: Record<string, any> = { deliveryStatus: delivery.status, deliveryError: delivery.error ?? null };
+    if (delivery.externalId) {
+      patch.externalId = delivery.externalId;
+    }
+
+    const result = await db.query(
+      `UPDATE mensagens SET metadata = COALESCE(metadata, '{}'::jsonb) || $3::jsonb
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING id, conversa_id, metadata`,
+      [messageId, tenantId, JSON.stringify(patch)]
+    );
+
+    if (result.rows[0]) {
+      this.emitUpdated(tenantId, result.rows[0]);
+    }
+  }
+
+  // Contato e conversa aberta do canal; o lock evita duplicar ambos quando mensagens chegam juntas
+  private async resolveConversation(
+    channel: InboundChannel,
+    contact: InboundContact
+  ): Promise<{ conversationId: string; created: boolean }> {
+    return db.transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `channel-contact:${channel.tenant_id}:${channel.tipo}:${contact.externalId}`,
+      ]);
+
+      const existingContact = await client.query(
+        `UPDATE contatos SET
+          nome = COALESCE(nome, $4),
+          telefone = COALESCE(telefone, $5),
+          ultimo_contato = NOW(),
+          updated_at = NOW()
+         WHERE id = (
+           SELECT id FROM contatos
+           WHERE tenant_id = $1 AND canal_origem = $2 AND canal_user_id = $3
+           ORDER BY created_at LIMIT 1
+         )
+         RETURNING id`,
+        [channel.tenant_id, channel.tipo, contact.externalId, contact.name || null, contact.phone || null]
+      );
+
+      const contactId = existingContact.rows[0]?.id ?? (await client.query(
+        `INSERT INTO contatos (tenant_id, nome, telefone, canal_origem, canal_user_id, ultimo_contato)
+         VALUES ($1, $2, $3, $4, $5, NOW())
+         RETURNING id`,
+        [channel.tenant_id, contact.name || 'Cliente', contact.phone || null, channel.tipo, contact.externalId]
+      )).rows[0].id;
+
+      const open = await client.query(
+        `SELECT id FROM conversas
+         WHERE tenant_id = $1 AND cliente_id = $2 AND canal = $3 AND status IN ('aberta', 'em_atendimento')
+           AND metadata->>'channelId' = $4
+         ORDER BY ultima_atividade DESC LIMIT 1`,
+        [channel.tenant_id, contactId, channel.tipo, channel.id]
+      );
+      if (open.rows.length > 0) {
+        return { conversationId: open.rows[0].id, created: false };
+      }
+
+      const conversation = await client.query(
+        `INSERT INTO conversas (tenant_id, cliente_id, canal, status, metadata)
+         VALUES ($1, $2, $3, 'aberta', $4)
+         RETURNING id`,
+        [channel.tenant_id, contactId, channel.tipo, JSON.stringify({ channelId: channel.id })]
+      );
+      await client.query('UPDATE contatos SET total_conversas = COALESCE(total_conversas, 0) + 1 WHERE id = $1', [contactId]);
+
+      return { conversationId: conversation.rows[0].id, created: true };
+    });
+  }
+
+  private emitUpdated(tenantId: string, row: { id: string; conversa_id: string; metadata: any }): void {
+    const update = { id: row.id, conversation_id: row.conversa_id, metadata: row.metadata };
+    emitToConversation(row.conversa_id, 'message:updated', update);
+    emitToTenant(tenantId, 'message:updated', update);
+  }
+}
+
+export const channelInbound = new ChannelInboundService();
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { db } from '../../config/database.js';
+import { domainEvents, DomainEvent } from '../../shared/events/domain-events.js';
+import { channelInbound } from './channels.inbound.js';
+import { channelAdapters, ChannelAdapter, ChannelRecord } from './channels.adapters.js';
+
+// Remetentes cujas mensagens são entregues ao cliente pelo canal (notas do sistema ficam só no painel)
+const DELIVERED_SENDERS = ['agent', 'bot'];
+
+// Campos opcionais em metadata para mensagens além de texto simples
+export const outboundMetadataSchema = z.object({
+  mediaUrl: z.string().url().optional(), // image, audio, video, document, sticker
+  fileName: z.string().optional(),
+  location: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    name: z.string().optional(),
+    address: z.string().optional(),
+  }).optional(),
+  buttons: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+  })).min(1).optional(),
+  list: z.object({
+    buttonText: z.string().min(1),
+    sections: z.array(z.object({
+      title: z.string().optional(),
+      rows: z.array(z.object({
+        id: z.string().min(1),
+        title: z.string().min(1),
+        description: z.string().optional(),
+      })).min(1),
+    })).min(1),
+  }).optional(),
+  header: z.string().optional(),
+  footer: z.string().optional(),
+  // Template aprovado (WhatsApp); necessário fora da janela de 24h
+  template: z.object({
+    name: z.string().min(1),
+    language: z.string().default('pt_BR'),
+    components: z.array(z.record(z.any())).default([]),
+  }).optional(),
+}).passthrough();
+
+export type OutboundMetadata = z.infer<typeof outboundMetadataSchema>;
+
+// Mensagem a ser entregue ao cliente
+export interface OutboundMessage {
+  id: string;
+  conversationId: string;
+  senderType: string; // agent | bot
+  createdAt: Date | string;
+  type: string;
+  content: string;
+  metadata: OutboundMetadata;
+  replyToExternalId: string | null;
+}
+
+// Destino da conversa: canal, adaptador que envia e identidade do contato no canal
+interface OutboundTarget {
+  channel: ChannelRecord;
+  adapter: ChannelAdapter;
+  recipient: string;
+}
+
+// Entrega pelo adaptador do canal as mensagens de agentes e fluxos (message.sent)
+export class ChannelOutboundService {
+  start(): () => void {
+    console.log('[Channels] Outbound delivery registered');
+    return domainEvents.subscribe('message.sent', (event) => this.handle(event));
+  }
+
+  async deliver(tenantId: string, conversationId: string, message: any): Promise<void> {
+    if (!DELIVERED_SENDERS.includes(message.sender_type) || message.metadata?.externalId) {
+      return;
+    }
+
+    const target = await this.findTarget(tenantId, conversationId);
+    if (!target) {
+      return;
+    }
+
+    try {
+      const parsed = outboundMetadataSchema.safeParse(message.metadata || {});
+      if (!parsed.success) {
+        throw new Error(`Invalid message metadata: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+      }
+
+      const outbound: OutboundMessage = {
+        id: message.id,
+        conversationId,
+        senderType: message.sender_type,
+        createdAt: message.created_at,
+        type: message.type,
+        content: message.content,
+        metadata: parsed.data,
+        replyToExternalId: await this.replyToExternalId(tenantId, message.reply_to_id),
+      };
+
+      const externalId = await target.adapter.send!(target.channel, target.recipient, outbound);
+      await channelInbound.recordDelivery(tenantId, message.id, { externalId, status: 'sent' });
+    } catch (error: any) {
+      console.error(`[Channels] Delivery of message ${message.id} failed:`, error.message);
+      await channelInbound.recordDelivery(tenantId, message.id, { status: 'failed', error: error.message });
+    }
+  }
+
+  private async handle(event: DomainEvent<'message.sent'>): Promise<void> {
+    await this.deliver(event.tenantId, event.data.conversationId, event.data.message);
+  }
+
+  // Conversas criadas pelos webhooks de canal guardam o canal em metadata.channelId;
+  // canais sem envio próprio ficam com o relay externo
+  private async findTarget(tenantId: string, conversationId: string): Promise<OutboundTarget | null> {
+    const result = await db.query(
+      `SELECT c.id, c.tenant_id, c.tipo, c.meta_oficial, c.credenciais, c.configuracoes, ct.canal_user_id
+       FROM conversas cv
+       JOIN canais c ON c.id::text = cv.metadata->>'channelId' AND c.tenant_id = cv.tenant_id
+       LEFT JOIN contatos ct ON ct.id = cv.cliente_id
+       WHERE cv.id = $1 AND cv.tenant_id = $2`,
+      [conversationId, tenantId]
+    );
+
+    const row = result.rows[0];
+    if (!row?.canal_user_id) {
+      return null;
+    }
+
+    const { canal_user_id: recipient, ...channel } = row;
+    const adapter = channelAdapters.get(channel.tipo);
+    if (!adapter?.send || !adapter.canSend(channel)) {
+      return null;
+    }
+
+    return { channel, adapter, recipient };
+  }
+
+  private async replyToExternalId(tenantId: string, replyToId: string | null): Promise<string | null> {
+    if (!replyToId) return null;
+
+    const result = await db.query(
+      `SELECT metadata->>'externalId' AS external_id FROM mensagens WHERE id = $1 AND tenant_id = $2`,
+      [replyToId, tenantId]
+    );
+    return result.rows[0]?.external_id ?? null;
+  }
+}
+
+export const channelOutbound = new ChannelOutboundService();
@@ -6,6 +6,29 @@ export const channelTypes = ['whatsapp', 'instagram', 'facebook', 'telegram', 'w
 // Status do canal
 export const channelStatus = ['connected', 'disconnected', 'pending', 'error'] as const;
 
+// Campos pedidos pelo widget antes da conversa
+const visitorFieldSchema = z.enum(['hidden', 'optional', 'required']);
+
+// Widget de chat embutido no site (canal web)
+export const widgetSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  title: z.string().max(100).optional(),
+  greeting: z.string().max(500).optional(),
+  offlineMessage: z.string().max(500).optional(), // Exibida fora do horário de atendimento
+  primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid hex color').optional(),
+  textColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid hex color').optional(),
+  position: z.enum(['left', 'right']).optional(),
+  avatarUrl: z.string().url().optional(),
+  allowAttachments: z.boolean().optional(),
+  // Sites que podem abrir o widget; vazio libera qualquer origem
+  allowedOrigins: z.array(z.string().url()).optional(),
+  visitorFields: z.object({
+    name: visitorFieldSchema.optional(),
+    email: visitorFieldSchema.optional(),
+    phone: visitorFieldSchema.optional(),
+  }).optional(),
+});
+
 export const createChannelSchema = z.object({
   type: z.enum(channelTypes),
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -27,6 +50,7 @@ export const createChannelSchema = z.object({
       end: z.string(),
       timezone: z.string(),
     }).optional(),
+    widget: widgetSettingsSchema.optional(),
   }).optional(),
   isMetaOfficial: z.boolean().optional(),
 });
@@ -52,6 +76,7 @@ export const updateChannelSchema = z.object({
       end: z.string(),
       timezone: z.string(),
     }).optional(),
+    widget: widgetSettingsSchema.optional(),
   }).optional(),
 });
 
@@ -74,7 +99,14 @@ export const listChannelsSchema = z.object({
   search: z.string().optional(),
 });
 
+// Rotação do segredo do webhook: por quanto tempo o segredo anterior continua válido
+export const generateWebhookSchema = z.object({
+  gracePeriodSeconds: z.coerce.number().int().min(0).max(604800).optional(),
+});
+
 export type CreateChannelDTO = z.infer<typeof createChannelSchema>;
 export type UpdateChannelDTO = z.infer<typeof updateChannelSchema>;
 export type ConnectChannelDTO = z.infer<typeof connectChannelSchema>;
 export type ListChannelsDTO = z.infer<typeof listChannelsSchema>;
+export type WidgetSettings = z.infer<typeof widgetSettingsSchema>;
+export type GenerateWebhookDTO = z.infer<typeof generateWebhookSchema>;
@@ -1,6 +1,9 @@
+import crypto from 'crypto';
 import { db } from '../../config/database.js';
-import { NotFoundError } from '../../shared/middleware/error.middleware.js';
-import { CreateChannelDTO, UpdateChannelDTO } from './channels.schema.js';
+import { env } from '../../config/env.js';
+import { AppError, NotFoundError } from '../../shared/middleware/error.middleware.js';
+import { CreateChannelDTO, UpdateChannelDTO, GenerateWebhookDTO } from './channels.schema.js';
+import { channelAdapters, ChannelConnection } from './channels.adapters.js';
 
 // Interface que reflete o schema da tabela canais no banco (PT)
 interface ChannelDB {
@@ -81,6 +84,15 @@ async function getTenantId(userId: string): Promise<string | null> {
   return result.rows.length > 0 ? result.rows[0].tenant_id : null;
 }
 
+// Segredos guardados em configuracoes: não voltam na API (o segredo do webhook só aparece ao ser gerado;
+// o secret_token do Telegram é gravado pelo connect e só é comparado com o header dos updates)
+const SECRET_SETTINGS = ['webhook_secret', 'webhook_secret_previous', 'telegram_secret_token'];
+
+function publicSettings(settings: Record<string, any> | null | undefined): Record<string, any> | null {
+  if (!settings) return null;
+  return Object.fromEntries(Object.entries(settings).filter(([key]) => !SECRET_SETTINGS.includes(key)));
+}
+
 // Mapear do banco para resposta da API
 function mapChannelToResponse(channel: any): ChannelResponse {
   return {
@@ -93,7 +105,7 @@ function mapChannelToResponse(channel: any): ChannelResponse {
     is_meta_official: channel.meta_oficial ?? channel.is_meta_official ?? false,
     webhook_url: channel.webhook_url,
     last_connected_at: channel.ultima_conexao || channel.last_connected_at,
-    settings: channel.configuracoes || channel.settings,
+    settings: publicSettings(channel.configuracoes || channel.settings),
     created_at: channel.created_at,
     updated_at: channel.updated_at,
     total_conversations: channel.total_conversations,
@@ -296,8 +308,9 @@ export class ChannelsService {
       values.push(JSON.stringify(data.credentials));
     }
 
+    // Mescla com o que já existe: segredos e campos gravados pelo provedor ficam intactos
     if (data.settings !== undefined) {
-      updates.push(`configuracoes = $${paramIndex++}`);
+      updates.push(`configuracoes = COALESCE(configuracoes, '{}'::jsonb) || $${paramIndex++}::jsonb`);
       values.push(JSON.stringify(data.settings));
     }
 
@@ -335,12 +348,16 @@ export class ChannelsService {
     }
 
     try {
+      const connection = await this.runAdapterHook(id, tenantId, 'connect');
+
       const result = await db.query<ChannelDB>(
         `UPDATE canais
-         SET status = 'conectado', ultima_conexao = NOW(), updated_at = NOW()
+         SET status = 'conectado', ultima_conexao = NOW(), updated_at = NOW(),
+             webhook_url = COALESCE($3, webhook_url),
+             configuracoes = COALESCE(configuracoes, '{}'::jsonb) || $4::jsonb
          WHERE id = $1 AND tenant_id = $2
          RETURNING *`,
-        [id, tenantId]
+        [id, tenantId, connection.webhookUrl ?? null, JSON.stringify(connection.settings ?? {})]
       );
 
       if (result.rows.length === 0) {
@@ -371,12 +388,15 @@ export class ChannelsService {
     }
 
     try {
+      const connection = await this.runAdapterHook(id, tenantId, 'disconnect');
+
       const result = await db.query<ChannelDB>(
         `UPDATE canais
-         SET status = 'desconectado', updated_at = NOW()
+         SET status = 'desconectado', updated_at = NOW(),
+             configuracoes = COALESCE(configuracoes, '{}'::jsonb) || $3::jsonb
          WHERE id = $1 AND tenant_id = $2
          RETURNING *`,
-        [id, tenantId]
+        [id, tenantId, JSON.stringify(connection.settings ?? {})]
       );
 
       if (result.rows.length === 0) {
@@ -472,33 +492,84 @@ export class ChannelsService {
     }
   }
 
-  // Gerar webhook URL para o canal
-  async generateWebhookUrl(id: string, userId: string): Promise<{ webhookUrl: string; webhookSecret: string }> {
+  // Integração nativa do tipo do canal ao conectar/desconectar (ex.: setWebhook do Telegram)
+  private async runAdapterHook(id: string, tenantId: string, hook: 'connect' | 'disconnect'): Promise<ChannelConnection> {
+    const result = await db.query<ChannelDB>('SELECT * FROM canais WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
+    const channel = result.rows[0];
+    if (!channel) {
+      throw new NotFoundError('Channel');
+    }
+
+    const run = channelAdapters.get(channel.tipo)?.[hook];
+    if (!run) {
+      return {};
+    }
+
+    try {
+      return await run(channel);
+    } catch (error: any) {
+      throw new AppError(`Failed to ${hook} ${channel.tipo} channel: ${error.message}`, 502, 'CHANNEL_PROVIDER_ERROR');
+    }
+  }
+
+  // Gerar webhook URL para o canal; um segredo já existente continua aceito durante o período de carência
+  async generateWebhookUrl(
+    id: string,
+    userId: string,
+    options: GenerateWebhookDTO = {}
+  ): Promise<{ webhookUrl: string; webhookSecret: string; previousSecretExpiresAt: string | null }> {
     const tenantId = await getTenantId(userId);
     if (!tenantId) {
       throw new NotFoundError('User');
     }
 
     const channel = await this.getById(id, userId);
-    const webhookUrl = `${process.env.API_URL || 'http://localhost:3001'}/v1/webhooks/channels/${channel.type}/${id}`;
+    const settings = await this.storedSettings(id, tenantId);
+    // WhatsApp oficial recebe os webhooks da Meta em uma rota própria
+    const webhookPath = channel.type === 'whatsapp' && channel.is_meta_official
+      ? `whatsapp/${id}`
+      : `channels/${channel.type}/${id}`;
+    const webhookUrl = `${process.env.API_URL || 'http://localhost:3001'}/v1/webhooks/${webhookPath}`;
 
     // Generate a unique secret for this webhook
-    const crypto = await import('crypto');
     const webhookSecret = crypto.randomBytes(32).toString('hex');
 
+    const gracePeriodSeconds = options.gracePeriodSeconds ?? env.CHANNEL_WEBHOOK_SECRET_GRACE_SECONDS;
+    const currentSecret = settings.webhook_secret;
+    const previousSecretExpiresAt = currentSecret && gracePeriodSeconds > 0
+      ? new Date(Date.now() + gracePeriodSeconds * 1000).toISOString()
+      : null;
+
+    const secrets = JSON.stringify({
+      webhook_secret: webhookSecret,
+      webhook_secret_previous: previousSecretExpiresAt ? currentSecret : null,
+      webhook_secret_previous_expires_at: previousSecretExpiresAt,
+    });
+
     try {
       await db.query(
-        'UPDATE canais SET webhook_url = $1, configuracoes = jsonb_set(COALESCE(configuracoes, \'{}\'::jsonb), \'{webhook_secret}\', $2::jsonb), updated_at = NOW() WHERE id = $3 AND tenant_id = $4',
-        [webhookUrl, JSON.stringify(webhookSecret), id, tenantId]
+        'UPDATE canais SET webhook_url = $1, configuracoes = COALESCE(configuracoes, \'{}\'::jsonb) || $2::jsonb, updated_at = NOW() WHERE id = $3 AND tenant_id = $4',
+        [webhookUrl, secrets, id, tenantId]
       );
     } catch {
       await db.query(
-        'UPDATE channels SET webhook_url = $1, settings = jsonb_set(COALESCE(settings, \'{}\'::jsonb), \'{webhook_secret}\', $2::jsonb), updated_at = NOW() WHERE id = $3 AND tenant_id = $4',
-        [webhookUrl, JSON.stringify(webhookSecret), id, tenantId]
+        'UPDATE channels SET webhook_url = $1, settings = COALESCE(settings, \'{}\'::jsonb) || $2::jsonb, updated_at = NOW() WHERE id = $3 AND tenant_id = $4',
+        [webhookUrl, secrets, id, tenantId]
       );
     }
 
-    return { webhookUrl, webhookSecret };
+    return { webhookUrl, webhookSecret, previousSecretExpiresAt };
+  }
+
+  // configuracoes completas, com os segredos que mapChannelToResponse omite
+  private async storedSettings(id: string, tenantId: string): Promise<Record<string, any>> {
+    try {
+      const result = await db.query('SELECT configuracoes FROM canais WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
+      return result.rows[0]?.configuracoes || {};
+    } catch {
+      const result = await db.query('SELECT settings FROM channels WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
+      return result.rows[0]?.settings || {};
+    }
   }
 }
 
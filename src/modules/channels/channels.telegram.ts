@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { env } from '../../config/env.js';
+import { InboundContact, InboundMessage } from './channels.inbound.js';
+import { OutboundMessage } from './channels.outbound.js';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+// Header com o secret_token informado no setWebhook
+export const TELEGRAM_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+// Atualizações que o webhook do bot recebe
+const ALLOWED_UPDATES = ['message', 'callback_query'];
+
+export interface TelegramInbound {
+  contact: InboundContact;
+  message: InboundMessage;
+}
+
+interface TelegramRequest {
+  method: string;
+  body: Record<string, any>;
+}
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Id externo das mensagens: message_id só é único dentro do chat
+const externalId = (chatId: number | string, messageId: number | string) => `${chatId}:${messageId}`;
+
+const chatName = (chat: any, from: any): string | null => {
+  if (chat?.title) return chat.title;
+  const name = [from?.first_name, from?.last_name].filter(Boolean).join(' ');
+  return name || from?.username || null;
+};
+
+const normalizeMessage = (message: any): InboundMessage => {
+  const metadata: Record<string, any> = {
+    telegram: { chatId: message.chat?.id, chatType: message.chat?.type, date: message.date, username: message.from?.username },
+  };
+  if (message.reply_to_message) {
+    metadata.replyToExternalId = externalId(message.chat.id, message.reply_to_message.message_id);
+  }
+
+  const base = { externalId: externalId(message.chat.id, message.message_id), metadata };
+  const caption = message.caption as string | undefined;
+
+  if (typeof message.text === 'string') {
+    return { ...base, type: 'text', content: message.text };
+  }
+
+  if (message.photo?.length) {
+    // Tamanhos em ordem crescente; o último é o original
+    const photo = message.photo[message.photo.length - 1];
+    metadata.media = { fileId: photo.file_id, fileUniqueId: photo.file_unique_id, width: photo.width, height: photo.height };
+    return { ...base, type: 'image', content: caption || '[image]' };
+  }
+
+  if (message.document) {
+    const { document } = message;
+    metadata.media = { fileId: document.file_id, fileName: document.file_name, mimeType: document.mime_type };
+    return { ...base, type: 'document', content: caption || document.file_name || '[document]' };
+  }
+
+  if (message.voice || message.audio) {
+    const audio = message.voice || message.audio;
+    metadata.media = { fileId: audio.file_id, mimeType: audio.mime_type, duration: audio.duration, voice: !!message.voice };
+    return { ...base, type: 'audio', content: caption || '[audio]' };
+  }
+
+  if (message.video || message.video_note) {
+    const video = message.video || message.video_note;
+    metadata.media = { fileId: video.file_id, mimeType: video.mime_type, duration: video.duration };
+    return { ...base, type: 'video', content: caption || '[video]' };
+  }
+
+  if (message.sticker) {
+    metadata.media = { fileId: message.sticker.file_id, emoji: message.sticker.emoji };
+    return { ...base, type: 'sticker', content: message.sticker.emoji || '[sticker]' };
+  }
+
+  if (message.location) {
+    metadata.location = { latitude: message.location.latitude, longitude: message.location.longitude };
+    return { ...base, type: 'location', content: `${message.location.latitude},${message.location.longitude}` };
+  }
+
+  if (message.contact) {
+    const name = [message.contact.first_name, message.contact.last_name].filter(Boolean).join(' ');
+    metadata.contacts = [{ name, phones: [message.contact.phone_number] }];
+    return { ...base, type: 'contact', content: name || message.contact.phone_number };
+  }
+
+  metadata.unsupported = Object.keys(message).find((key) => !['message_id', 'from', 'chat', 'date'].includes(key)) || 'unknown';
+  return { ...base, type: 'text', content: '[unsupported message]' };
+};
+
+// Botão clicado em um teclado inline; o título vem do teclado da mensagem original
+const normalizeCallbackQuery = (query: any): TelegramInbound | null => {
+  const chat = query.message?.chat;
+  if (!chat) return null;
+
+  const buttons: any[] = (query.message.reply_markup?.inline_keyboard || []).flat();
+  const title = buttons.find((button) => button.callback_data === query.data)?.text;
+
+  return {
+    contact: { externalId: String(chat.id), name: chatName(chat, query.from), phone: null },
+    message: {
+      externalId: `callback:${query.id}`,
+      type: 'text',
+      content: title || query.data || '',
+      metadata: {
+        telegram: { chatId: chat.id, chatType: chat.type, username: query.from?.username },
+        interactive: { type: 'callback_query', id: query.data, title },
+        replyToExternalId: externalId(chat.id, query.message.message_id),
+      },
+    },
+  };
+};
+
+const inlineKeyboard = (message: OutboundMessage) => {
+  const { buttons, list } = message.metadata;
+  const options = buttons ?? list?.sections.flatMap((section) => section.rows) ?? [];
+  if (options.length === 0) return undefined;
+
+  for (const option of options) {
+    if (Buffer.byteLength(option.id) > MAX_CALLBACK_DATA_BYTES) {
+      throw new Error(`Telegram button ids are limited to ${MAX_CALLBACK_DATA_BYTES} bytes: ${option.id}`);
+    }
+  }
+
+  // Um botão por linha
+  return { inline_keyboard: options.map((option) => [{ text: option.title, callback_data: option.id }]) };
+};
+
+const MEDIA_METHODS: Record<string, { method: string; field: string; caption: boolean }> = {
+  image: { method: 'sendPhoto', field: 'photo', caption: true },
+  document: { method: 'sendDocument', field: 'document', caption: true },
+  audio: { method: 'sendAudio', field: 'audio', caption: true },
+  video: { method: 'sendVideo', field: 'video', caption: true },
+  sticker: { method: 'sendSticker', field: 'sticker', caption: false },
+};
+
+// Método da Bot API e corpo para uma mensagem do painel ou de um fluxo
+export const buildTelegramRequest = (chatId: string, message: OutboundMessage): TelegramRequest => {
+  const { metadata } = message;
+  if (metadata.template) {
+    throw new Error('Telegram does not support message templates');
+  }
+
+  const body: Record<string, any> = { chat_id: chatId };
+  const replyMarkup = inlineKeyboard(message);
+  if (replyMarkup) {
+    body.reply_markup = replyMarkup;
+  }
+
+  // Só responde a mensagens do mesmo chat
+  const [replyChat, replyMessage] = (message.replyToExternalId || '').split(':');
+  if (replyChat === chatId && replyMessage) {
+    body.reply_parameters = { message_id: Number(replyMessage), allow_sending_without_reply: true };
+  }
+
+  const media = MEDIA_METHODS[message.type];
+  if (media) {
+    if (!metadata.mediaUrl) {
+      throw new Error(`metadata.mediaUrl is required for ${message.type} messages`);
+    }
+    body[media.field] = metadata.mediaUrl;
+    if (media.caption && message.content) {
+      body.caption = message.content;
+    }
+    return { method: media.method, body };
+  }
+
+  if (message.type === 'location') {
+    if (!metadata.location) {
+      throw new Error('metadata.location is required for location messages');
+    }
+    const { latitude, longitude, name, address } = metadata.location;
+    return name && address
+      ? { method: 'sendVenue', body: { ...body, latitude, longitude, title: name, address } }
+      : { method: 'sendLocation', body: { ...body, latitude, longitude } };
+  }
+
+  return { method: 'sendMessage', body: { ...body, text: message.content } };
+};
+
+// Integração com a Telegram Bot API; o token do bot fica em credenciais.accessToken
+export class TelegramBotService {
+  botToken(credentials: Record<string, any> | null | undefined): string {
+    if (!credentials?.accessToken) {
+      throw new Error('Telegram channel requires the bot token in credentials.accessToken');
+    }
+    return credentials.accessToken;
+  }
+
+  webhookUrl(channelId: string): string {
+    return `${env.API_URL}/v1/webhooks/telegram/${channelId}`;
+  }
+
+  // Registra o webhook do bot com um secret_token novo
+  async setWebhook(token: string, channelId: string): Promise<{ webhookUrl: string; secretToken: string }> {
+    const webhookUrl = this.webhookUrl(channelId);
+    const secretToken = crypto.randomBytes(32).toString('hex');
+
+    await this.call(token, 'setWebhook', {
+      url: webhookUrl,
+      secret_token: secretToken,
+      allowed_updates: ALLOWED_UPDATES,
+    });
+
+    return { webhookUrl, secretToken };
+  }
+
+  async deleteWebhook(token: string): Promise<void> {
+    await this.call(token, 'deleteWebhook', {});
+  }
+
+  verifySecret(expected: string | undefined, header: unknown): boolean {
+    return !!expected && typeof header === 'string' && safeEqual(header, expected);
+  }
+
+  // Mensagens e cliques em botões inline; demais atualizações são ignoradas
+  parseUpdate(update: any): TelegramInbound[] {
+    if (update?.callback_query) {
+      const item = normalizeCallbackQuery(update.callback_query);
+      return item ? [item] : [];
+    }
+
+    const message = update?.message;
+    if (!message?.chat) {
+      return [];
+    }
+
+    return [{
+      contact: { externalId: String(message.chat.id), name: chatName(message.chat, message.from), phone: null },
+      message: normalizeMessage(message),
+    }];
+  }
+
+  // Encerra o "carregando" do botão no app do cliente
+  async answerCallbackQuery(token: string, callbackQueryId: string): Promise<void> {
+    await this.call(token, 'answerCallbackQuery', { callback_query_id: callbackQueryId });
+  }
+
+  // Envia a mensagem e devolve "<chat_id>:<message_id>"
+  async send(token: string, chatId: string, message: OutboundMessage): Promise<string> {
+    const request = buildTelegramRequest(chatId, message);
+    const result = await this.call(token, request.method, request.body);
+    return externalId(result.chat?.id ?? chatId, result.message_id);
+  }
+
+  private async call(token: string, method: string, body: Record<string, any>): Promise<any> {
+    try {
+      const response = await axios.post(`${env.TELEGRAM_API_URL.replace(/\/+$/, '')}/bot${token}/${method}`, body, {
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      if (!response.data?.ok) {
+        throw new Error(response.data?.description || 'Telegram API request failed');
+      }
+      return response.data.result;
+    } catch (error: any) {
+      const description = error.response?.data?.description;
+      throw new Error(description ? `Telegram API error ${error.response.status}: ${description}` : error.message);
+    }
+  }
+}
+
+export const telegramBot = new TelegramBotService();
@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { env } from '../../config/env.js';
+import { InboundContact, InboundMessage, DeliveryStatus, deliveryStatuses } from './channels.inbound.js';
+import { OutboundMessage } from './channels.outbound.js';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Limites da Cloud API para mensagens interativas
+const MAX_BUTTONS = 3;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_ROWS = 10;
+const MAX_ROW_TITLE = 24;
+
+const MEDIA_TYPES = ['image', 'audio', 'video', 'document', 'sticker'] as const;
+
+// Credenciais do canal (canais.credenciais) usadas pela integração oficial
+export interface WhatsAppCredentials {
+  phoneNumberId: string;
+  accessToken: string;
+  businessAccountId?: string;
+  webhookVerifyToken?: string;
+  apiSecret?: string; // App Secret do app da Meta; assina os webhooks
+}
+
+export interface WhatsAppInbound {
+  phoneNumberId: string;
+  contact: InboundContact;
+  message: InboundMessage;
+}
+
+export interface WhatsAppStatusUpdate {
+  phoneNumberId: string;
+  externalId: string;
+  status: DeliveryStatus;
+  recipient: string;
+  error: string | null;
+}
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Conteúdo em texto de cada tipo, usado em conteudo e na última mensagem da conversa
+const normalizeMessage = (message: any): InboundMessage => {
+  const base = {
+    externalId: message.id,
+    metadata: {
+      whatsapp: { timestamp: message.timestamp, type: message.type },
+      ...(message.context?.id ? { replyToExternalId: message.context.id } : {}),
+    } as Record<string, any>,
+  };
+
+  switch (message.type) {
+    case 'text':
+      return { ...base, type: 'text', content: message.text?.body ?? '' };
+
+    case 'image':
+    case 'audio':
+    case 'video':
+    case 'document':
+    case 'sticker': {
+      const media = message[message.type] || {};
+      base.metadata.media = {
+        id: media.id,
+        mimeType: media.mime_type,
+        sha256: media.sha256,
+        fileName: media.filename,
+        voice: media.voice,
+      };
+      return { ...base, type: message.type, content: media.caption || media.filename || `[${message.type}]` };
+    }
+
+    case 'location': {
+      const location = message.location || {};
+      base.metadata.location = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        name: location.name,
+        address: location.address,
+      };
+      const label = [location.name, location.address].filter(Boolean).join(' - ');
+      return { ...base, type: 'location', content: label || `${location.latitude},${location.longitude}` };
+    }
+
+    case 'contacts': {
+      const contacts = (message.contacts || []).map((contact: any) => ({
+        name: contact.name?.formatted_name,
+        phones: (contact.phones || []).map((phone: any) => phone.wa_id || phone.phone),
+        emails: (contact.emails || []).map((email: any) => email.email),
+      }));
+      base.metadata.contacts = contacts;
+      return { ...base, type: 'contact', content: contacts.map((contact: any) => contact.name).filter(Boolean).join(', ') || '[contact]' };
+    }
+
+    // Resposta a botões ou listas enviados pelo agente
+    case 'interactive': {
+      const reply = message.interactive?.button_reply || message.interactive?.list_reply || {};
+      base.metadata.interactive = {
+        type: message.interactive?.type,
+        id: reply.id,
+        title: reply.title,
+        description: reply.description,
+      };
+      return { ...base, type: 'text', content: reply.title ?? '' };
+    }
+
+    // Botão de resposta rápida de template
+    case 'button':
+      base.metadata.interactive = { type: 'button', id: message.button?.payload, title: message.button?.text };
+      return { ...base, type: 'text', content: message.button?.text ?? '' };
+
+    case 'reaction':
+      base.metadata.reaction = { emoji: message.reaction?.emoji, messageExternalId: message.reaction?.message_id };
+      return { ...base, type: 'text', content: message.reaction?.emoji || '[reaction removed]' };
+
+    default:
+      base.metadata.unsupported = message.errors?.[0]?.title || message.type;
+      return { ...base, type: 'text', content: '[unsupported message]' };
+  }
+};
+
+const statusError = (status: any): string | null => {
+  const error = status.errors?.[0];
+  if (!error) return null;
+  return [error.code, error.title, error.error_data?.details].filter(Boolean).join(' - ');
+};
+
+const truncate = (value: string, max: number) => (value.length > max ? value.slice(0, max) : value);
+
+// Corpo de POST /{phone-number-id}/messages para uma mensagem do painel ou de um fluxo
+export const buildWhatsAppMessage = (to: string, message: OutboundMessage): Record<string, any> => {
+  const { metadata } = message;
+  const payload: Record<string, any> = { messaging_product: 'whatsapp', recipient_type: 'individual', to };
+  if (message.replyToExternalId) {
+    payload.context = { message_id: message.replyToExternalId };
+  }
+
+  if (metadata.template) {
+    return {
+      ...payload,
+      type: 'template',
+      template: {
+        name: metadata.template.name,
+        language: { code: metadata.template.language },
+        components: metadata.template.components,
+      },
+    };
+  }
+
+  const header = metadata.header ? { type: 'text', text: metadata.header } : undefined;
+  const footer = metadata.footer ? { text: metadata.footer } : undefined;
+
+  if (metadata.buttons) {
+    if (metadata.buttons.length > MAX_BUTTONS) {
+      throw new Error(`WhatsApp allows at most ${MAX_BUTTONS} reply buttons`);
+    }
+    return {
+      ...payload,
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        header,
+        body: { text: message.content },
+        footer,
+        action: {
+          buttons: metadata.buttons.map((button) => ({
+            type: 'reply',
+            reply: { id: button.id, title: truncate(button.title, MAX_BUTTON_TITLE) },
+          })),
+        },
+      },
+    };
+  }
+
+  if (metadata.list) {
+    const rows = metadata.list.sections.reduce((total, section) => total + section.rows.length, 0);
+    if (rows > MAX_LIST_ROWS) {
+      throw new Error(`WhatsApp allows at most ${MAX_LIST_ROWS} list rows`);
+    }
+    return {
+      ...payload,
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        header,
+        body: { text: message.content },
+        footer,
+        action: {
+          button: truncate(metadata.list.buttonText, MAX_BUTTON_TITLE),
+          sections: metadata.list.sections.map((section) => ({
+            title: section.title,
+            rows: section.rows.map((row) => ({ id: row.id, title: truncate(row.title, MAX_ROW_TITLE), description: row.description })),
+          })),
+        },
+      },
+    };
+  }
+
+  if ((MEDIA_TYPES as readonly string[]).includes(message.type)) {
+    if (!metadata.mediaUrl) {
+      throw new Error(`metadata.mediaUrl is required for ${message.type} messages`);
+    }
+
+    const media: Record<string, any> = { link: metadata.mediaUrl };
+    // Áudio e figurinha não aceitam legenda
+    if (['image', 'video', 'document'].includes(message.type) && message.content) {
+      media.caption = message.content;
+    }
+    if (message.type === 'document' && metadata.fileName) {
+      media.filename = metadata.fileName;
+    }
+    return { ...payload, type: message.type, [message.type]: media };
+  }
+
+  if (message.type === 'location') {
+    if (!metadata.location) {
+      throw new Error('metadata.location is required for location messages');
+    }
+    return { ...payload, type: 'location', location: metadata.location };
+  }
+
+  return { ...payload, type: 'text', text: { body: message.content, preview_url: false } };
+};
+
+// Integração com a WhatsApp Cloud API (Graph API da Meta)
+export class WhatsAppCloudService {
+  credentials(raw: Record<string, any> | null): WhatsAppCredentials {
+    if (!raw?.phoneNumberId || !raw?.accessToken) {
+      throw new Error('WhatsApp channel requires phoneNumberId and accessToken credentials');
+    }
+    return raw as WhatsAppCredentials;
+  }
+
+  // GET de verificação do webhook: devolve hub.challenge quando o token confere
+  verifyChallenge(query: Record<string, any>, verifyToken: string | undefined): string | null {
+    if (!verifyToken || query['hub.mode'] !== 'subscribe' || typeof query['hub.verify_token'] !== 'string') {
+      return null;
+    }
+    return safeEqual(query['hub.verify_token'], verifyToken) ? String(query['hub.challenge'] ?? '') : null;
+  }
+
+  // X-Hub-Signature-256: sha256=<hex HMAC do corpo bruto com o App Secret>
+  verifySignature(appSecret: string, rawBody: Buffer, header: unknown): boolean {
+    if (typeof header !== 'string') return false;
+
+    const expected = 'sha256=' + crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex');
+    return safeEqual(header, expected);
+  }
+
+  parseWebhook(body: any): { messages: WhatsAppInbound[]; statuses: WhatsAppStatusUpdate[] } {
+    const messages: WhatsAppInbound[] = [];
+    const statuses: WhatsAppStatusUpdate[] = [];
+
+    if (body?.object !== 'whatsapp_business_account') {
+      return { messages, statuses };
+    }
+
+    for (const entry of body.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue;
+
+        const value = change.value || {};
+        const phoneNumberId = value.metadata?.phone_number_id;
+        const profiles = new Map<string, string>(
+          (value.contacts || []).map((contact: any) => [contact.wa_id, contact.profile?.name])
+        );
+
+        for (const message of value.messages || []) {
+          messages.push({
+            phoneNumberId,
+            contact: { externalId: message.from, name: profiles.get(message.from) || null, phone: message.from },
+            message: normalizeMessage(message),
+          });
+        }
+
+        for (const status of value.statuses || []) {
+          if (!(deliveryStatuses as readonly string[]).includes(status.status)) continue;
+          statuses.push({
+            phoneNumberId,
+            externalId: status.id,
+            status: status.status,
+            recipient: status.recipient_id,
+            error: statusError(status),
+          });
+        }
+      }
+    }
+
+    return { messages, statuses };
+  }
+
+  // Envia a mensagem e devolve o wamid
+  async send(credentials: WhatsAppCredentials, to: string, message: OutboundMessage): Promise<string> {
+    const payload = buildWhatsAppMessage(to, message);
+
+    try {
+      const response = await axios.post(
+        `${env.WHATSAPP_GRAPH_API_URL.replace(/\/+$/, '')}/${credentials.phoneNumberId}/messages`,
+        payload,
+        {
+          headers: { Authorization: `Bearer ${credentials.accessToken}` },
+          timeout: REQUEST_TIMEOUT_MS,
+        }
+      );
+
+      const externalId = response.data?.messages?.[0]?.id;
+      if (!externalId) {
+        throw new Error('Graph API response has no message id');
+      }
+      return externalId;
+    } catch (error: any) {
+      const graphError = error.response?.data?.error;
+      throw new Error(graphError ? `WhatsApp API error ${graphError.code}: ${graphError.message}` : error.message);
+    }
+  }
+}
+
+export const whatsappCloud = new WhatsAppCloudService();
@@ -1,6 +1,7 @@
 import { db } from '../../config/database.js';
 import { NotFoundError } from '../../shared/middleware/error.middleware.js';
 import { CreateConversationDTO, AssignAgentDTO } from './conversations.schema.js';
+import { domainEvents } from '../../shared/events/domain-events.js';
 
 // Interface que reflete o schema da tabela conversas no banco (PT)
 interface ConversationDB {
@@ -88,6 +89,16 @@ function mapStatusToPt(status: string): string {
   return statusEnToPt[status?.toLowerCase()] || status || 'aberta';
 }
 
+// Atualiza o status devolvendo também o status anterior (para eventos)
+const STATUS_UPDATE_QUERY = `
+  WITH anterior AS (
+    SELECT status FROM conversas WHERE id = $2 AND tenant_id = $3
+  )
+  UPDATE conversas
+  SET status = $1, updated_at = NOW(), ultima_atividade = NOW()
+  WHERE id = $2 AND tenant_id = $3
+  RETURNING conversas.*, (SELECT status FROM anterior) AS previous_status`;
+
 // Helper para obter tenant_id do usuário
 async function getTenantId(userId: string): Promise<string | null> {
   const result = await db.query('SELECT tenant_id FROM users WHERE id = $1', [userId]);
@@ -273,7 +284,11 @@ export class ConversationsService {
         ]
       );
 
-      return this.getById(result.rows[0].id, userId);
+      const conversation = await this.getById(result.rows[0].id, userId);
+
+      domainEvents.publish('conversation.created', tenantId, { conversationId: conversation.id, conversation });
+
+      return conversation;
     } catch (dbError: any) {
       if (dbError.code === '42P01' || dbError.code === '42703') {
         // Fallback para nomes em inglês
@@ -305,19 +320,16 @@ export class ConversationsService {
     const dbStatus = mapStatusToPt(status);
 
     try {
-      const result = await db.query<ConversationDB>(
-        `UPDATE conversas
-         SET status = $1, updated_at = NOW(), ultima_atividade = NOW()
-         WHERE id = $2 AND tenant_id = $3
-         RETURNING *`,
-        [dbStatus, id, tenantId]
-      );
+      const result = await db.query(STATUS_UPDATE_QUERY, [dbStatus, id, tenantId]);
 
       if (result.rows.length === 0) {
         throw new NotFoundError('Conversation');
       }
 
-      return this.getById(id, userId);
+      const conversation = await this.getById(id, userId);
+      this.publishStatusChange(tenantId, result.rows[0].previous_status, conversation);
+
+      return conversation;
     } catch (dbError: any) {
       if (dbError.code === '42P01') {
         throw new NotFoundError('Conversation');
@@ -345,7 +357,10 @@ export class ConversationsService {
         throw new NotFoundError('Conversation');
       }
 
-      return this.getById(id, userId);
+      const conversation = await this.getById(id, userId);
+      domainEvents.publish('conversation.assigned', tenantId, { conversationId: id, agentId: data.agentId, conversation });
+
+      return conversation;
     } catch (dbError: any) {
       if (dbError.code === '42P01') {
         throw new NotFoundError('Conversation');
@@ -429,6 +444,59 @@ export class ConversationsService {
     }
   }
 
+  // Para fluxos/webhooks - atualizar status por tenant_id direto
+  async updateStatusByTenantId(tenantId: string, conversationId: string, status: string): Promise<ConversationResponse | null> {
+    const result = await db.query(STATUS_UPDATE_QUERY, [mapStatusToPt(status), conversationId, tenantId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const conversation = await this.getByTenantId(tenantId, conversationId);
+    if (conversation) {
+      this.publishStatusChange(tenantId, result.rows[0].previous_status, conversation);
+    }
+
+    return conversation;
+  }
+
+  // Para fluxos/webhooks - atribuir agente por tenant_id direto
+  async assignAgentByTenantId(tenantId: string, conversationId: string, agentId: string): Promise<ConversationResponse | null> {
+    const result = await db.query<ConversationDB>(
+      `UPDATE conversas
+       SET agente_id = $1, status = 'em_atendimento', updated_at = NOW(), ultima_atividade = NOW()
+       WHERE id = $2 AND tenant_id = $3
+       RETURNING *`,
+      [agentId, conversationId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const conversation = await this.getByTenantId(tenantId, conversationId);
+    if (conversation) {
+      domainEvents.publish('conversation.assigned', tenantId, { conversationId, agentId, conversation });
+    }
+
+    return conversation;
+  }
+
+  // Publicar mudança de status apenas quando o status realmente mudou
+  private publishStatusChange(tenantId: string, previousStatus: string | null, conversation: ConversationResponse): void {
+    const previous = previousStatus ? mapStatusToEn(previousStatus) : null;
+    if (previous === conversation.status) {
+      return;
+    }
+
+    domainEvents.publish('conversation.status_changed', tenantId, {
+      conversationId: conversation.id,
+      previousStatus: previous,
+      status: conversation.status,
+      conversation,
+    });
+  }
+
   // Atualizar última mensagem da conversa
   async updateLastMessage(conversationId: string, message: string): Promise<void> {
     try {
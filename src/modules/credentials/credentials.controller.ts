@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { credentialsService } from './credentials.service.js';
+import {
+  createCredentialSchema,
+  updateCredentialSchema,
+  listCredentialsSchema,
+} from './credentials.schema.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.utils.js';
+import { NotFoundError } from '../../shared/middleware/error.middleware.js';
+import { db } from '../../config/database.js';
+
+// Helper para obter tenant_id do usuário
+async function getTenantId(userId: string): Promise<string> {
+  const result = await db.query('SELECT tenant_id FROM users WHERE id = $1', [userId]);
+  if (result.rows.length === 0) {
+    throw new NotFoundError('User');
+  }
+  return result.rows[0].tenant_id;
+}
+
+export class CredentialsController {
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      const params = listCredentialsSchema.parse(req.query);
+      const credentials = await credentialsService.list(tenantId, params);
+      sendSuccess(res, credentials);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      const credential = await credentialsService.getById(tenantId, req.params.id);
+      sendSuccess(res, credential);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      const data = createCredentialSchema.parse(req.body);
+      const credential = await credentialsService.create(tenantId, data, req.user!.userId);
+      sendCreated(res, credential);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      const data = updateCredentialSchema.parse(req.body);
+      const credential = await credentialsService.update(tenantId, req.params.id, data);
+      sendSuccess(res, credential);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      await credentialsService.delete(tenantId, req.params.id);
+      sendNoContent(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const credentialsController = new CredentialsController();
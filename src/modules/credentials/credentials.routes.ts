@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { credentialsController } from './credentials.controller.js';
+import { authenticate, authorize } from '../../shared/middleware/auth.middleware.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+// GET /v1/credentials - Listar credenciais (sem os segredos)
+router.get('/', (req, res, next) => credentialsController.list(req, res, next));
+
+// GET /v1/credentials/:id - Obter credencial por ID
+router.get('/:id', (req, res, next) => credentialsController.getById(req, res, next));
+
+// POST /v1/credentials - Criar credencial
+router.post('/', authorize('admin'), (req, res, next) => credentialsController.create(req, res, next));
+
+// PATCH /v1/credentials/:id - Atualizar credencial (data substitui os segredos)
+router.patch('/:id', authorize('admin'), (req, res, next) => credentialsController.update(req, res, next));
+
+// DELETE /v1/credentials/:id - Excluir credencial
+router.delete('/:id', authorize('admin'), (req, res, next) => credentialsController.delete(req, res, next));
+
+export default router;
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+// Tipos de credenciais suportados
+export const credentialTypes = ['api_key', 'bearer', 'basic', 'oauth2_client_credentials'] as const;
+
+// Nome usado pelos nós dos fluxos para referenciar a credencial
+export const credentialNameSchema = z.string().min(1).max(100)
+  .regex(/^[A-Za-z0-9_.-]+$/, 'Use only letters, numbers, dots, dashes and underscores');
+
+// Hosts para onde a credencial pode ser enviada: nome exato ou "*.exemplo.com" para os subdomínios
+export const allowedHostsSchema = z.array(
+  z.string().trim().toLowerCase().regex(/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/, 'Use a hostname or *.domain')
+).min(1);
+
+// Dados de cada tipo (ficam criptografados)
+export const credentialDataSchemas = {
+  api_key: z.object({
+    allowedHosts: allowedHostsSchema,
+    key: z.string().min(1),
+    in: z.enum(['header', 'query']).default('header'),
+    name: z.string().min(1).default('X-API-Key'), // Nome do header ou do parâmetro de query
+  }),
+  bearer: z.object({
+    allowedHosts: allowedHostsSchema,
+    token: z.string().min(1),
+  }),
+  basic: z.object({
+    allowedHosts: allowedHostsSchema,
+    username: z.string().min(1),
+    password: z.string(),
+  }),
+  oauth2_client_credentials: z.object({
+    allowedHosts: allowedHostsSchema,
+    tokenUrl: z.string().url(),
+    clientId: z.string().min(1),
+    clientSecret: z.string().min(1),
+    scope: z.string().optional(),
+    audience: z.string().optional(),
+    clientAuth: z.enum(['body', 'basic']).default('body'), // Como o client_id/secret vai para o token endpoint
+  }),
+};
+
+// Campos não sensíveis devolvidos pela API
+export const credentialPublicFields: Record<CredentialType, string[]> = {
+  api_key: ['allowedHosts', 'in', 'name'],
+  bearer: ['allowedHosts'],
+  basic: ['allowedHosts', 'username'],
+  oauth2_client_credentials: ['allowedHosts', 'tokenUrl', 'clientId', 'scope', 'audience', 'clientAuth'],
+};
+
+const credentialBase = {
+  name: credentialNameSchema,
+  description: z.string().max(500).optional(),
+};
+
+export const createCredentialSchema = z.discriminatedUnion('type', [
+  z.object({ ...credentialBase, type: z.literal('api_key'), data: credentialDataSchemas.api_key }),
+  z.object({ ...credentialBase, type: z.literal('bearer'), data: credentialDataSchemas.bearer }),
+  z.object({ ...credentialBase, type: z.literal('basic'), data: credentialDataSchemas.basic }),
+  z.object({ ...credentialBase, type: z.literal('oauth2_client_credentials'), data: credentialDataSchemas.oauth2_client_credentials }),
+]);
+
+// data substitui todos os campos e é validado contra o tipo já salvo
+export const updateCredentialSchema = z.object({
+  name: credentialNameSchema.optional(),
+  description: z.string().max(500).nullable().optional(),
+  data: z.record(z.any()).optional(),
+});
+
+export const listCredentialsSchema = z.object({
+  type: z.enum(credentialTypes).optional(),
+  search: z.string().optional(),
+});
+
+export type CredentialType = (typeof credentialTypes)[number];
+export type CreateCredentialDTO = z.infer<typeof createCredentialSchema>;
+export type UpdateCredentialDTO = z.infer<typeof updateCredentialSchema>;
+export type ListCredentialsDTO = z.infer<typeof listCredentialsSchema>;
@@ -0,0 +1,287 @@
+import axios from 'axios';
+import { db } from '../../config/database.js';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../../shared/middleware/error.middleware.js';
+import { encryptJson, decryptJson } from '../../shared/utils/crypto.utils.js';
+import { assertPublicUrl, outboundRequestOptions } from '../../shared/utils/outbound.utils.js';
+import {
+  CreateCredentialDTO,
+  UpdateCredentialDTO,
+  ListCredentialsDTO,
+  CredentialType,
+  credentialDataSchemas,
+  credentialPublicFields,
+} from './credentials.schema.js';
+
+// Margem antes da expiração em que um token OAuth2 já é renovado
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+const TOKEN_DEFAULT_TTL_SECONDS = 3600;
+const TOKEN_REQUEST_TIMEOUT_MS = 15000;
+
+// Autenticação pronta para ser aplicada em uma requisição HTTP
+export interface RequestAuth {
+  headers: Record<string, string>;
+  params: Record<string, string>;
+}
+
+interface CachedToken {
+  version: string; // updated_at da credencial; edições invalidam o token
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number;
+}
+
+// Mapear do banco para resposta da API (os segredos nunca saem daqui)
+const mapCredentialFromDb = (row: any) => ({
+  id: row.id,
+  tenant_id: row.tenant_id,
+  name: row.nome,
+  description: row.descricao,
+  type: row.tipo as CredentialType,
+  config: row.configuracao || {},
+  created_by: row.criado_por,
+  last_used_at: row.ultimo_uso_em,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const publicConfig = (type: CredentialType, data: Record<string, any>) =>
+  Object.fromEntries(credentialPublicFields[type].filter((field) => data[field] !== undefined).map((field) => [field, data[field]]));
+
+// Host da URL contra a lista da credencial; "*.exemplo.com" aceita qualquer subdomínio, mas não o domínio em si
+const hostAllowed = (hostname: string, allowedHosts: string[]) =>
+  allowedHosts.some((pattern) => (pattern.startsWith('*.') ? hostname.endsWith(pattern.slice(1)) : hostname === pattern));
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+export class CredentialsService {
+  private readonly tokens = new Map<string, Promise<CachedToken>>();
+
+  async list(tenantId: string, params: ListCredentialsDTO) {
+    const conditions = ['tenant_id = $1'];
+    const values: any[] = [tenantId];
+
+    if (params.type) {
+      values.push(params.type);
+      conditions.push(`tipo = $${values.length}`);
+    }
+    if (params.search) {
+      values.push(`%${params.search}%`);
+      conditions.push(`(nome ILIKE $${values.length} OR descricao ILIKE $${values.length})`);
+    }
+
+    const result = await db.query(
+      `SELECT * FROM credenciais WHERE ${conditions.join(' AND ')} ORDER BY nome`,
+      values
+    );
+
+    return result.rows.map(mapCredentialFromDb);
+  }
+
+  async getById(tenantId: string, id: string) {
+    return mapCredentialFromDb(await this.getRow(tenantId, id));
+  }
+
+  async create(tenantId: string, data: CreateCredentialDTO, userId?: string) {
+    try {
+      const result = await db.query(
+        `INSERT INTO credenciais (tenant_id, nome, descricao, tipo, configuracao, dados_criptografados, criado_por)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          tenantId,
+          data.name,
+          data.description || null,
+          data.type,
+          JSON.stringify(publicConfig(data.type, data.data)),
+          encryptJson(data.data),
+          userId || null,
+        ]
+      );
+
+      return mapCredentialFromDb(result.rows[0]);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Credential "${data.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async update(tenantId: string, id: string, data: UpdateCredentialDTO) {
+    const row = await this.getRow(tenantId, id);
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) {
+      values.push(data.name);
+      updates.push(`nome = $${values.length}`);
+    }
+    if (data.description !== undefined) {
+      values.push(data.description);
+      updates.push(`descricao = $${values.length}`);
+    }
+    if (data.data !== undefined) {
+      const type = row.tipo as CredentialType;
+      const parsed = credentialDataSchemas[type].safeParse(data.data);
+      if (!parsed.success) {
+        throw new ValidationError(`Invalid ${type} credential: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+      }
+
+      values.push(JSON.stringify(publicConfig(type, parsed.data)), encryptJson(parsed.data));
+      updates.push(`configuracao = $${values.length - 1}`, `dados_criptografados = $${values.length}`);
+    }
+
+    if (updates.length === 0) {
+      return mapCredentialFromDb(row);
+    }
+
+    values.push(id, tenantId);
+    try {
+      const result = await db.query(
+        `UPDATE credenciais SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${values.length - 1} AND tenant_id = $${values.length}
+         RETURNING *`,
+        values
+      );
+
+      this.tokens.delete(id);
+      return mapCredentialFromDb(result.rows[0]);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Credential "${data.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(tenantId: string, id: string): Promise<void> {
+    const result = await db.query('DELETE FROM credenciais WHERE id = $1 AND tenant_id = $2 RETURNING id', [id, tenantId]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Credential');
+    }
+    this.tokens.delete(id);
+  }
+
+  // Nomes que existem no tenant (importação de fluxos)
+  async existingNames(tenantId: string, names: string[]): Promise<Set<string>> {
+    if (names.length === 0) return new Set();
+
+    const result = await db.query('SELECT nome FROM credenciais WHERE tenant_id = $1 AND nome = ANY($2)', [tenantId, names]);
+    return new Set(result.rows.map((row) => row.nome));
+  }
+
+  // Headers e parâmetros de query da credencial, para os nós HTTP dos fluxos.
+  // Quem edita fluxos não é necessariamente admin: a credencial só segue para os hosts que o admin cadastrou nela
+  async requestAuth(tenantId: string, name: string, url: string): Promise<RequestAuth> {
+    const result = await db.query('SELECT * FROM credenciais WHERE tenant_id = $1 AND nome = $2', [tenantId, name]);
+    const row = result.rows[0];
+    if (!row) {
+      throw new AppError(`Credential "${name}" not found`, 404, 'CREDENTIAL_NOT_FOUND');
+    }
+
+    const data = decryptJson<Record<string, any>>(row.dados_criptografados);
+    const host = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+    if (!hostAllowed(host, data.allowedHosts || [])) {
+      throw new AppError(`Credential "${name}" is not allowed for ${host}`, 403, 'CREDENTIAL_HOST_NOT_ALLOWED', {
+        host,
+        allowedHosts: data.allowedHosts || [],
+      });
+    }
+    const auth = await this.buildAuth(row, data);
+
+    db.query('UPDATE credenciais SET ultimo_uso_em = CURRENT_TIMESTAMP WHERE id = $1', [row.id]).catch((error) => {
+      console.error(`[Credentials] Failed to update last use of ${row.id}:`, error.message);
+    });
+
+    return auth;
+  }
+
+  private async buildAuth(row: any, data: Record<string, any>): Promise<RequestAuth> {
+    switch (row.tipo as CredentialType) {
+      case 'api_key':
+        return data.in === 'query'
+          ? { headers: {}, params: { [data.name]: data.key } }
+          : { headers: { [data.name]: data.key }, params: {} };
+      case 'bearer':
+        return { headers: { Authorization: `Bearer ${data.token}` }, params: {} };
+      case 'basic': {
+        const encoded = Buffer.from(`${data.username}:${data.password}`).toString('base64');
+        return { headers: { Authorization: `Basic ${encoded}` }, params: {} };
+      }
+      case 'oauth2_client_credentials': {
+        const token = await this.clientCredentialsToken(row, data);
+        return { headers: { Authorization: `${token.tokenType} ${token.accessToken}` }, params: {} };
+      }
+      default:
+        throw new AppError(`Unsupported credential type: ${row.tipo}`, 500, 'CREDENTIAL_UNSUPPORTED');
+    }
+  }
+
+  // Tokens ficam em memória até perto de expirar; pedidos simultâneos compartilham a mesma requisição
+  private async clientCredentialsToken(row: any, data: Record<string, any>): Promise<CachedToken> {
+    const version = new Date(row.updated_at).toISOString();
+    const cached = this.tokens.get(row.id);
+
+    if (cached) {
+      const token = await cached.catch(() => null);
+      if (token && token.version === version && token.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+        return token;
+      }
+    }
+
+    const request = this.fetchToken(data, version);
+    this.tokens.set(row.id, request);
+    request.catch(() => this.tokens.delete(row.id));
+
+    return request;
+  }
+
+  private async fetchToken(data: Record<string, any>, version: string): Promise<CachedToken> {
+    const body = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (data.scope) body.set('scope', data.scope);
+    if (data.audience) body.set('audience', data.audience);
+    if (data.clientAuth !== 'basic') {
+      body.set('client_id', data.clientId);
+      body.set('client_secret', data.clientSecret);
+    }
+
+    try {
+      // O tokenUrl é definido pelo tenant: mesmas regras de destino dos nós HTTP
+      assertPublicUrl(data.tokenUrl);
+      const response = await axios.post(data.tokenUrl, body.toString(), {
+        ...outboundRequestOptions,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        auth: data.clientAuth === 'basic' ? { username: data.clientId, password: data.clientSecret } : undefined,
+        timeout: TOKEN_REQUEST_TIMEOUT_MS,
+      });
+
+      const accessToken = response.data?.access_token;
+      if (typeof accessToken !== 'string' || !accessToken) {
+        throw new Error('response has no access_token');
+      }
+
+      const tokenType = typeof response.data.token_type === 'string' && response.data.token_type.toLowerCase() !== 'bearer'
+        ? response.data.token_type
+        : 'Bearer';
+      const ttl = Number(response.data.expires_in) || TOKEN_DEFAULT_TTL_SECONDS;
+
+      return { version, accessToken, tokenType, expiresAt: Date.now() + ttl * 1000 };
+    } catch (error: any) {
+      const reason = error.response?.data?.error_description || error.response?.data?.error || error.message;
+      throw new AppError(`OAuth2 token request failed: ${reason}`, 502, 'CREDENTIAL_TOKEN_ERROR', {
+        status: error.response?.status,
+      });
+    }
+  }
+
+  private async getRow(tenantId: string, id: string) {
+    const result = await db.query('SELECT * FROM credenciais WHERE id = $1 AND tenant_id = $2', [id, tenantId]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Credential');
+    }
+    return result.rows[0];
+  }
+}
+
+export const credentialsService = new CredentialsService();
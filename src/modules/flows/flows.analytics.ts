@@ -0,0 +1,275 @@
+import { db } from '../../config/database.js';
+import { AppError } from '../../shared/middleware/error.middleware.js';
+import { AnalyticsQuery, AnalyticsGranularity, FlowNode, FlowEdge } from './flows.schema.js';
+import { nodeTypeRegistry } from './flows.nodes.js';
+
+// Upper bound of points in the executions-over-time series
+const MAX_BUCKETS = 1000;
+
+// How many distinct error messages are returned
+const TOP_ERRORS_LIMIT = 10;
+
+const BUCKET_MS: Record<AnalyticsGranularity, number> = {
+  hour: 3600000,
+  day: 86400000,
+  week: 7 * 86400000,
+  month: 31 * 86400000,
+};
+
+const START_NODE_TYPES = ['trigger', 'start'];
+
+interface AnalyticsFlow {
+  id: string;
+  tenant_id: string;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+}
+
+interface NodeStats {
+  nodeId: string;
+  type: string;
+  reached: number;
+  runs: number;
+  errors: number;
+  errorRate: number;
+  retries: number;
+  duration: { avg: number | null; p50: number | null; p95: number | null };
+  lastStepStatuses: Record<string, number>; // Final status of the executions whose last step was this node
+}
+
+const toInt = (value: any) => parseInt(value) || 0;
+const toMs = (value: any) => (value === null || value === undefined ? null : Math.round(Number(value)));
+const rate = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 10000) / 10000 : 0);
+
+// Debug runs are left out of every figure
+const EXECUTIONS_IN_RANGE = `
+  SELECT * FROM execucoes_fluxo
+  WHERE tenant_id = $1 AND fluxo_id = $2 AND created_at >= $3 AND created_at < $4 AND modo <> 'debug'
+`;
+
+export class FlowAnalytics {
+  async build(flow: AnalyticsFlow, query: AnalyticsQuery) {
+    const { from, to, granularity } = query;
+
+    if ((to.getTime() - from.getTime()) / BUCKET_MS[granularity] > MAX_BUCKETS) {
+      throw new AppError(`Range too large for granularity "${granularity}"`, 400, 'RANGE_TOO_LARGE');
+    }
+
+    const params = [flow.tenant_id, flow.id, from, to];
+    const [summary, timeline, nodes, errors] = await Promise.all([
+      this.summary(params),
+      this.timeline(params, granularity),
+      this.nodeStats(params),
+      this.topErrors(params),
+    ]);
+
+    return {
+      range: { from, to, granularity },
+      summary,
+      timeline,
+      nodes: nodes.map(({ lastStepStatuses, ...stats }) => stats),
+      errors,
+      funnel: this.funnel(flow, nodes, summary.total),
+    };
+  }
+
+  private async summary(params: any[]) {
+    const result = await db.query(
+      `SELECT
+        COUNT(*) AS total,
+        COUNT(*) FILTER (WHERE status = 'sucesso') AS success,
+        COUNT(*) FILTER (WHERE status = 'erro') AS error,
+        COUNT(*) FILTER (WHERE status = 'cancelado') AS cancelled,
+        COUNT(*) FILTER (WHERE status = 'aguardando') AS waiting,
+        COUNT(*) FILTER (WHERE status IN ('pendente', 'executando')) AS in_progress,
+        AVG(tempo_execucao) FILTER (WHERE status IN ('sucesso', 'erro')) AS avg_duration,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY tempo_execucao) FILTER (WHERE status IN ('sucesso', 'erro')) AS p50,
+        PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY tempo_execucao) FILTER (WHERE status IN ('sucesso', 'erro')) AS p95,
+        MAX(tempo_execucao) FILTER (WHERE status IN ('sucesso', 'erro')) AS max_duration
+       FROM (${EXECUTIONS_IN_RANGE}) e`,
+      params
+    );
+
+    const row = result.rows[0];
+    const total = toInt(row.total);
+    const error = toInt(row.error);
+    const success = toInt(row.success);
+
+    return {
+      total,
+      success,
+      error,
+      cancelled: toInt(row.cancelled),
+      waiting: toInt(row.waiting),
+      inProgress: toInt(row.in_progress),
+      errorRate: rate(error, success + error),
+      duration: {
+        avg: toMs(row.avg_duration),
+        p50: toMs(row.p50),
+        p95: toMs(row.p95),
+        max: toMs(row.max_duration),
+      },
+    };
+  }
+
+  // One point per bucket, empty buckets included
+  private async timeline(params: any[], granularity: AnalyticsGranularity) {
+    const result = await db.query(
+      `SELECT
+        buckets.bucket,
+        COUNT(e.id) AS total,
+        COUNT(e.id) FILTER (WHERE e.status = 'sucesso') AS success,
+        COUNT(e.id) FILTER (WHERE e.status = 'erro') AS error,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY e.tempo_execucao) FILTER (WHERE e.status IN ('sucesso', 'erro')) AS p50,
+        PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY e.tempo_execucao) FILTER (WHERE e.status IN ('sucesso', 'erro')) AS p95
+       FROM generate_series(
+         date_trunc($5, $3::timestamptz), $4::timestamptz - interval '1 microsecond', ('1 ' || $5)::interval
+       ) AS buckets(bucket)
+       LEFT JOIN (${EXECUTIONS_IN_RANGE}) e ON date_trunc($5, e.created_at) = buckets.bucket
+       GROUP BY buckets.bucket
+       ORDER BY buckets.bucket`,
+      [...params, granularity]
+    );
+
+    return result.rows.map((row) => ({
+      bucket: row.bucket,
+      total: toInt(row.total),
+      success: toInt(row.success),
+      error: toInt(row.error),
+      p50: toMs(row.p50),
+      p95: toMs(row.p95),
+    }));
+  }
+
+  // Per node: executions that reached it, error rate, latency, retries, and where executions stopped
+  private async nodeStats(params: any[]): Promise<NodeStats[]> {
+    const result = await db.query(
+      `WITH executions AS (${EXECUTIONS_IN_RANGE}),
+       steps AS (
+         SELECT p.* FROM execucao_passos p JOIN executions e ON e.id = p.execucao_id
+       ),
+       last_steps AS (
+         SELECT DISTINCT ON (p.execucao_id) p.execucao_id, p.no_id, e.status
+         FROM steps p JOIN executions e ON e.id = p.execucao_id
+         ORDER BY p.execucao_id, p.sequencia DESC
+       )
+       SELECT
+        s.no_id,
+        MIN(s.tipo_no) AS type,
+        COUNT(DISTINCT s.execucao_id) AS reached,
+        COUNT(*) AS runs,
+        COUNT(*) FILTER (WHERE s.status = 'erro') AS errors,
+        SUM(GREATEST(s.tentativas - 1, 0)) AS retries,
+        AVG(s.duracao) AS avg_duration,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY s.duracao) AS p50,
+        PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY s.duracao) AS p95,
+        (SELECT jsonb_object_agg(status, total) FROM (
+           SELECT l.status, COUNT(*) AS total FROM last_steps l WHERE l.no_id = s.no_id GROUP BY l.status
+         ) stopped) AS last_step_statuses
+       FROM steps s
+       GROUP BY s.no_id`,
+      params
+    );
+
+    return result.rows.map((row) => {
+      const runs = toInt(row.runs);
+      const errors = toInt(row.errors);
+
+      return {
+        nodeId: row.no_id,
+        type: row.type,
+        reached: toInt(row.reached),
+        runs,
+        errors,
+        errorRate: rate(errors, runs),
+        retries: toInt(row.retries),
+        duration: { avg: toMs(row.avg_duration), p50: toMs(row.p50), p95: toMs(row.p95) },
+        lastStepStatuses: row.last_step_statuses || {},
+      };
+    });
+  }
+
+  private async topErrors(params: any[]) {
+    const result = await db.query(
+      `SELECT
+        error_message AS message,
+        error_details->>'nodeId' AS node_id,
+        COUNT(*) AS total,
+        MAX(created_at) AS last_seen
+       FROM (${EXECUTIONS_IN_RANGE}) e
+       WHERE status = 'erro' AND error_message IS NOT NULL
+       GROUP BY error_message, error_details->>'nodeId'
+       ORDER BY total DESC, last_seen DESC
+       LIMIT ${TOP_ERRORS_LIMIT}`,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      message: row.message,
+      nodeId: row.node_id ?? null,
+      count: toInt(row.total),
+      lastSeen: row.last_seen,
+    }));
+  }
+
+  // Nodes in graph order (distance from the start) with how many executions reached them and
+  // how many stopped there, e.g. waiting for a reply that never came.
+  // Nodes no longer in the graph but present in the traces come last.
+  private funnel(flow: AnalyticsFlow, stats: NodeStats[], started: number) {
+    const byNode = new Map(stats.map((stat) => [stat.nodeId, stat]));
+    const depth = this.depths(flow);
+
+    const ordered = [
+      ...flow.nodes
+        .slice()
+        .sort((a, b) => (depth.get(a.id) ?? Infinity) - (depth.get(b.id) ?? Infinity))
+        .map((node) => ({ nodeId: node.id, type: node.type, label: node.data?.label ?? nodeTypeRegistry.get(node.type)?.label ?? node.type, removed: false })),
+      ...stats
+        .filter((stat) => !flow.nodes.some((node) => node.id === stat.nodeId))
+        .map((stat) => ({ nodeId: stat.nodeId, type: stat.type, label: null, removed: true })),
+    ];
+
+    return ordered.map((entry) => {
+      const stat = byNode.get(entry.nodeId);
+      const stopped = stat?.lastStepStatuses || {};
+
+      return {
+        ...entry,
+        depth: depth.get(entry.nodeId) ?? null,
+        reached: stat?.reached ?? 0,
+        reachedRate: rate(stat?.reached ?? 0, started),
+        // Executions whose last step was this node, by final status (success at a non-end node is a drop-off too)
+        stoppedHere: {
+          success: stopped.sucesso ?? 0,
+          waiting: stopped.aguardando ?? 0,
+          error: stopped.erro ?? 0,
+          cancelled: stopped.cancelado ?? 0,
+        },
+      };
+    });
+  }
+
+  // Shortest distance of every node from the start nodes
+  private depths(flow: AnalyticsFlow): Map<string, number> {
+    const targets = new Set(flow.edges.map((edge) => edge.target));
+    const explicit = flow.nodes.filter((node) => START_NODE_TYPES.includes(node.type));
+    const starts = (explicit.length > 0 ? explicit : flow.nodes.filter((node) => !targets.has(node.id))).map((node) => node.id);
+
+    const depth = new Map<string, number>(starts.map((id) => [id, 0]));
+    const queue = [...starts];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of flow.edges) {
+        if (edge.source === current && !depth.has(edge.target)) {
+          depth.set(edge.target, depth.get(current)! + 1);
+          queue.push(edge.target);
+        }
+      }
+    }
+
+    return depth;
+  }
+}
+
+export const flowAnalytics = new FlowAnalytics();
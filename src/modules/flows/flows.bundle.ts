@@ -0,0 +1,141 @@
+import { FlowNode, FlowEdge } from './flows.schema.js';
+import { nodeTypeRegistry, NodeReferenceKind } from './flows.nodes.js';
+
+// Portable flow bundle (GET /flows/:id/export, POST /flows/import)
+export const FLOW_BUNDLE_FORMAT = 'omnibot.flow';
+export const FLOW_BUNDLE_VERSION = 1;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Trigger filter paths whose values are ids of tenant records
+const FILTER_REFERENCE_KINDS: Array<[RegExp, NodeReferenceKind]> = [
+  [/(^|\.)(channelId|channel_id)$/, 'channel'],
+  [/(^|\.)(agentId|agent_id)$/, 'agent'],
+  [/(^|\.)(conversationId|conversation_id)$/, 'conversation'],
+];
+
+export type ReferenceUsage =
+  | { location: 'node'; nodeId: string; field: string }
+  | { location: 'trigger'; filter: string };
+
+export interface BundleReference {
+  kind: NodeReferenceKind;
+  id: string;
+  label: string | null;
+  usages: ReferenceUsage[];
+}
+
+export interface BundleFlow {
+  name: string;
+  description?: string | null;
+  type: string;
+  triggerType?: string | null;
+  triggerConfig: Record<string, any>;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  variables: Record<string, any>;
+  tags: string[];
+}
+
+export interface FlowBundle {
+  format: typeof FLOW_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  source: { flowId: string; version: number };
+  requirements: { nodeTypes: string[]; credentials?: string[] }; // Credentials by name; secrets never leave the tenant
+  flow: BundleFlow;
+  references: BundleReference[];
+}
+
+export const isReferenceId = (value: unknown): value is string => typeof value === 'string' && UUID.test(value);
+
+// Every tenant record the flow points at, grouped by id
+export const collectReferences = (flow: Pick<BundleFlow, 'nodes' | 'triggerConfig'>): BundleReference[] => {
+  const references = new Map<string, BundleReference>();
+
+  const add = (kind: NodeReferenceKind, id: string, usage: ReferenceUsage) => {
+    const key = `${kind}:${id}`;
+    if (!references.has(key)) {
+      references.set(key, { kind, id, label: null, usages: [] });
+    }
+    references.get(key)!.usages.push(usage);
+  };
+
+  for (const node of flow.nodes) {
+    const fields = nodeTypeRegistry.get(node.type)?.references || {};
+    for (const [field, kind] of Object.entries(fields)) {
+      const value = node.data?.[field];
+      if (isReferenceId(value)) {
+        add(kind, value, { location: 'node', nodeId: node.id, field });
+      }
+    }
+  }
+
+  for (const [path, expected] of Object.entries(flow.triggerConfig?.filters || {})) {
+    const kind = FILTER_REFERENCE_KINDS.find(([pattern]) => pattern.test(path))?.[1];
+    if (!kind) continue;
+
+    for (const value of Array.isArray(expected) ? expected : [expected]) {
+      if (isReferenceId(value)) {
+        add(kind, value, { location: 'trigger', filter: path });
+      }
+    }
+  }
+
+  return Array.from(references.values());
+};
+
+// Names of the stored credentials the nodes authenticate with
+export const collectCredentials = (nodes: FlowNode[]): string[] => {
+  const names = new Set<string>();
+
+  for (const node of nodes) {
+    for (const field of nodeTypeRegistry.get(node.type)?.credentials || []) {
+      const value = node.data?.[field];
+      if (typeof value === 'string' && value && !value.includes('{{')) {
+        names.add(value);
+      }
+    }
+  }
+
+  return Array.from(names);
+};
+
+// Rewrite referenced ids; a null binding removes the value (nodes then fall back to the triggering record)
+export const applyBindings = (
+  flow: Pick<BundleFlow, 'nodes' | 'triggerConfig'>,
+  bindings: Map<string, string | null>
+): Pick<BundleFlow, 'nodes' | 'triggerConfig'> => {
+  const rebind = (value: any) => (isReferenceId(value) && bindings.has(value) ? bindings.get(value) : value);
+
+  const nodes = flow.nodes.map((node) => {
+    const fields = Object.keys(nodeTypeRegistry.get(node.type)?.references || {});
+    if (fields.length === 0 || !node.data) return node;
+
+    const data = { ...node.data };
+    for (const field of fields) {
+      const value = rebind(data[field]);
+      if (value === null) {
+        delete data[field];
+      } else {
+        data[field] = value;
+      }
+    }
+    return { ...node, data };
+  });
+
+  const filters = { ...(flow.triggerConfig?.filters || {}) };
+  for (const [path, expected] of Object.entries(filters)) {
+    if (!FILTER_REFERENCE_KINDS.some(([pattern]) => pattern.test(path))) continue;
+
+    const values = (Array.isArray(expected) ? expected : [expected]).map(rebind).filter((value) => value !== null);
+    if (values.length === 0) {
+      delete filters[path];
+    } else {
+      filters[path] = Array.isArray(expected) ? values : values[0];
+    }
+  }
+
+  const triggerConfig = flow.triggerConfig?.filters ? { ...flow.triggerConfig, filters } : flow.triggerConfig;
+  return { nodes, triggerConfig };
+};
@@ -4,10 +4,26 @@ import {
   createFlowSchema,
   updateFlowSchema,
   executeFlowSchema,
+  validateFlowSchema,
+  flowHookParamsSchema,
+  replayExecutionSchema,
+  versionDiffQuerySchema,
+  versionParamSchema,
+  evaluateExpressionSchema,
+  importFlowSchema,
+  n8nSyncSchema,
+  saveAsTemplateSchema,
+  createFromTemplateSchema,
+  debugRunSchema,
+  debugCommandSchema,
+  analyticsQuerySchema,
+  throttleQuerySchema,
   flowQuerySchema,
   executionQuerySchema,
 } from './flows.schema.js';
+import { nodeTypeRegistry } from './flows.nodes.js';
 import { db } from '../../config/database.js';
+import { isPlatformAdmin } from '../../shared/middleware/auth.middleware.js';
 
 // Helper to get tenant_id from userId
 async function getTenantId(userId: string): Promise<string | null> {
@@ -63,8 +79,12 @@ class FlowsController {
   // GET /flows/templates - Get templates
   async getTemplates(req: Request, res: Response, next: NextFunction) {
     try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
       const { category } = req.query;
-      const templates = await flowsService.getTemplates(category as string);
+      const templates = await flowsService.getTemplates(tenantId, category as string);
 
       res.json({
         success: true,
@@ -75,6 +95,66 @@ class FlowsController {
     }
   }
 
+  // GET /flows/templates/:templateId - Get template with its parameters
+  async getTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { templateId } = req.params;
+
+      const template = await flowsService.getTemplate(tenantId, templateId);
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/templates/:templateId/publish - Publish any tenant's template to all tenants (platform admin)
+  async publishTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { templateId } = req.params;
+
+      const template = await flowsService.publishTemplate(null, templateId, true, req.user!.userId);
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/templates/:templateId/unpublish - Make template private again (admin)
+  async unpublishTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { templateId } = req.params;
+
+      const template = await flowsService.publishTemplate(
+        isPlatformAdmin(req.user) ? null : tenantId,
+        templateId,
+        false
+      );
+
+      res.json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // GET /flows/:id - Get flow by ID
   async getById(req: Request, res: Response, next: NextFunction) {
     try {
@@ -115,23 +195,48 @@ class FlowsController {
     }
   }
 
-  // POST /flows/from-template - Create from template
-  async createFromTemplate(req: Request, res: Response, next: NextFunction) {
+  // GET /flows/node-types - Get node type catalog
+  async getNodeTypes(req: Request, res: Response, next: NextFunction) {
+    try {
+      res.json({
+        success: true,
+        data: nodeTypeRegistry.catalog(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/expressions/evaluate - Expression playground
+  async evaluateExpression(req: Request, res: Response, next: NextFunction) {
     try {
       const tenantId = await getTenantId(req.user!.userId);
       if (!tenantId) {
         return res.status(404).json({ success: false, error: { message: 'User not found' } });
       }
-      const { templateId, name } = req.body;
 
-      if (!templateId) {
-        return res.status(400).json({
-          success: false,
-          error: 'Template ID is required',
-        });
+      const data = evaluateExpressionSchema.parse(req.body);
+      const evaluation = await flowsService.evaluateExpression(tenantId, data);
+
+      res.json({
+        success: true,
+        data: evaluation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/from-template - Create from template
+  async createFromTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
       }
 
-      const flow = await flowsService.createFromTemplate(tenantId, templateId, name);
+      const data = createFromTemplateSchema.parse(req.body);
+      const flow = await flowsService.createFromTemplate(tenantId, data);
 
       res.status(201).json({
         success: true,
@@ -142,6 +247,50 @@ class FlowsController {
     }
   }
 
+  // POST /flows/import - Import flow bundle (dryRun only reports compatibility)
+  async importFlow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+
+      const data = importFlowSchema.parse(req.body);
+      const result = await flowsService.importFlow(tenantId, data);
+
+      res.status(data.dryRun ? 200 : 201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/export - Export flow as a portable bundle
+  async exportFlow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const bundle = await flowsService.exportFlow(tenantId, id);
+
+      if (req.query.download !== undefined) {
+        res.setHeader('Content-Disposition', `attachment; filename="flow-${id}.json"`);
+      }
+
+      res.json({
+        success: true,
+        data: bundle,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // PATCH /flows/:id - Update flow
   async update(req: Request, res: Response, next: NextFunction) {
     try {
@@ -152,7 +301,7 @@ class FlowsController {
       const { id } = req.params;
 
       const data = updateFlowSchema.parse(req.body);
-      const flow = await flowsService.update(tenantId, id, data);
+      const flow = await flowsService.update(tenantId, id, data, req.user!.userId);
 
       res.json({
         success: true,
@@ -192,7 +341,7 @@ class FlowsController {
       }
       const { id } = req.params;
 
-      const flow = await flowsService.activate(tenantId, id);
+      const flow = await flowsService.activate(tenantId, id, req.user!.userId);
 
       res.json({
         success: true,
@@ -223,7 +372,104 @@ class FlowsController {
     }
   }
 
-  // POST /flows/:id/execute - Execute flow manually
+  // POST /flows/:id/webhook - Generate or rotate webhook URL and secret
+  async generateWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const webhook = await flowsService.generateWebhook(tenantId, id);
+
+      res.json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/n8n/sync - Create or update the linked n8n workflow
+  async syncN8n(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const data = n8nSyncSchema.parse(req.body ?? {});
+      const flow = await flowsService.syncN8n(tenantId, id, data);
+
+      res.json({
+        success: true,
+        data: flow,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /hooks/flows/:flowId/:token - Inbound webhook (public)
+  async receiveWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { flowId, token } = flowHookParamsSchema.parse(req.params);
+
+      const { mode, execution } = await flowsService.triggerWebhook(flowId, token, {
+        method: req.method,
+        headers: req.headers,
+        query: req.query,
+        body: req.body,
+        rawBody: req.rawBody,
+      });
+
+      // Async mode, or a sync flow that suspended on a wait node
+      if (mode === 'async' || execution.status === 'waiting') {
+        return res.status(202).json({
+          success: true,
+          data: { executionId: execution.id, status: execution.status },
+        });
+      }
+
+      // Sync mode answers with the flow output as-is
+      if (execution.status === 'error') {
+        return res.status(500).json({
+          success: false,
+          error: { message: execution.error_message, code: 'FLOW_EXECUTION_FAILED', executionId: execution.id },
+        });
+      }
+
+      res.json(execution.output_data ?? {});
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/validate - Validate flow graph (dry run)
+  async validate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const data = validateFlowSchema.parse(req.body);
+      const report = await flowsService.validate(tenantId, id, data);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/execute - Queue flow execution
   async execute(req: Request, res: Response, next: NextFunction) {
     try {
       const tenantId = await getTenantId(req.user!.userId);
@@ -233,9 +479,77 @@ class FlowsController {
       const { id } = req.params;
 
       const data = executeFlowSchema.parse(req.body);
-      const execution = await flowsService.execute(tenantId, id, data);
+      const execution = await flowsService.enqueue(tenantId, id, data);
+
+      res.status(202).json({
+        success: true,
+        data: execution,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/throttled - Triggers rejected or queued by the flow limits
+  async getThrottled(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const params = throttleQuerySchema.parse(req.query);
+      const result = await flowsService.getThrottled(tenantId, id, params);
+
+      res.json({
+        success: true,
+        data: result.throttled,
+        meta: {
+          total: result.total,
+          page: result.page,
+          perPage: result.perPage,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/analytics - Execution analytics (from, to, granularity)
+  async getAnalytics(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const query = analyticsQuerySchema.parse(req.query);
+      const analytics = await flowsService.getAnalytics(tenantId, id, query);
 
       res.json({
+        success: true,
+        data: analytics,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/debug - Start a step-through debug run (progress over Socket.IO)
+  async debug(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const data = debugRunSchema.parse(req.body);
+      const execution = await flowsService.debugRun(tenantId, id, data);
+
+      res.status(202).json({
         success: true,
         data: execution,
       });
@@ -244,6 +558,212 @@ class FlowsController {
     }
   }
 
+  // POST /flows/:id/executions/:execId/debug - Step, continue or stop a debug run
+  async debugCommand(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id, execId } = req.params;
+
+      const { action } = debugCommandSchema.parse(req.body);
+      const session = await flowsService.debugCommand(tenantId, id, execId, action);
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/executions/:execId/trace - Per-node trace of an execution
+  async getTrace(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id, execId } = req.params;
+
+      const trace = await flowsService.getTrace(tenantId, id, execId);
+
+      res.json({
+        success: true,
+        data: trace,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/executions/:execId/cancel - Cancel execution
+  async cancel(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id, execId } = req.params;
+
+      const execution = await flowsService.cancelExecution(tenantId, id, execId);
+
+      res.json({
+        success: true,
+        data: execution,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/executions/:execId/retry - Retry from the failed node
+  async retry(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id, execId } = req.params;
+
+      const execution = await flowsService.retryExecution(tenantId, id, execId);
+
+      res.status(202).json({
+        success: true,
+        data: execution,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/executions/:execId/replay - Replay from the start
+  async replay(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id, execId } = req.params;
+
+      const data = replayExecutionSchema.parse(req.body);
+      const execution = await flowsService.replayExecution(tenantId, id, execId, data);
+
+      res.status(202).json({
+        success: true,
+        data: execution,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/versions - List published versions
+  async listVersions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const versions = await flowsService.listVersions(tenantId, id);
+
+      res.json({
+        success: true,
+        data: versions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/versions/diff - Diff two versions
+  async diffVersions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const query = versionDiffQuerySchema.parse(req.query);
+      const diff = await flowsService.diffVersions(tenantId, id, query);
+
+      res.json({
+        success: true,
+        data: diff,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /flows/:id/versions/:version - Get version snapshot
+  async getVersion(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const version = versionParamSchema.parse(req.params.version);
+      const snapshot = await flowsService.getVersion(tenantId, id, version);
+
+      res.json({
+        success: true,
+        data: snapshot,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/versions/:version/restore - Restore version
+  async restoreVersion(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const version = versionParamSchema.parse(req.params.version);
+      const flow = await flowsService.restoreVersion(tenantId, id, version, req.user!.userId);
+
+      res.json({
+        success: true,
+        data: flow,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /flows/:id/save-as-template - Save flow as a private template
+  async saveAsTemplate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const tenantId = await getTenantId(req.user!.userId);
+      if (!tenantId) {
+        return res.status(404).json({ success: false, error: { message: 'User not found' } });
+      }
+      const { id } = req.params;
+
+      const data = saveAsTemplateSchema.parse(req.body);
+      const template = await flowsService.saveAsTemplate(tenantId, id, data, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // POST /flows/:id/duplicate - Duplicate flow
   async duplicate(req: Request, res: Response, next: NextFunction) {
     try {
@@ -0,0 +1,130 @@
+import { env } from '../../config/env.js';
+import { emitToTenant } from '../../config/socket.js';
+import { AppError } from '../../shared/middleware/error.middleware.js';
+import { ExecutionContext } from './flows.nodes.js';
+import { NodeTraceRecord } from './flows.engine.js';
+
+export const debugActions = ['step', 'continue', 'stop'] as const;
+export type DebugAction = (typeof debugActions)[number];
+
+interface DebugSession {
+  tenantId: string;
+  flowId: string;
+  executionId: string;
+  breakpoints: Set<string>;
+  stepping: boolean; // Pause after every node, not only at breakpoints
+  stopped: boolean;
+  release: (() => void) | null;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+// Hooks handed to runExecution for one debug run
+export interface DebugHooks {
+  onStep: (step: NodeTraceRecord, ctx: ExecutionContext) => Promise<void>;
+  isStopped: () => boolean;
+}
+
+// Step-through runs for the flow editor. Sessions live in the API process that started
+// the run, so progress is streamed over its Socket.IO server (tenant room).
+export class FlowDebugger {
+  private readonly sessions = new Map<string, DebugSession>();
+
+  open(
+    execution: { id: string; tenant_id: string; fluxo_id: string },
+    options: { breakpoints: string[]; stepping: boolean }
+  ): DebugHooks {
+    const session: DebugSession = {
+      tenantId: execution.tenant_id,
+      flowId: execution.fluxo_id,
+      executionId: execution.id,
+      breakpoints: new Set(options.breakpoints),
+      stepping: options.stepping,
+      stopped: false,
+      release: null,
+      idleTimer: null,
+    };
+    this.sessions.set(execution.id, session);
+
+    return {
+      onStep: (step, ctx) => this.onStep(session, step, ctx),
+      isStopped: () => session.stopped,
+    };
+  }
+
+  // step: run one more node and pause; continue: run to the next breakpoint; stop: cancel the run
+  command(tenantId: string, executionId: string, action: DebugAction) {
+    const session = this.sessions.get(executionId);
+    if (!session || session.tenantId !== tenantId) {
+      throw new AppError('Debug session not found', 404, 'DEBUG_SESSION_NOT_FOUND');
+    }
+
+    if (action === 'stop') {
+      session.stopped = true;
+    } else {
+      session.stepping = action === 'step';
+    }
+    this.resume(session);
+
+    return { executionId, action, stepping: session.stepping, stopped: session.stopped };
+  }
+
+  // Cancel a run from outside the debugger (cancel endpoint, shutdown)
+  stop(executionId: string): void {
+    const session = this.sessions.get(executionId);
+    if (session) {
+      session.stopped = true;
+      this.resume(session);
+    }
+  }
+
+  stopAll(): void {
+    this.sessions.forEach((session) => this.stop(session.executionId));
+  }
+
+  finish(executionId: string, execution: { status: string; output_data?: any; error_message?: string | null }): void {
+    const session = this.sessions.get(executionId);
+    if (!session) return;
+
+    this.sessions.delete(executionId);
+    emitToTenant(session.tenantId, 'flow:debug:finished', {
+      executionId,
+      flowId: session.flowId,
+      status: execution.status,
+      output: execution.output_data ?? null,
+      error: execution.error_message ?? null,
+    });
+  }
+
+  private async onStep(session: DebugSession, step: NodeTraceRecord, ctx: ExecutionContext): Promise<void> {
+    const pause = !session.stopped && (session.stepping || session.breakpoints.has(step.node_id));
+
+    emitToTenant(session.tenantId, 'flow:debug:step', {
+      executionId: session.executionId,
+      flowId: session.flowId,
+      step,
+      vars: ctx.vars,
+      paused: pause,
+    });
+
+    if (!pause) return;
+
+    await new Promise<void>((resolve) => {
+      session.release = resolve;
+      // An abandoned editor must not hold the run forever
+      session.idleTimer = setTimeout(() => this.stop(session.executionId), env.FLOW_DEBUG_IDLE_TIMEOUT_MS);
+    });
+  }
+
+  private resume(session: DebugSession): void {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = null;
+    }
+
+    const release = session.release;
+    session.release = null;
+    release?.();
+  }
+}
+
+export const flowDebugger = new FlowDebugger();
@@ -0,0 +1,104 @@
+import { FlowNode, FlowEdge } from './flows.schema.js';
+
+// Graph state compared between two flow versions
+export interface FlowSnapshot {
+  version: number;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  variables: Record<string, any>;
+  triggerType: string | null;
+  triggerConfig: Record<string, any>;
+}
+
+export interface ChangedItem<T> {
+  id: string;
+  fields: string[];
+  before: T;
+  after: T;
+}
+
+export interface ItemDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ChangedItem<T>[];
+}
+
+export interface FlowVersionDiff {
+  from: number;
+  to: number;
+  nodes: ItemDiff<FlowNode>;
+  edges: ItemDiff<FlowEdge>;
+  variables: { added: string[]; removed: string[]; changed: string[] };
+  trigger: { changed: boolean; before: { type: string | null; config: Record<string, any> }; after: { type: string | null; config: Record<string, any> } };
+  identical: boolean;
+}
+
+// JSON with sorted keys, so key order never shows up as a change
+const canonical = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const sameValue = (a: any, b: any) => canonical(a) === canonical(b);
+
+const diffById = <T extends { id: string }>(before: T[], after: T[]): ItemDiff<T> => {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterById = new Map(after.map((item) => [item.id, item]));
+  const changed: ChangedItem<T>[] = [];
+
+  for (const [id, next] of afterById) {
+    const previous = beforeById.get(id);
+    if (!previous) continue;
+
+    const previousFields: Record<string, unknown> = { ...previous };
+    const nextFields: Record<string, unknown> = { ...next };
+    const keys = new Set([...Object.keys(previousFields), ...Object.keys(nextFields)]);
+    const fields = Array.from(keys).filter((key) => !sameValue(previousFields[key], nextFields[key]));
+    if (fields.length > 0) {
+      changed.push({ id, fields, before: previous, after: next });
+    }
+  }
+
+  return {
+    added: after.filter((item) => !beforeById.has(item.id)),
+    removed: before.filter((item) => !afterById.has(item.id)),
+    changed,
+  };
+};
+
+// Structural diff: nodes and edges are matched by id, variables by name
+export const diffFlowVersions = (before: FlowSnapshot, after: FlowSnapshot): FlowVersionDiff => {
+  const nodes = diffById(before.nodes || [], after.nodes || []);
+  const edges = diffById(before.edges || [], after.edges || []);
+
+  const beforeVars = before.variables || {};
+  const afterVars = after.variables || {};
+  const variables = {
+    added: Object.keys(afterVars).filter((name) => !(name in beforeVars)),
+    removed: Object.keys(beforeVars).filter((name) => !(name in afterVars)),
+    changed: Object.keys(afterVars).filter((name) => name in beforeVars && !sameValue(beforeVars[name], afterVars[name])),
+  };
+
+  const triggerChanged = before.triggerType !== after.triggerType || !sameValue(before.triggerConfig, after.triggerConfig);
+
+  const counts = [nodes, edges, variables].flatMap((diff) => [diff.added.length, diff.removed.length, diff.changed.length]);
+
+  return {
+    from: before.version,
+    to: after.version,
+    nodes,
+    edges,
+    variables,
+    trigger: {
+      changed: triggerChanged,
+      before: { type: before.triggerType, config: before.triggerConfig || {} },
+      after: { type: after.triggerType, config: after.triggerConfig || {} },
+    },
+    identical: !triggerChanged && counts.every((count) => count === 0),
+  };
+};
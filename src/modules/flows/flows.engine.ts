@@ -0,0 +1,375 @@
+import { FlowNode, FlowEdge, NodeRetryPolicy, nodeRetrySchema } from './flows.schema.js';
+import {
+  ExecutionContext,
+  NodeResult,
+  NodeSuspension,
+  ResumePayload,
+  NodeExecutionError,
+  nodeTypeRegistry,
+} from './flows.nodes.js';
+import { ExpressionScope, resolveTemplates } from './flows.expressions.js';
+
+// Node types that mark where an execution begins
+const START_NODE_TYPES = ['trigger', 'start'];
+
+// Safety net against graphs that loop forever
+const MAX_STEPS = 500;
+
+export interface NodeExecutionRecord {
+  node_id: string;
+  type: string;
+  status: 'sucesso' | 'erro';
+  handle?: string;
+  output?: any;
+  error?: string;
+  suspended?: boolean;
+  attempts: number;
+  started_at: string;
+  finished_at: string;
+  duration: number;
+}
+
+// Full record of a node run, stored as the execution trace
+export interface NodeTraceRecord extends NodeExecutionRecord {
+  input: Record<string, any>; // Outputs of the nodes whose edges led here, keyed by node id
+  config?: any; // Node data after rendering {{ }} templates
+  stack?: string;
+  attempt_errors: Array<{ attempt: number; error: string; at: string }>; // Failures before the last attempt
+  edges: string[]; // Edges followed after the node
+}
+
+// State needed to resume an execution from one of its nodes
+export interface FlowRunContext {
+  vars: Record<string, any>;
+  nodes: Record<string, any>;
+  output?: any;
+  pending: string[]; // Queued node ids that had not run yet
+}
+
+export interface FlowSuspension extends NodeSuspension {
+  nodeId: string;
+}
+
+export interface FlowRunResult {
+  status: 'sucesso' | 'erro' | 'cancelado' | 'aguardando';
+  output: any;
+  nodesExecuted: NodeTraceRecord[];
+  context: FlowRunContext;
+  suspension?: FlowSuspension;
+  error?: { message: string; nodeId?: string; stack?: string };
+  duration: number;
+}
+
+interface FlowDefinition {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  variables: Record<string, any>;
+}
+
+export interface FlowRunOptions {
+  timeoutMs?: number; // Whole execution, retries and backoff included
+  startNodeIds?: string[]; // Resume from these nodes instead of the start nodes
+  resume?: { nodeId: string; payload: ResumePayload; pending?: string[] }; // Continue after a suspended node
+  isCancelled?: () => Promise<boolean>; // Checked before every node
+  onStep?: (step: NodeTraceRecord, ctx: ExecutionContext) => Promise<void>; // Awaited after every node that ran; a debugger pauses here
+}
+
+// Compact form kept in execucoes_fluxo.nodes_executed; the full record goes to the trace
+export const summarizeStep = ({ input, config, stack, attempt_errors, edges, ...summary }: NodeTraceRecord): NodeExecutionRecord => summary;
+
+export class ExecutionTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Execution timed out after ${timeoutMs}ms`);
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Rejects once the deadline passes; the node itself keeps running in the background
+const withDeadline = <T>(promise: Promise<T>, deadline: number, timeoutMs: number): Promise<T> => {
+  if (!Number.isFinite(deadline)) return promise;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ExecutionTimeoutError(timeoutMs)), Math.max(0, deadline - Date.now()));
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+export class FlowEngine {
+  // Walk the graph from its start nodes, running each node's handler
+  async run(flow: FlowDefinition, ctx: ExecutionContext, options: FlowRunOptions = {}): Promise<FlowRunResult> {
+    const startedAt = Date.now();
+    const timeoutMs = options.timeoutMs ?? Infinity;
+    const deadline = startedAt + timeoutMs;
+    const nodesExecuted: NodeTraceRecord[] = [];
+    const nodesById = new Map(flow.nodes.map((node) => [node.id, node]));
+    const arrivals = new Map<string, string[]>(); // Node id -> ids of the nodes that queued it
+    let lastOutput: any;
+
+    ctx.vars = { ...(flow.variables || {}), ...ctx.vars };
+
+    const queue = options.resume ? [...(options.resume.pending || [])]
+      : options.startNodeIds ? [...options.startNodeIds]
+      : this.findStartNodes(flow).map((node) => node.id);
+    const context = (): FlowRunContext => ({ vars: ctx.vars, nodes: ctx.nodes, output: ctx.output, pending: [...queue] });
+    let currentNodeId: string | undefined;
+    let steps = 0;
+
+    const follow = (node: FlowNode, result: NodeResult) => {
+      const followed: string[] = [];
+      for (const edge of flow.edges) {
+        if (edge.source !== node.id) continue;
+        if (result.handle !== undefined && edge.sourceHandle !== result.handle) continue;
+        // A node reached by several branches is queued once and receives every arrival
+        if (!queue.includes(edge.target)) queue.push(edge.target);
+        arrivals.set(edge.target, [...(arrivals.get(edge.target) || []), node.id]);
+        followed.push(edge.id);
+      }
+
+      // follow runs right after runNode recorded the node
+      nodesExecuted[nodesExecuted.length - 1].edges = followed;
+    };
+
+    // Joins wait while another queued node can still reach them, so a merge runs once with all its branches
+    const next = () => {
+      const index = queue.findIndex((nodeId) => !queue.some((other) => other !== nodeId && this.reaches(flow, other, nodeId)));
+      return queue.splice(Math.max(index, 0), 1)[0];
+    };
+
+    const inputOf = (nodeId: string) => {
+      const sources = arrivals.get(nodeId) || [];
+      arrivals.delete(nodeId);
+      return Object.fromEntries(sources.map((source) => [source, ctx.nodes[source]]));
+    };
+
+    const step = async () => {
+      if (options.onStep) {
+        await options.onStep(nodesExecuted[nodesExecuted.length - 1], ctx);
+      }
+    };
+
+    try {
+      if (options.resume) {
+        const node = nodesById.get(options.resume.nodeId);
+        currentNodeId = options.resume.nodeId;
+        if (!node) {
+          throw new NodeExecutionError(options.resume.nodeId, `Node ${options.resume.nodeId} not found`);
+        }
+
+        const result = await this.runNode(node, ctx, nodesExecuted, deadline, timeoutMs, {}, options.resume.payload, flow.variables);
+        lastOutput = result.output;
+        follow(node, result);
+        await step();
+      }
+
+      while (queue.length > 0) {
+        if (++steps > MAX_STEPS) {
+          throw new Error(`Execution exceeded the limit of ${MAX_STEPS} steps`);
+        }
+        if (Date.now() >= deadline) {
+          throw new ExecutionTimeoutError(timeoutMs);
+        }
+
+        if (options.isCancelled && await options.isCancelled()) {
+          return {
+            status: 'cancelado',
+            output: ctx.output ?? null,
+            nodesExecuted,
+            context: context(),
+            duration: Date.now() - startedAt,
+          };
+        }
+
+        const nodeId = next();
+        currentNodeId = nodeId;
+        const node = nodesById.get(nodeId);
+        if (!node) {
+          throw new NodeExecutionError(nodeId, `Node ${nodeId} not found`);
+        }
+
+        const result = await this.runNode(node, ctx, nodesExecuted, deadline, timeoutMs, inputOf(nodeId), undefined, flow.variables);
+        lastOutput = result.output;
+
+        // The rest of the graph runs when the execution is resumed
+        if (result.suspend) {
+          await step();
+          return {
+            status: 'aguardando',
+            output: ctx.output ?? null,
+            nodesExecuted,
+            context: context(),
+            suspension: { ...result.suspend, nodeId: node.id },
+            duration: Date.now() - startedAt,
+          };
+        }
+
+        follow(node, result);
+        await step();
+      }
+
+      return {
+        status: 'sucesso',
+        output: ctx.output ?? lastOutput ?? {},
+        nodesExecuted,
+        context: context(),
+        duration: Date.now() - startedAt,
+      };
+    } catch (error: any) {
+      return {
+        status: 'erro',
+        output: ctx.output ?? null,
+        nodesExecuted,
+        context: context(),
+        error: {
+          message: error.message,
+          nodeId: error instanceof NodeExecutionError ? error.nodeId : currentNodeId,
+          stack: error.stack,
+        },
+        duration: Date.now() - startedAt,
+      };
+    }
+  }
+
+  private async runNode(
+    node: FlowNode,
+    ctx: ExecutionContext,
+    nodesExecuted: NodeExecutionRecord[],
+    deadline: number,
+    timeoutMs: number,
+    input: Record<string, any>,
+    resumePayload?: ResumePayload,
+    flowVariables: Record<string, any> = {}
+  ): Promise<NodeResult> {
+    const started = new Date();
+    const definition = nodeTypeRegistry.get(node.type);
+    const retry = this.retryPolicy(node);
+    const attemptErrors: NodeTraceRecord['attempt_errors'] = [];
+    let renderedConfig: any;
+    let attempts = 0;
+
+    const record = (fields: Partial<NodeTraceRecord>) => {
+      const finished = new Date();
+      nodesExecuted.push({
+        node_id: node.id,
+        type: node.type,
+        status: 'sucesso',
+        attempts,
+        input,
+        config: renderedConfig,
+        attempt_errors: attemptErrors,
+        edges: [],
+        started_at: started.toISOString(),
+        finished_at: finished.toISOString(),
+        duration: finished.getTime() - started.getTime(),
+        ...fields,
+      });
+    };
+
+    try {
+      if (!definition) {
+        throw new NodeExecutionError(node.id, `Unsupported node type: ${node.type}`);
+      }
+
+      let data: any;
+      try {
+        data = resolveTemplates(node.data ?? {}, this.expressionScope(ctx, flowVariables));
+      } catch (error: any) {
+        throw new NodeExecutionError(node.id, `Expression error: ${error.message}`);
+      }
+
+      const config = definition.configSchema.safeParse(data);
+      if (!config.success) {
+        const issue = config.error.issues[0];
+        throw new NodeExecutionError(node.id, `Invalid config at ${issue.path.join('.') || 'data'}: ${issue.message}`);
+      }
+      renderedConfig = config.data;
+
+      const handler = resumePayload
+        ? () => (definition.resume ? definition.resume(config.data, node, ctx, resumePayload) : Promise.resolve({}))
+        : () => definition.execute(config.data, node, ctx);
+
+      // Retry the handler with exponential backoff; timeouts are never retried
+      let result: NodeResult;
+      while (true) {
+        attempts++;
+        try {
+          result = await withDeadline(handler(), deadline, timeoutMs);
+          break;
+        } catch (error: any) {
+          if (error instanceof ExecutionTimeoutError || attempts >= retry.maxAttempts) {
+            throw error;
+          }
+          attemptErrors.push({ attempt: attempts, error: error.message, at: new Date().toISOString() });
+
+          const backoff = retry.backoffMs * Math.pow(retry.backoffMultiplier, attempts - 1);
+          if (Date.now() + backoff >= deadline) {
+            throw new ExecutionTimeoutError(timeoutMs);
+          }
+          await sleep(backoff);
+        }
+      }
+
+      ctx.nodes[node.id] = result.output;
+      record({ handle: result.handle, output: result.output, suspended: result.suspend ? true : undefined });
+
+      return result;
+    } catch (error: any) {
+      record({ status: 'erro', error: error.message, stack: error.stack });
+
+      if (error instanceof NodeExecutionError || error instanceof ExecutionTimeoutError) {
+        throw error;
+      }
+      throw new NodeExecutionError(node.id, error.message);
+    }
+  }
+
+  // Values visible to {{ }} expressions in node data
+  private expressionScope(ctx: ExecutionContext, flowVariables: Record<string, any>): ExpressionScope {
+    return {
+      trigger: ctx.trigger,
+      input: ctx.input,
+      vars: ctx.vars,
+      nodes: ctx.nodes,
+      flow: { id: ctx.flowId, variables: flowVariables },
+      execution: { id: ctx.executionId },
+    };
+  }
+
+  private retryPolicy(node: FlowNode): NodeRetryPolicy {
+    const policy = nodeRetrySchema.safeParse(node.retry ?? {});
+    return policy.success ? policy.data : nodeRetrySchema.parse({});
+  }
+
+  // Explicit trigger/start nodes win; otherwise every node without incoming edges
+  // Whether a path leads from one node to another without passing through the target first
+  private reaches(flow: FlowDefinition, fromId: string, toId: string): boolean {
+    const seen = new Set([fromId]);
+    const pending = [fromId];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      for (const edge of flow.edges) {
+        if (edge.source !== current) continue;
+        if (edge.target === toId) return true;
+        if (seen.has(edge.target)) continue;
+        seen.add(edge.target);
+        pending.push(edge.target);
+      }
+    }
+    return false;
+  }
+
+  private findStartNodes(flow: FlowDefinition): FlowNode[] {
+    const explicit = flow.nodes.filter((node) => START_NODE_TYPES.includes(node.type));
+    if (explicit.length > 0) {
+      return explicit;
+    }
+
+    const targets = new Set(flow.edges.map((edge) => edge.target));
+    return flow.nodes.filter((node) => !targets.has(node.id));
+  }
+}
+
+export const flowEngine = new FlowEngine();
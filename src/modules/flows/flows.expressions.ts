@@ -0,0 +1,637 @@
+// Sandboxed expression language used inside node data: "Hello {{ trigger.from.name }}",
+// "{{ vars.cart.total * 1.1 }}", "{{ upper(trim(input.code)) }}".
+// Expressions are parsed into an AST and interpreted over plain data: there is no eval,
+// no method calls on values and no prototype access, so nothing reaches the Node.js process.
+
+// Names an expression may start from
+export const expressionScopes = ['trigger', 'input', 'vars', 'nodes', 'flow', 'execution'] as const;
+export type ExpressionScope = Partial<Record<(typeof expressionScopes)[number], any>>;
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 50;
+const MAX_STRING_LENGTH = 100000;
+const MAX_ARRAY_LENGTH = 10000;
+
+const FORBIDDEN_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Matches {{ ... }} segments inside a string
+const TEMPLATE_SEGMENT = /\{\{([\s\S]*?)\}\}/g;
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (at ${position})`);
+    this.name = 'ExpressionError';
+  }
+}
+
+// ==========================================
+// Tokenizer
+// ==========================================
+
+type TokenType = 'number' | 'string' | 'name' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j >= source.length) {
+        throw new ExpressionError('Unterminated string', i);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ type: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+};
+
+// ==========================================
+// Parser (precedence climbing)
+// ==========================================
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'array'; items: ExpressionNode[] }
+  | { kind: 'unary'; operator: string; argument: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected "${next.value}"`, next.position);
+    }
+    return node;
+  }
+
+  private expression(): ExpressionNode {
+    if (++this.depth > MAX_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+
+    const test = this.binary(1);
+    let node = test;
+    if (this.accept('?')) {
+      const consequent = this.expression();
+      this.expect(':');
+      const alternate = this.expression();
+      node = { kind: 'conditional', test, consequent, alternate };
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private binary(minPrecedence: number): ExpressionNode {
+    let left = this.unary();
+
+    while (true) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.binary(precedence + 1);
+      left = { kind: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private unary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && ['!', '-', '+'].includes(token.value)) {
+      this.index++;
+      return { kind: 'unary', operator: token.value, argument: this.unary() };
+    }
+    return this.postfix(this.primary());
+  }
+
+  private postfix(node: ExpressionNode): ExpressionNode {
+    while (true) {
+      if (this.accept('.')) {
+        const name = this.next();
+        if (name.type !== 'name') {
+          throw new ExpressionError('Expected property name', name.position);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: name.value }, computed: false };
+      } else if (this.accept('[')) {
+        const property = this.expression();
+        this.expect(']');
+        node = { kind: 'member', object: node, property, computed: true };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'name':
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (this.accept('(')) {
+          return { kind: 'call', name: token.value, args: this.list(')') };
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.expression();
+          this.expect(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'array', items: this.list(']') };
+        }
+        break;
+    }
+
+    throw new ExpressionError(token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`, token.position);
+  }
+
+  private list(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.accept(close)) return items;
+
+    do {
+      items.push(this.expression());
+    } while (this.accept(','));
+
+    this.expect(close);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++] ?? this.tokens[this.tokens.length - 1];
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    const token = this.peek();
+    if (!this.accept(operator)) {
+      throw new ExpressionError(`Expected "${operator}"`, token.position);
+    }
+  }
+}
+
+export const parseExpression = (source: string): ExpressionNode => {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  return new Parser(tokenize(source)).parse();
+};
+
+// ==========================================
+// Functions
+// ==========================================
+
+const toDate = (value: any): Date => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ExpressionError(`Invalid date: ${value}`);
+  }
+  return date;
+};
+
+const toArray = (value: any): any[] => {
+  if (!Array.isArray(value)) {
+    throw new ExpressionError('Expected an array');
+  }
+  return value;
+};
+
+const limitString = (value: string): string => {
+  if (value.length > MAX_STRING_LENGTH) {
+    throw new ExpressionError(`String result is longer than ${MAX_STRING_LENGTH} characters`);
+  }
+  return value;
+};
+
+const dateParts = (date: Date, timeZone = 'UTC'): Record<string, string> => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  return Object.fromEntries(parts.map((part) => [part.type, part.value]));
+};
+
+const DURATION_MS: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60000,
+  hours: 3600000,
+  days: 86400000,
+};
+
+const functions = new Map<string, (...args: any[]) => any>([
+  // Strings
+  ['upper', (value) => String(value ?? '').toUpperCase()],
+  ['lower', (value) => String(value ?? '').toLowerCase()],
+  ['trim', (value) => String(value ?? '').trim()],
+  ['capitalize', (value) => String(value ?? '').replace(/^./, (char) => char.toUpperCase())],
+  ['concat', (...values) => limitString(values.map((value) => String(value ?? '')).join(''))],
+  ['replace', (value, search, replacement) => limitString(String(value ?? '').split(String(search)).join(String(replacement ?? '')))],
+  ['split', (value, separator) => String(value ?? '').split(String(separator ?? ',')).slice(0, MAX_ARRAY_LENGTH)],
+  ['substring', (value, start, end) => String(value ?? '').substring(Number(start) || 0, end === undefined ? undefined : Number(end))],
+  ['startsWith', (value, prefix) => String(value ?? '').startsWith(String(prefix))],
+  ['endsWith', (value, suffix) => String(value ?? '').endsWith(String(suffix))],
+  ['padStart', (value, length, fill) => String(value ?? '').padStart(Math.min(Number(length) || 0, 1000), String(fill ?? ' '))],
+  ['string', (value) => (value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? ''))],
+
+  // Numbers
+  ['number', (value) => Number(value)],
+  ['round', (value, digits = 0) => {
+    const factor = Math.pow(10, Math.min(Math.max(Number(digits) || 0, 0), 10));
+    return Math.round(Number(value) * factor) / factor;
+  }],
+  ['floor', (value) => Math.floor(Number(value))],
+  ['ceil', (value) => Math.ceil(Number(value))],
+  ['abs', (value) => Math.abs(Number(value))],
+  ['min', (...values) => Math.min(...values.flat().map(Number))],
+  ['max', (...values) => Math.max(...values.flat().map(Number))],
+  ['sum', (values) => toArray(values).reduce((total, value) => total + (Number(value) || 0), 0)],
+  ['avg', (values) => {
+    const list = toArray(values);
+    return list.length === 0 ? 0 : list.reduce((total, value) => total + (Number(value) || 0), 0) / list.length;
+  }],
+
+  // Arrays and strings
+  ['length', (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0)],
+  ['includes', (value, item) => (Array.isArray(value) ? value.includes(item) : String(value ?? '').includes(String(item)))],
+  ['first', (values) => toArray(values)[0]],
+  ['last', (values) => toArray(values)[toArray(values).length - 1]],
+  ['join', (values, separator) => limitString(toArray(values).join(separator === undefined ? ',' : String(separator)))],
+  ['unique', (values) => Array.from(new Set(toArray(values)))],
+  ['sort', (values) => [...toArray(values)].sort((a, b) => (a > b ? 1 : a < b ? -1 : 0))],
+  ['reverse', (values) => [...toArray(values)].reverse()],
+  ['slice', (values, start, end) => toArray(values).slice(Number(start) || 0, end === undefined ? undefined : Number(end))],
+  ['pluck', (values, key) => toArray(values).map((item) => readProperty(item, String(key)))],
+  ['isEmpty', (value) => value === null || value === undefined || value === ''
+    || (Array.isArray(value) && value.length === 0)
+    || (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0)],
+
+  // Dates (ISO strings in, ISO strings out)
+  ['now', () => new Date().toISOString()],
+  ['today', (timeZone) => {
+    const parts = dateParts(new Date(), timeZone || 'UTC');
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }],
+  ['addDuration', (date, amount, unit = 'days') => {
+    const ms = DURATION_MS[unit];
+    if (!ms) throw new ExpressionError(`Unknown duration unit: ${unit}`);
+    return new Date(toDate(date).getTime() + Number(amount) * ms).toISOString();
+  }],
+  ['dateDiff', (from, to, unit = 'days') => {
+    const ms = DURATION_MS[unit];
+    if (!ms) throw new ExpressionError(`Unknown duration unit: ${unit}`);
+    return Math.floor((toDate(to).getTime() - toDate(from).getTime()) / ms);
+  }],
+  ['formatDate', (date, pattern = 'YYYY-MM-DD', timeZone = 'UTC') => {
+    const parts = dateParts(toDate(date), timeZone);
+    return String(pattern).replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => ({
+      YYYY: parts.year, MM: parts.month, DD: parts.day, HH: parts.hour, mm: parts.minute, ss: parts.second,
+    } as Record<string, string>)[token]);
+  }],
+
+  // Data
+  ['json', (value) => JSON.stringify(value ?? null)],
+  ['parseJson', (value) => {
+    try {
+      return JSON.parse(String(value));
+    } catch {
+      throw new ExpressionError('Invalid JSON');
+    }
+  }],
+  ['coalesce', (...values) => values.find((value) => value !== null && value !== undefined && value !== '')],
+]);
+
+export const expressionFunctions = Array.from(functions.keys());
+
+// ==========================================
+// Interpreter
+// ==========================================
+
+// Own data properties only: no prototype chain, no getters on class instances
+function readProperty(target: any, key: string | number): any {
+  if (target === null || target === undefined) return undefined;
+  if (FORBIDDEN_KEYS.has(String(key))) {
+    throw new ExpressionError(`Access to "${key}" is not allowed`);
+  }
+  if (typeof target === 'string') {
+    if (key === 'length') return target.length;
+    return Number.isInteger(Number(key)) ? target[Number(key)] : undefined;
+  }
+  if (Array.isArray(target)) {
+    if (key === 'length') return target.length;
+    return Number.isInteger(Number(key)) ? target[Number(key)] : undefined;
+  }
+  if (typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, key)) {
+    return target[key];
+  }
+  return undefined;
+}
+
+const looseEquals = (left: any, right: any): boolean => {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null);
+  }
+  if (typeof left === 'object' || typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return left === right || String(left) === String(right);
+};
+
+const evaluateNode = (node: ExpressionNode, scope: ExpressionScope): any => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      if (!(expressionScopes as readonly string[]).includes(node.name)) {
+        throw new ExpressionError(`Unknown name "${node.name}"`);
+      }
+      return (scope as Record<string, any>)[node.name];
+
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+    case 'array': {
+      if (node.items.length > MAX_ARRAY_LENGTH) {
+        throw new ExpressionError('Array literal is too long');
+      }
+      return node.items.map((item) => evaluateNode(item, scope));
+    }
+
+    case 'call': {
+      const fn = functions.get(node.name);
+      if (!fn) {
+        throw new ExpressionError(`Unknown function "${node.name}"`);
+      }
+      return fn(...node.args.map((arg) => evaluateNode(arg, scope)));
+    }
+
+    case 'unary': {
+      const value = evaluateNode(node.argument, scope);
+      if (node.operator === '!') return !value;
+      if (node.operator === '-') return -Number(value);
+      return Number(value);
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'binary': {
+      // Short-circuit operators evaluate the right side lazily
+      if (node.operator === '&&') {
+        const left = evaluateNode(node.left, scope);
+        return left ? evaluateNode(node.right, scope) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluateNode(node.left, scope);
+        return left ? left : evaluateNode(node.right, scope);
+      }
+      if (node.operator === '??') {
+        const left = evaluateNode(node.left, scope);
+        return left ?? evaluateNode(node.right, scope);
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.operator) {
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') {
+            return limitString(String(left ?? '') + String(right ?? ''));
+          }
+          return Number(left) + Number(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==':
+        case '===': return looseEquals(left, right);
+        case '!=':
+        case '!==': return !looseEquals(left, right);
+      }
+      throw new ExpressionError(`Unknown operator "${node.operator}"`);
+    }
+  }
+};
+
+export const evaluateExpression = (source: string, scope: ExpressionScope): any => {
+  return evaluateNode(parseExpression(source), scope);
+};
+
+// ==========================================
+// Templates
+// ==========================================
+
+const stringify = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// A string that is exactly one {{ expression }} keeps the value's type; otherwise segments are interpolated
+export const renderTemplate = (template: string, scope: ExpressionScope): any => {
+  const single = /^\{\{([\s\S]*?)\}\}$/.exec(template.trim());
+  if (single && !single[1].includes('{{')) {
+    return evaluateExpression(single[1].trim(), scope);
+  }
+
+  return limitString(template.replace(TEMPLATE_SEGMENT, (_, source: string) => stringify(evaluateExpression(source.trim(), scope))));
+};
+
+// Render every template string inside a JSON value
+export const resolveTemplates = (value: any, scope: ExpressionScope): any => {
+  if (typeof value === 'string') {
+    return value.includes('{{') ? renderTemplate(value, scope) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, scope)]));
+  }
+  return value;
+};
+
+export const hasTemplate = (value: any): boolean => JSON.stringify(value ?? null).includes('{{');
+
+// ==========================================
+// Static analysis (used by the flow validator)
+// ==========================================
+
+export interface TemplateAnalysis {
+  errors: string[];
+  references: string[][]; // Static member paths, e.g. ['vars', 'cart', 'total']
+}
+
+const collectReferences = (node: ExpressionNode, references: string[][], errors: string[]): void => {
+  const path = staticPath(node);
+  if (path) {
+    if (!(expressionScopes as readonly string[]).includes(path[0])) {
+      errors.push(`Unknown name "${path[0]}"`);
+    }
+    references.push(path);
+    return;
+  }
+
+  switch (node.kind) {
+    case 'member':
+      collectReferences(node.object, references, errors);
+      collectReferences(node.property, references, errors);
+      break;
+    case 'call':
+      if (!functions.has(node.name)) {
+        errors.push(`Unknown function "${node.name}"`);
+      }
+      node.args.forEach((arg) => collectReferences(arg, references, errors));
+      break;
+    case 'array':
+      node.items.forEach((item) => collectReferences(item, references, errors));
+      break;
+    case 'unary':
+      collectReferences(node.argument, references, errors);
+      break;
+    case 'binary':
+      collectReferences(node.left, references, errors);
+      collectReferences(node.right, references, errors);
+      break;
+    case 'conditional':
+      collectReferences(node.test, references, errors);
+      collectReferences(node.consequent, references, errors);
+      collectReferences(node.alternate, references, errors);
+      break;
+  }
+};
+
+// identifier(.name | ["literal"])* as a list of keys, or null when any part is dynamic
+const staticPath = (node: ExpressionNode): string[] | null => {
+  if (node.kind === 'identifier') return [node.name];
+  if (node.kind === 'member' && node.property.kind === 'literal') {
+    const base = staticPath(node.object);
+    return base ? [...base, String(node.property.value)] : null;
+  }
+  return null;
+};
+
+// Parse every {{ }} segment found in a JSON value without evaluating it
+export const analyzeTemplates = (value: any): TemplateAnalysis => {
+  const analysis: TemplateAnalysis = { errors: [], references: [] };
+
+  const visit = (item: any) => {
+    if (typeof item === 'string') {
+      for (const match of item.matchAll(TEMPLATE_SEGMENT)) {
+        try {
+          collectReferences(parseExpression(match[1].trim()), analysis.references, analysis.errors);
+        } catch (error: any) {
+          analysis.errors.push(`${error.message} in "{{${match[1]}}}"`);
+        }
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (item && typeof item === 'object') {
+      Object.values(item).forEach(visit);
+    }
+  };
+
+  visit(value);
+  return analysis;
+};
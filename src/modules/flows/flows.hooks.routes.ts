@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { flowsController } from './flows.controller.js';
+
+const router = Router();
+
+// Public: callers are authenticated by the flow token (and optional HMAC signature)
+
+// POST /v1/hooks/flows/:flowId/:token - Start a webhook flow
+router.post('/:flowId/:token', (req, res, next) => flowsController.receiveWebhook(req, res, next));
+
+export default router;
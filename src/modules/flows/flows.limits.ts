@@ -0,0 +1,193 @@
+import { PoolClient } from 'pg';
+import { AppError } from '../../shared/middleware/error.middleware.js';
+import { ExecuteFlowData, FlowLimits, ThrottleAction, ThrottleReason, flowLimitsSchema } from './flows.schema.js';
+import { ExpressionError, renderTemplate } from './flows.expressions.js';
+import { isReferenceId } from './flows.bundle.js';
+
+// Triggers subject to the flow limits; manual runs, retries and replays started by an operator are not
+export const LIMITED_TRIGGER_TYPES = ['webhook', 'schedule', 'event'];
+
+const DEDUPE_KEY_MAX_LENGTH = 500;
+
+export const mapThrottleReasonToPortuguese: Record<ThrottleReason, string> = {
+  concurrency: 'concorrencia',
+  rate: 'taxa',
+  duplicate: 'duplicado',
+  conversation_active: 'conversa_ativa',
+};
+
+export const mapThrottleActionToPortuguese: Record<ThrottleAction, string> = {
+  rejected: 'rejeitado',
+  queued: 'enfileirado',
+};
+
+// Claim filter for the worker queue (execucoes_fluxo e JOIN fluxos f): queued executions of a flow at its
+// maxConcurrent or maxPerMinute wait. Workers claiming at the same instant can overshoot by one each.
+export const WITHIN_FLOW_LIMITS = `(
+  e.trigger_type NOT IN (${LIMITED_TRIGGER_TYPES.map((type) => `'${type}'`).join(', ')})
+  OR (
+    (f.limites->>'maxConcurrent' IS NULL OR (
+      SELECT COUNT(*) FROM execucoes_fluxo r
+      WHERE r.fluxo_id = e.fluxo_id AND r.status = 'executando' AND r.modo <> 'debug'
+    ) < (f.limites->>'maxConcurrent')::int)
+    AND (f.limites->>'maxPerMinute' IS NULL OR (
+      SELECT COUNT(*) FROM execucoes_fluxo r
+      WHERE r.fluxo_id = e.fluxo_id AND r.status <> 'pendente' AND r.modo <> 'debug'
+        AND r.iniciado_em > CURRENT_TIMESTAMP - interval '1 minute'
+    ) < (f.limites->>'maxPerMinute')::int)
+  )
+)`;
+
+export interface AdmissionRequest {
+  tenantId: string;
+  flowId: string;
+  limits: FlowLimits;
+  data: ExecuteFlowData;
+  inline: boolean; // Runs right away (sync webhook), so it cannot wait in the queue
+}
+
+export interface Throttle {
+  reason: ThrottleReason;
+  action: ThrottleAction;
+  executionId: string | null; // Duplicate or active execution that caused a rejection
+}
+
+export interface Admission {
+  dedupeKey: string | null;
+  conversationId: string | null;
+  throttle: Throttle | null;
+}
+
+// Conversation of event triggers (domain events) and of webhook bodies that carry one
+const conversationOf = (triggerData: Record<string, any> | undefined): string | null => {
+  const candidate = triggerData?.data?.conversationId ?? triggerData?.conversationId ?? triggerData?.body?.conversationId;
+  return isReferenceId(candidate) ? candidate : null;
+};
+
+export class FlowLimiter {
+  // Stored limits with defaults applied; flows saved before limits existed hold {}
+  parse(stored: unknown): FlowLimits {
+    const parsed = flowLimitsSchema.safeParse(stored || {});
+    return parsed.success ? parsed.data : flowLimitsSchema.parse({});
+  }
+
+  applies(limits: FlowLimits, triggerType: string | undefined): boolean {
+    const configured = limits.maxConcurrent !== undefined || limits.maxPerMinute !== undefined
+      || limits.dedupeKey !== undefined || limits.singleRunPerConversation;
+    return configured && LIMITED_TRIGGER_TYPES.includes(triggerType || 'manual');
+  }
+
+  // Runs in the transaction that inserts the execution; the advisory lock makes concurrent
+  // triggers of the same flow see each other's executions
+  async admit(client: PoolClient, request: AdmissionRequest): Promise<Admission> {
+    const { flowId, limits } = request;
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [flowId]);
+
+    const dedupeKey = this.dedupeKey(limits, request.data);
+    const conversationId = limits.singleRunPerConversation ? conversationOf(request.data.triggerData) : null;
+    const admission = (throttle: Throttle | null): Admission => ({ dedupeKey, conversationId, throttle });
+
+    if (dedupeKey) {
+      const duplicate = await client.query(
+        `SELECT id FROM execucoes_fluxo
+         WHERE fluxo_id = $1 AND chave_dedupe = $2 AND created_at > CURRENT_TIMESTAMP - ($3 || ' seconds')::interval
+         ORDER BY created_at DESC LIMIT 1`,
+        [flowId, dedupeKey, limits.dedupeWindowSeconds]
+      );
+      if (duplicate.rows[0]) {
+        return admission({ reason: 'duplicate', action: 'rejected', executionId: duplicate.rows[0].id });
+      }
+    }
+
+    if (conversationId) {
+      const active = await client.query(
+        `SELECT id FROM execucoes_fluxo
+         WHERE fluxo_id = $1 AND conversa_id = $2 AND status IN ('pendente', 'executando', 'aguardando')
+         LIMIT 1`,
+        [flowId, conversationId]
+      );
+      if (active.rows[0]) {
+        return admission({ reason: 'conversation_active', action: 'rejected', executionId: active.rows[0].id });
+      }
+    }
+
+    if (limits.maxConcurrent === undefined && limits.maxPerMinute === undefined) {
+      return admission(null);
+    }
+
+    const load = await client.query(
+      `SELECT
+        COUNT(*) FILTER (WHERE status IN ('pendente', 'executando')) AS active,
+        COUNT(*) FILTER (WHERE created_at > CURRENT_TIMESTAMP - interval '1 minute') AS last_minute
+       FROM execucoes_fluxo
+       WHERE fluxo_id = $1 AND modo <> 'debug'
+         AND (status IN ('pendente', 'executando') OR created_at > CURRENT_TIMESTAMP - interval '1 minute')`,
+      [flowId]
+    );
+
+    const reason: ThrottleReason | null =
+      limits.maxConcurrent !== undefined && parseInt(load.rows[0].active) >= limits.maxConcurrent ? 'concurrency'
+        : limits.maxPerMinute !== undefined && parseInt(load.rows[0].last_minute) >= limits.maxPerMinute ? 'rate'
+          : null;
+
+    if (!reason) {
+      return admission(null);
+    }
+
+    const action: ThrottleAction = limits.overflow === 'queue' && !request.inline ? 'queued' : 'rejected';
+    return admission({ reason, action, executionId: null });
+  }
+
+  // Keep the throttled trigger for operators (queued ones point at the execution that will run)
+  async record(client: PoolClient, request: AdmissionRequest, admission: Admission, executionId: string | null): Promise<void> {
+    const throttle = admission.throttle!;
+
+    await client.query(
+      `INSERT INTO gatilhos_limitados (
+        tenant_id, fluxo_id, motivo, acao, trigger_type, trigger_data, chave_dedupe, conversa_id, execucao_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        request.tenantId,
+        request.flowId,
+        mapThrottleReasonToPortuguese[throttle.reason],
+        mapThrottleActionToPortuguese[throttle.action],
+        request.data.triggerType || 'manual',
+        JSON.stringify(request.data.triggerData || {}),
+        admission.dedupeKey,
+        admission.conversationId,
+        executionId,
+      ]
+    );
+  }
+
+  // Error for a rejected trigger: 409 for duplicates and busy conversations, 429 above the load limits
+  rejection(throttle: Throttle): AppError {
+    const busy = throttle.reason === 'duplicate' || throttle.reason === 'conversation_active';
+    const message = throttle.reason === 'duplicate' ? 'Duplicate trigger skipped'
+      : throttle.reason === 'conversation_active' ? 'Flow already running for this conversation'
+        : `Flow ${throttle.reason === 'rate' ? 'rate' : 'concurrency'} limit reached`;
+
+    return new AppError(message, busy ? 409 : 429, 'FLOW_THROTTLED', {
+      reason: throttle.reason,
+      executionId: throttle.executionId,
+    });
+  }
+
+  // A key that fails to render disables deduplication for this trigger rather than dropping it
+  private dedupeKey(limits: FlowLimits, data: ExecuteFlowData): string | null {
+    if (!limits.dedupeKey) return null;
+
+    try {
+      const value = renderTemplate(limits.dedupeKey, { trigger: data.triggerData || {}, input: data.inputData || {} });
+      if (value === null || value === undefined || value === '') return null;
+
+      const key = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return key.slice(0, DEDUPE_KEY_MAX_LENGTH);
+    } catch (error) {
+      if (error instanceof ExpressionError) return null;
+      throw error;
+    }
+  }
+}
+
+export const flowLimiter = new FlowLimiter();
@@ -0,0 +1,215 @@
+import axios, { AxiosInstance } from 'axios';
+import { env } from '../../config/env.js';
+import { AppError } from '../../shared/middleware/error.middleware.js';
+import { assertPublicUrl, outboundRequestOptions } from '../../shared/utils/outbound.utils.js';
+import { FlowNode } from './flows.schema.js';
+
+const WEBHOOK_NODE_TYPE = 'n8n-nodes-base.webhook';
+
+// Node types a tenant may send in its own workflow. The n8n instance is shared by every tenant,
+// so nodes that run code, reach the host or network, or call other workflows are left out
+const ALLOWED_NODE_TYPES = new Set([
+  WEBHOOK_NODE_TYPE,
+  'n8n-nodes-base.respondToWebhook',
+  'n8n-nodes-base.set',
+  'n8n-nodes-base.if',
+  'n8n-nodes-base.switch',
+  'n8n-nodes-base.filter',
+  'n8n-nodes-base.merge',
+  'n8n-nodes-base.noOp',
+  'n8n-nodes-base.splitOut',
+  'n8n-nodes-base.aggregate',
+  'n8n-nodes-base.sort',
+  'n8n-nodes-base.limit',
+  'n8n-nodes-base.removeDuplicates',
+  'n8n-nodes-base.dateTime',
+  'n8n-nodes-base.wait',
+  'n8n-nodes-base.stopAndError',
+]);
+
+// Workflow settings kept from a tenant workflow; errorWorkflow and callerPolicy point at other workflows
+const ALLOWED_SETTINGS = ['executionOrder', 'timezone'];
+
+// Workflow body accepted by POST/PUT /api/v1/workflows
+export interface N8nWorkflowDefinition {
+  name: string;
+  nodes: Record<string, any>[];
+  connections: Record<string, any>;
+  settings?: Record<string, any>;
+}
+
+export interface N8nWorkflow extends N8nWorkflowDefinition {
+  id: string;
+  active: boolean;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Default workflow of a flow: a webhook that answers with the output of the last node
+export const defaultWorkflow = (flow: { id: string; name: string }): N8nWorkflowDefinition => ({
+  name: `OmniBot - ${flow.name}`,
+  nodes: [
+    {
+      name: 'OmniBot',
+      type: WEBHOOK_NODE_TYPE,
+      typeVersion: 1,
+      position: [250, 300],
+      webhookId: flow.id,
+      parameters: {
+        httpMethod: 'POST',
+        path: 'omnibot',
+        responseMode: 'lastNode',
+      },
+    },
+  ],
+  connections: {},
+  settings: { executionOrder: 'v1' },
+});
+
+// Node names mapped to the reason they cannot be sent to the shared n8n instance
+export const checkWorkflowNodes = (workflow: N8nWorkflowDefinition): Record<string, string> => {
+  const problems: Record<string, string> = {};
+  workflow.nodes.forEach((node, index) => {
+    const name = typeof node.name === 'string' && node.name ? node.name : `#${index}`;
+    if (!ALLOWED_NODE_TYPES.has(node.type)) {
+      problems[name] = `node type ${node.type} is not allowed`;
+    } else if (node.credentials !== undefined) {
+      problems[name] = 'n8n credentials are not allowed';
+    }
+  });
+  return problems;
+};
+
+// Webhook paths live under "<tenant id>/<flow id>/" so tenants cannot take over each other's paths
+export const scopeWorkflow = (
+  workflow: N8nWorkflowDefinition,
+  scope: { tenantId: string; flowId: string }
+): N8nWorkflowDefinition => {
+  const prefix = `${scope.tenantId}/${scope.flowId}`;
+  const settings = workflow.settings || { executionOrder: 'v1' };
+
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map((node) => {
+      const path = typeof node.parameters?.path === 'string' ? node.parameters.path.replace(/^\/+/, '') : '';
+      if (node.type !== WEBHOOK_NODE_TYPE || !path || path.startsWith(`${prefix}/`)) {
+        return node;
+      }
+      return { ...node, parameters: { ...node.parameters, path: `${prefix}/${path}` } };
+    }),
+    settings: Object.fromEntries(Object.entries(settings).filter(([key]) => ALLOWED_SETTINGS.includes(key))),
+  };
+};
+
+// Path of the webhook node that starts the workflow, if it has one
+export const findWebhookPath = (workflow: N8nWorkflowDefinition): string | null => {
+  const node = workflow.nodes.find((item) => item.type === WEBHOOK_NODE_TYPE && !item.disabled);
+  return node?.parameters?.path || null;
+};
+
+// Graph run for flows in n8n mode: a single node calling the workflow webhook
+export const delegatedGraph = (flow: { n8n_webhook_url: string | null }): FlowNode[] => [
+  {
+    id: 'n8n',
+    type: 'n8n_workflow',
+    position: { x: 0, y: 0 },
+    data: flow.n8n_webhook_url ? { webhookUrl: flow.n8n_webhook_url } : {},
+  },
+];
+
+// Thin client for the n8n public REST API (authenticated with X-N8N-API-KEY)
+export class N8nClient {
+  private http: AxiosInstance | null = null;
+
+  isConfigured(): boolean {
+    return !!env.N8N_BASE_URL;
+  }
+
+  webhookUrl(path: string): string {
+    return `${trimSlash(this.baseUrl())}/webhook/${path.replace(/^\/+/, '')}`;
+  }
+
+  async createWorkflow(definition: N8nWorkflowDefinition): Promise<N8nWorkflow> {
+    return this.request('post', '/workflows', definition);
+  }
+
+  async updateWorkflow(workflowId: string, definition: N8nWorkflowDefinition): Promise<N8nWorkflow> {
+    return this.request('put', `/workflows/${workflowId}`, definition);
+  }
+
+  // Returns null when the workflow was deleted in n8n
+  async getWorkflow(workflowId: string): Promise<N8nWorkflow | null> {
+    try {
+      return await this.request('get', `/workflows/${workflowId}`);
+    } catch (error) {
+      if (error instanceof AppError && error.details?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async activateWorkflow(workflowId: string): Promise<N8nWorkflow> {
+    return this.request('post', `/workflows/${workflowId}/activate`);
+  }
+
+  async deactivateWorkflow(workflowId: string): Promise<N8nWorkflow> {
+    return this.request('post', `/workflows/${workflowId}/deactivate`);
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    await this.request('delete', `/workflows/${workflowId}`);
+  }
+
+  // Production webhook call; non-2xx answers throw so the node can retry or fail.
+  // URLs outside N8N_BASE_URL come from flow config and go through the destination guard
+  async callWebhook(url: string, payload: any, timeoutMs: number = env.N8N_TIMEOUT_MS) {
+    const external = !this.isOwnUrl(url);
+    if (external) {
+      assertPublicUrl(url);
+    }
+
+    const response = await axios.post(url, payload, { timeout: timeoutMs, ...(external ? outboundRequestOptions : {}) });
+    return { status: response.status, data: response.data };
+  }
+
+  isOwnUrl(url: string): boolean {
+    if (!env.N8N_BASE_URL) return false;
+    try {
+      return new URL(url).origin === new URL(env.N8N_BASE_URL).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  private baseUrl(): string {
+    if (!env.N8N_BASE_URL) {
+      throw new AppError('n8n is not configured', 503, 'N8N_NOT_CONFIGURED');
+    }
+    return env.N8N_BASE_URL;
+  }
+
+  private client(): AxiosInstance {
+    if (!this.http) {
+      this.http = axios.create({
+        baseURL: `${trimSlash(this.baseUrl())}/api/v1`,
+        timeout: env.N8N_TIMEOUT_MS,
+        headers: env.N8N_API_KEY ? { 'X-N8N-API-KEY': env.N8N_API_KEY } : {},
+      });
+    }
+    return this.http;
+  }
+
+  private async request(method: 'get' | 'post' | 'put' | 'delete', path: string, body?: any) {
+    try {
+      const response = await this.client().request({ method, url: path, data: body });
+      return response.data;
+    } catch (error: any) {
+      const status = error.response?.status;
+      const message = error.response?.data?.message || error.message;
+      throw new AppError(`n8n request failed: ${message}`, 502, 'N8N_ERROR', { status, path });
+    }
+  }
+}
+
+export const n8nClient = new N8nClient();
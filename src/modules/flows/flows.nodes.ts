@@ -0,0 +1,560 @@
+import { z } from 'zod';
+import axios from 'axios';
+import { FlowNode } from './flows.schema.js';
+import { messageTypes } from '../messages/messages.schema.js';
+import { messagesService } from '../messages/messages.service.js';
+import { conversationsService } from '../conversations/conversations.service.js';
+import { zodToJsonSchema } from '../../shared/utils/schema.utils.js';
+import { n8nClient } from './flows.n8n.js';
+import { credentialsService } from '../credentials/credentials.service.js';
+import { assertPublicUrl, outboundRequestOptions } from '../../shared/utils/outbound.utils.js';
+
+// Runtime state shared by every node of a single execution
+export interface ExecutionContext {
+  tenantId: string;
+  flowId: string;
+  executionId: string;
+  trigger: Record<string, any>;
+  input: Record<string, any>;
+  vars: Record<string, any>;
+  nodes: Record<string, any>; // Node outputs keyed by node id
+  output?: any;
+}
+
+// Asks the engine to persist the execution and stop until a reply arrives or the timer fires
+export interface NodeSuspension {
+  kind: 'reply' | 'timer';
+  until?: string; // ISO date; the timeout of a reply wait
+  conversationId?: string; // Conversation whose next inbound message resumes the execution
+}
+
+export interface NodeResult {
+  output?: any;
+  handle?: string; // sourceHandle to follow; undefined follows every outgoing edge
+  suspend?: NodeSuspension;
+}
+
+// Why a suspended node is being resumed
+export type ResumePayload =
+  | { reason: 'timeout' }
+  | { reason: 'reply'; message: any };
+
+export interface NodePort {
+  id: string;
+  label: string;
+  required?: boolean;
+}
+
+export type NodeCategory = 'trigger' | 'logic' | 'conversation' | 'integration' | 'data';
+
+// Tenant-specific records a config field can point at (rebound when a flow moves between tenants)
+export type NodeReferenceKind = 'agent' | 'channel' | 'conversation';
+
+export interface NodeTypeDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  type: string;
+  label: string;
+  description: string;
+  category: NodeCategory;
+  configSchema: S;
+  inputs: NodePort[];
+  outputs: NodePort[];
+  pauses?: boolean; // Holds the execution for a while, which makes loops through it safe
+  defines?: (config: z.infer<S>) => string[]; // Variable names this node writes
+  references?: Record<string, NodeReferenceKind>; // Config fields holding ids of tenant records
+  credentials?: string[]; // Config fields holding names of stored credentials
+  execute: (config: z.infer<S>, node: FlowNode, ctx: ExecutionContext) => Promise<NodeResult>;
+  resume?: (config: z.infer<S>, node: FlowNode, ctx: ExecutionContext, payload: ResumePayload) => Promise<NodeResult>;
+}
+
+export class NodeExecutionError extends Error {
+  public readonly nodeId: string;
+
+  constructor(nodeId: string, message: string) {
+    super(message);
+    this.nodeId = nodeId;
+  }
+}
+
+// Resolve a dot path such as "trigger.from.name" against the context
+export const resolvePath = (source: any, path: string): any => {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), source);
+};
+
+// Config problems of a node; values that are {{ }} templates are only checked once rendered at runtime
+export const checkNodeConfig = (definition: NodeTypeDefinition, data: Record<string, any> | undefined): z.ZodIssue[] => {
+  const parsed = definition.configSchema.safeParse(data ?? {});
+  if (parsed.success) {
+    return [];
+  }
+
+  return parsed.error.issues.filter((issue) => {
+    const value = issue.path.reduce<any>((current, key) => (current == null ? undefined : current[key]), data);
+    return !(typeof value === 'string' && value.includes('{{'));
+  });
+};
+
+class NodeTypeRegistry {
+  private readonly types = new Map<string, NodeTypeDefinition>();
+
+  register<S extends z.ZodTypeAny>(definition: NodeTypeDefinition<S>): void {
+    if (this.types.has(definition.type)) {
+      throw new Error(`Node type already registered: ${definition.type}`);
+    }
+    this.types.set(definition.type, definition as unknown as NodeTypeDefinition);
+  }
+
+  get(type: string): NodeTypeDefinition | undefined {
+    return this.types.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.types.has(type);
+  }
+
+  list(): NodeTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  // Serializable catalog for the flow editor palette
+  catalog() {
+    return this.list().map((definition) => ({
+      type: definition.type,
+      label: definition.label,
+      description: definition.description,
+      category: definition.category,
+      inputs: definition.inputs,
+      outputs: definition.outputs,
+      configSchema: zodToJsonSchema(definition.configSchema),
+    }));
+  }
+}
+
+export const nodeTypeRegistry = new NodeTypeRegistry();
+
+// ==========================================
+// Built-in node types
+// ==========================================
+
+const IN: NodePort[] = [{ id: 'in', label: 'Input', required: true }];
+const OUT: NodePort[] = [{ id: 'out', label: 'Output' }];
+
+const conversationIdField = z.string().uuid().optional()
+  .describe('Defaults to the conversation that triggered the flow');
+
+const resolveConversationId = (node: FlowNode, ctx: ExecutionContext, configured?: string): string => {
+  const conversationId = configured
+    || ctx.trigger.conversationId
+    || ctx.trigger.data?.conversationId
+    || ctx.input.conversationId;
+  if (!conversationId) {
+    throw new NodeExecutionError(node.id, 'No conversation available for this node');
+  }
+  return conversationId;
+};
+
+const compare = (left: any, operator: string, right: any): boolean => {
+  switch (operator) {
+    case 'equals':
+      return String(left) === String(right);
+    case 'not_equals':
+      return String(left) !== String(right);
+    case 'contains':
+      return left != null && String(left).toLowerCase().includes(String(right).toLowerCase());
+    case 'not_contains':
+      return left == null || !String(left).toLowerCase().includes(String(right).toLowerCase());
+    case 'greater_than':
+      return Number(left) > Number(right);
+    case 'less_than':
+      return Number(left) < Number(right);
+    case 'exists':
+      return left !== undefined && left !== null && left !== '';
+    case 'not_exists':
+      return left === undefined || left === null || left === '';
+    default:
+      throw new Error(`Unknown condition operator: ${operator}`);
+  }
+};
+
+const conditionOperators = [
+  'equals', 'not_equals', 'contains', 'not_contains', 'greater_than', 'less_than', 'exists', 'not_exists',
+] as const;
+
+const delayUnits: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60000,
+  hours: 3600000,
+  days: 86400000,
+};
+
+const durationUnit = z.enum(['seconds', 'minutes', 'hours', 'days']);
+
+const resumeAt = (amount: number, unit: string) => new Date(Date.now() + amount * delayUnits[unit]).toISOString();
+
+nodeTypeRegistry.register({
+  type: 'trigger',
+  label: 'Trigger',
+  description: 'Entry point that exposes the trigger data',
+  category: 'trigger',
+  configSchema: z.object({}),
+  inputs: [],
+  outputs: OUT,
+  execute: async (config, node, ctx) => ({ output: ctx.trigger }),
+});
+
+nodeTypeRegistry.register({
+  type: 'start',
+  label: 'Start',
+  description: 'Entry point that exposes the execution input',
+  category: 'trigger',
+  configSchema: z.object({}),
+  inputs: [],
+  outputs: OUT,
+  execute: async (config, node, ctx) => ({ output: ctx.input }),
+});
+
+nodeTypeRegistry.register({
+  type: 'end',
+  label: 'End',
+  description: 'Finishes the execution and sets its output',
+  category: 'logic',
+  configSchema: z.object({
+    output: z.any().describe('Execution output; defaults to the flow variables'),
+  }),
+  inputs: IN,
+  outputs: [],
+  execute: async (config, node, ctx) => {
+    ctx.output = config.output ?? ctx.vars;
+    return { output: ctx.output };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'condition',
+  label: 'Condition',
+  description: 'Branches on a comparison against the execution context',
+  category: 'logic',
+  configSchema: z.object({
+    field: z.string().min(1).describe('Context path, e.g. trigger.message.content'),
+    operator: z.enum(conditionOperators).default('equals'),
+    value: z.any(),
+  }),
+  inputs: IN,
+  outputs: [
+    { id: 'true', label: 'True' },
+    { id: 'false', label: 'False' },
+  ],
+  execute: async (config, node, ctx) => {
+    const result = compare(resolvePath(ctx, config.field), config.operator, config.value);
+    return { output: { result }, handle: result ? 'true' : 'false' };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'set_variable',
+  label: 'Set variable',
+  description: 'Stores a value in the execution variables',
+  category: 'data',
+  configSchema: z.object({
+    name: z.string().min(1),
+    value: z.any(),
+  }),
+  inputs: IN,
+  outputs: OUT,
+  defines: (config) => [config.name],
+  execute: async (config, node, ctx) => {
+    ctx.vars[config.name] = config.value;
+    return { output: { [config.name]: config.value } };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'delay',
+  label: 'Delay',
+  description: 'Waits before continuing',
+  category: 'logic',
+  configSchema: z.object({
+    amount: z.number().positive(),
+    unit: durationUnit.default('seconds'),
+  }),
+  inputs: IN,
+  outputs: OUT,
+  pauses: true,
+  execute: async (config) => {
+    const until = resumeAt(config.amount, config.unit);
+    return { output: { until }, suspend: { kind: 'timer', until } };
+  },
+  resume: async (config) => ({ output: { waited: config.amount * delayUnits[config.unit] } }),
+});
+
+nodeTypeRegistry.register({
+  type: 'wait_for_reply',
+  label: 'Wait for reply',
+  description: 'Optionally asks a question, then waits for the next customer message',
+  category: 'conversation',
+  configSchema: z.object({
+    prompt: z.string().optional().describe('Message sent before waiting'),
+    timeout: z.number().positive().default(24),
+    timeoutUnit: durationUnit.default('hours'),
+    saveAs: z.string().regex(/^[A-Za-z_$][\w$]*$/).optional().describe('Variable that receives the reply text'),
+    conversationId: conversationIdField,
+  }),
+  inputs: IN,
+  outputs: [
+    { id: 'reply', label: 'Reply' },
+    { id: 'timeout', label: 'Timeout' },
+  ],
+  pauses: true,
+  defines: (config) => (config.saveAs ? [config.saveAs] : []),
+  references: { conversationId: 'conversation' },
+  execute: async (config, node, ctx) => {
+    const conversationId = resolveConversationId(node, ctx, config.conversationId);
+
+    if (config.prompt) {
+      const message = await messagesService.createByTenantId(ctx.tenantId, conversationId, {
+        senderType: 'bot',
+        content: config.prompt,
+        type: 'text',
+        metadata: { flowId: ctx.flowId, executionId: ctx.executionId, nodeId: node.id },
+      });
+
+      if (!message) {
+        throw new NodeExecutionError(node.id, 'Failed to send prompt');
+      }
+    }
+
+    const until = resumeAt(config.timeout, config.timeoutUnit);
+    return { output: { conversationId, until }, suspend: { kind: 'reply', until, conversationId } };
+  },
+  resume: async (config, node, ctx, payload) => {
+    if (payload.reason === 'timeout') {
+      return { output: { timedOut: true }, handle: 'timeout' };
+    }
+
+    if (config.saveAs) {
+      ctx.vars[config.saveAs] = payload.message?.content ?? null;
+    }
+    return { output: { message: payload.message }, handle: 'reply' };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'send_message',
+  label: 'Send message',
+  description: 'Sends a bot message to the conversation',
+  category: 'conversation',
+  configSchema: z.object({
+    content: z.string().min(1),
+    messageType: z.enum(messageTypes).default('text'),
+    conversationId: conversationIdField,
+  }),
+  inputs: IN,
+  outputs: OUT,
+  references: { conversationId: 'conversation' },
+  execute: async (config, node, ctx) => {
+    const conversationId = resolveConversationId(node, ctx, config.conversationId);
+    const message = await messagesService.createByTenantId(ctx.tenantId, conversationId, {
+      senderType: 'bot',
+      content: config.content,
+      type: config.messageType,
+      metadata: { flowId: ctx.flowId, executionId: ctx.executionId, nodeId: node.id },
+    });
+
+    if (!message) {
+      throw new NodeExecutionError(node.id, 'Failed to send message');
+    }
+
+    return { output: { messageId: message.id, conversationId } };
+  },
+});
+
+// Success status rule: a code (404), a class (2xx) or an inclusive range (200-299)
+const statusRuleSchema = z.union([
+  z.number().int().min(100).max(599),
+  z.string().regex(/^([1-5]xx|\d{3}(-\d{3})?)$/, 'Use a code (404), a class (2xx) or a range (200-299)'),
+]);
+
+const matchesStatus = (status: number, rules: Array<number | string>): boolean => rules.some((rule) => {
+  if (typeof rule === 'number') return status === rule;
+  if (rule.endsWith('xx')) return Math.floor(status / 100) === Number(rule[0]);
+
+  const [from, to = from] = rule.split('-').map(Number);
+  return status >= from && status <= to;
+});
+
+const encodeBody = (body: any, bodyType: 'json' | 'form' | 'text') => {
+  if (body === undefined || body === null) return { data: undefined, contentType: undefined };
+
+  switch (bodyType) {
+    case 'form': {
+      const entries = Object.entries(typeof body === 'object' ? body : {})
+        .map(([key, value]): [string, string] => [key, typeof value === 'object' ? JSON.stringify(value) : String(value)]);
+      return { data: new URLSearchParams(entries).toString(), contentType: 'application/x-www-form-urlencoded' };
+    }
+    case 'text':
+      return { data: typeof body === 'string' ? body : JSON.stringify(body), contentType: 'text/plain' };
+    default:
+      return { data: JSON.stringify(body), contentType: 'application/json' };
+  }
+};
+
+const parseResponse = (node: FlowNode, raw: string, contentType: string, responseType: 'auto' | 'json' | 'text') => {
+  if (responseType === 'text' || raw === '') return raw === '' ? null : raw;
+
+  const looksJson = contentType.includes('json') || /^\s*[[{]/.test(raw);
+  if (responseType === 'auto' && !looksJson) return raw;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    if (responseType === 'json') {
+      throw new NodeExecutionError(node.id, 'Response is not valid JSON');
+    }
+    return raw;
+  }
+};
+
+nodeTypeRegistry.register({
+  type: 'http_request',
+  label: 'HTTP request',
+  description: 'Calls an external HTTP endpoint, optionally authenticated with a stored credential (redirects are not followed)',
+  category: 'integration',
+  configSchema: z.object({
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']).default('GET'),
+    url: z.string().url(),
+    credential: z.string().min(1).optional().describe('Name of a stored credential (API key, bearer, basic or OAuth2)'),
+    headers: z.record(z.string()).optional(),
+    query: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    body: z.any(),
+    bodyType: z.enum(['json', 'form', 'text']).default('json'),
+    timeoutMs: z.number().int().positive().max(60000).default(10000),
+    responseType: z.enum(['auto', 'json', 'text']).default('auto'),
+    successStatus: z.array(statusRuleSchema).min(1).default(['2xx']),
+    failOnStatus: z.boolean().default(true)
+      .describe('Fail the node (and retry) on other statuses; when false the output has ok: false'),
+  }),
+  inputs: IN,
+  outputs: OUT,
+  credentials: ['credential'],
+  execute: async (config, node, ctx) => {
+    // Private addresses are refused before any credential is read; a 3xx comes back as the response
+    assertPublicUrl(config.url);
+
+    // Secrets are added here, so they never reach the node config, the trace or exported flows
+    const auth = config.credential
+      ? await credentialsService.requestAuth(ctx.tenantId, config.credential, config.url)
+      : { headers: {}, params: {} };
+    const { data, contentType } = encodeBody(config.body, config.bodyType);
+
+    const headers: Record<string, string> = { ...(contentType ? { 'Content-Type': contentType } : {}), ...config.headers, ...auth.headers };
+    const startedAt = Date.now();
+
+    const response = await axios.request<string>({
+      ...outboundRequestOptions,
+      method: config.method,
+      url: config.url,
+      headers,
+      params: { ...config.query, ...auth.params },
+      data,
+      timeout: config.timeoutMs,
+      responseType: 'text',
+      transformResponse: [(raw) => raw],
+      validateStatus: () => true,
+    });
+
+    const ok = matchesStatus(response.status, config.successStatus);
+    if (!ok && config.failOnStatus) {
+      throw new NodeExecutionError(node.id, `Request failed with status ${response.status}`);
+    }
+
+    return {
+      output: {
+        ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        data: parseResponse(node, response.data ?? '', String(response.headers['content-type'] || ''), config.responseType),
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'n8n_workflow',
+  label: 'n8n workflow',
+  description: 'Runs an n8n workflow through its webhook and returns the response',
+  category: 'integration',
+  configSchema: z.object({
+    webhookUrl: z.string().url().optional().describe('Full webhook URL of the workflow'),
+    webhookPath: z.string().min(1).optional().describe('Webhook path on N8N_BASE_URL'),
+    payload: z.any().describe('Request body; defaults to the trigger, input and variables'),
+    timeoutMs: z.number().int().positive().max(300000).optional(),
+  }),
+  inputs: IN,
+  outputs: OUT,
+  execute: async (config, node, ctx) => {
+    const url = config.webhookUrl || (config.webhookPath ? n8nClient.webhookUrl(config.webhookPath) : null);
+    if (!url) {
+      throw new NodeExecutionError(node.id, 'No n8n webhook configured (sync the flow or set webhookUrl)');
+    }
+
+    const payload = config.payload ?? {
+      flowId: ctx.flowId,
+      executionId: ctx.executionId,
+      trigger: ctx.trigger,
+      input: ctx.input,
+      vars: ctx.vars,
+    };
+    const response = await n8nClient.callWebhook(url, payload, config.timeoutMs);
+
+    return { output: response.data ?? {} };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'assign_agent',
+  label: 'Assign agent',
+  description: 'Assigns an agent to the conversation',
+  category: 'conversation',
+  configSchema: z.object({
+    agentId: z.string().uuid(),
+    conversationId: conversationIdField,
+  }),
+  inputs: IN,
+  outputs: OUT,
+  references: { agentId: 'agent', conversationId: 'conversation' },
+  execute: async (config, node, ctx) => {
+    const conversationId = resolveConversationId(node, ctx, config.conversationId);
+    const conversation = await conversationsService.assignAgentByTenantId(ctx.tenantId, conversationId, config.agentId);
+
+    if (!conversation) {
+      throw new NodeExecutionError(node.id, 'Conversation not found');
+    }
+
+    return { output: { conversationId, agentId: config.agentId } };
+  },
+});
+
+nodeTypeRegistry.register({
+  type: 'close_conversation',
+  label: 'Close conversation',
+  description: 'Marks the conversation as resolved or closed',
+  category: 'conversation',
+  configSchema: z.object({
+    status: z.enum(['resolved', 'closed']).default('closed'),
+    conversationId: conversationIdField,
+  }),
+  inputs: IN,
+  outputs: OUT,
+  references: { conversationId: 'conversation' },
+  execute: async (config, node, ctx) => {
+    const conversationId = resolveConversationId(node, ctx, config.conversationId);
+    const conversation = await conversationsService.updateStatusByTenantId(ctx.tenantId, conversationId, config.status);
+
+    if (!conversation) {
+      throw new NodeExecutionError(node.id, 'Conversation not found');
+    }
+
+    return { output: { conversationId, status: config.status } };
+  },
+});
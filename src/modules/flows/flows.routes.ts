@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { flowsController } from './flows.controller.js';
-import { authenticate } from '../../shared/middleware/auth.middleware.js';
+import { authenticate, authorize, authorizePlatformAdmin } from '../../shared/middleware/auth.middleware.js';
 
 const router = Router();
 
@@ -15,9 +15,27 @@ router.get('/stats', (req, res, next) => flowsController.getStats(req, res, next
 // GET /v1/flows/templates - Get templates
 router.get('/templates', (req, res, next) => flowsController.getTemplates(req, res, next));
 
+// GET /v1/flows/templates/:templateId - Get template with its parameters
+router.get('/templates/:templateId', (req, res, next) => flowsController.getTemplate(req, res, next));
+
+// POST /v1/flows/templates/:templateId/publish - Publish template to all tenants (platform admins)
+router.post('/templates/:templateId/publish', authorizePlatformAdmin, (req, res, next) => flowsController.publishTemplate(req, res, next));
+
+// POST /v1/flows/templates/:templateId/unpublish - Make template private again (owner tenant or platform admins)
+router.post('/templates/:templateId/unpublish', authorize('admin'), (req, res, next) => flowsController.unpublishTemplate(req, res, next));
+
+// GET /v1/flows/node-types - Get node type catalog
+router.get('/node-types', (req, res, next) => flowsController.getNodeTypes(req, res, next));
+
+// POST /v1/flows/expressions/evaluate - Expression playground
+router.post('/expressions/evaluate', (req, res, next) => flowsController.evaluateExpression(req, res, next));
+
 // POST /v1/flows/from-template - Create from template
 router.post('/from-template', (req, res, next) => flowsController.createFromTemplate(req, res, next));
 
+// POST /v1/flows/import - Import flow bundle
+router.post('/import', (req, res, next) => flowsController.importFlow(req, res, next));
+
 // GET /v1/flows/:id - Get flow by ID
 router.get('/:id', (req, res, next) => flowsController.getById(req, res, next));
 
@@ -36,13 +54,64 @@ router.post('/:id/activate', (req, res, next) => flowsController.activate(req, r
 // POST /v1/flows/:id/deactivate - Deactivate flow
 router.post('/:id/deactivate', (req, res, next) => flowsController.deactivate(req, res, next));
 
-// POST /v1/flows/:id/execute - Execute flow manually
+// POST /v1/flows/:id/validate - Validate flow graph (dry run)
+router.post('/:id/validate', (req, res, next) => flowsController.validate(req, res, next));
+
+// POST /v1/flows/:id/webhook - Generate or rotate webhook URL
+router.post('/:id/webhook', (req, res, next) => flowsController.generateWebhook(req, res, next));
+
+// POST /v1/flows/:id/n8n/sync - Sync flow with its n8n workflow (admins; the n8n instance is shared)
+router.post('/:id/n8n/sync', authorize('admin'), (req, res, next) => flowsController.syncN8n(req, res, next));
+
+// POST /v1/flows/:id/execute - Queue flow execution
 router.post('/:id/execute', (req, res, next) => flowsController.execute(req, res, next));
 
+// GET /v1/flows/:id/export - Export flow bundle
+router.get('/:id/export', (req, res, next) => flowsController.exportFlow(req, res, next));
+
+// POST /v1/flows/:id/save-as-template - Save flow as a private template
+router.post('/:id/save-as-template', (req, res, next) => flowsController.saveAsTemplate(req, res, next));
+
 // POST /v1/flows/:id/duplicate - Duplicate flow
 router.post('/:id/duplicate', (req, res, next) => flowsController.duplicate(req, res, next));
 
+// GET /v1/flows/:id/analytics - Execution analytics
+router.get('/:id/analytics', (req, res, next) => flowsController.getAnalytics(req, res, next));
+
+// GET /v1/flows/:id/throttled - Triggers rejected or queued by the flow limits
+router.get('/:id/throttled', (req, res, next) => flowsController.getThrottled(req, res, next));
+
 // GET /v1/flows/:id/executions - Get flow executions
 router.get('/:id/executions', (req, res, next) => flowsController.getExecutions(req, res, next));
 
+// POST /v1/flows/:id/debug - Start a debug run
+router.post('/:id/debug', (req, res, next) => flowsController.debug(req, res, next));
+
+// GET /v1/flows/:id/executions/:execId/trace - Execution trace
+router.get('/:id/executions/:execId/trace', (req, res, next) => flowsController.getTrace(req, res, next));
+
+// POST /v1/flows/:id/executions/:execId/debug - Debug run command (step, continue, stop)
+router.post('/:id/executions/:execId/debug', (req, res, next) => flowsController.debugCommand(req, res, next));
+
+// POST /v1/flows/:id/executions/:execId/cancel - Cancel execution
+router.post('/:id/executions/:execId/cancel', (req, res, next) => flowsController.cancel(req, res, next));
+
+// POST /v1/flows/:id/executions/:execId/retry - Retry execution from the failed node
+router.post('/:id/executions/:execId/retry', (req, res, next) => flowsController.retry(req, res, next));
+
+// POST /v1/flows/:id/executions/:execId/replay - Replay execution from the start
+router.post('/:id/executions/:execId/replay', (req, res, next) => flowsController.replay(req, res, next));
+
+// GET /v1/flows/:id/versions - List published versions
+router.get('/:id/versions', (req, res, next) => flowsController.listVersions(req, res, next));
+
+// GET /v1/flows/:id/versions/diff?from=&to= - Diff two versions
+router.get('/:id/versions/diff', (req, res, next) => flowsController.diffVersions(req, res, next));
+
+// GET /v1/flows/:id/versions/:version - Get version snapshot
+router.get('/:id/versions/:version', (req, res, next) => flowsController.getVersion(req, res, next));
+
+// POST /v1/flows/:id/versions/:version/restore - Restore version
+router.post('/:id/versions/:version/restore', (req, res, next) => flowsController.restoreVersion(req, res, next));
+
 export default router;
@@ -0,0 +1,216 @@
+import cronParser from 'cron-parser';
+import { db } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { flowsService } from './flows.service.js';
+
+// Advisory lock key shared by every API instance (only one ticks at a time)
+const SCHEDULER_LOCK_KEY = 73190001;
+
+// A run is "missed" when it is found more than this late
+const MISFIRE_GRACE_MS = 60000;
+
+// Upper bound of missed runs fired by the catch_up policy
+const MAX_CATCH_UP_RUNS = 10;
+
+export const misfirePolicies = ['skip', 'run_once', 'catch_up'] as const;
+export type MisfirePolicy = (typeof misfirePolicies)[number];
+
+// trigger_config for schedule flows:
+// { "cron": "0 9 * * 1-5", "timezone": "America/Sao_Paulo", "misfirePolicy": "skip" }
+export interface ScheduleConfig {
+  cron: string;
+  timezone?: string;
+  misfirePolicy?: MisfirePolicy;
+}
+
+interface ScheduledFire {
+  tenantId: string;
+  flowId: string;
+  scheduledFor: Date;
+  missed: boolean;
+  config: ScheduleConfig;
+}
+
+// Next run strictly after `from`, or null when the expression is invalid
+export const nextRunAt = (config: ScheduleConfig, from: Date = new Date()): Date | null => {
+  try {
+    const expression = cronParser.parseExpression(config.cron, {
+      currentDate: from,
+      tz: config.timezone || 'UTC',
+    });
+    return expression.next().toDate();
+  } catch {
+    return null;
+  }
+};
+
+// Up to `limit` scheduled times between `from` and `until` (both included), newest first
+const latestRunsBetween = (config: ScheduleConfig, from: Date, until: Date, limit: number): Date[] => {
+  const times: Date[] = [];
+  try {
+    // prev() is strictly before currentDate, so the extra millisecond keeps a run due exactly at `until`
+    const expression = cronParser.parseExpression(config.cron, {
+      currentDate: new Date(until.getTime() + 1),
+      tz: config.timezone || 'UTC',
+    });
+    while (times.length < limit) {
+      const time = expression.prev().toDate();
+      if (time < from) break;
+      times.push(time);
+    }
+  } catch {
+    // Invalid expression or no earlier run: keep what was found
+  }
+  return times;
+};
+
+// Returns an error message when the schedule config cannot be used
+export const checkScheduleConfig = (config: Record<string, any>): string | null => {
+  if (!config.cron || typeof config.cron !== 'string') {
+    return 'Schedule trigger needs trigger_config.cron';
+  }
+
+  try {
+    cronParser.parseExpression(config.cron, { tz: config.timezone || 'UTC' });
+  } catch (error: any) {
+    return `Invalid cron expression: ${error.message}`;
+  }
+
+  if (config.timezone && !isValidTimezone(config.timezone)) {
+    return `Unknown timezone: ${config.timezone}`;
+  }
+
+  if (config.misfirePolicy && !misfirePolicies.includes(config.misfirePolicy)) {
+    return `Unknown misfire policy: ${config.misfirePolicy}`;
+  }
+
+  return null;
+};
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export class FlowScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('[Scheduler] Tick failed:', error.message);
+      });
+    }, env.FLOW_SCHEDULER_INTERVAL_MS);
+
+    console.log(`[Scheduler] Started (every ${env.FLOW_SCHEDULER_INTERVAL_MS}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[Scheduler] Stopped');
+    }
+  }
+
+  // Claim due flows under the advisory lock, advance their next run, then fire
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const fires = await db.transaction(async (client) => {
+        const lock = await client.query('SELECT pg_try_advisory_xact_lock($1) AS locked', [SCHEDULER_LOCK_KEY]);
+        if (!lock.rows[0].locked) {
+          return [];
+        }
+
+        const now = new Date();
+        const due = await client.query(
+          `SELECT id, tenant_id, trigger_config, proxima_execucao FROM fluxos
+           WHERE trigger_type = 'schedule' AND status = 'ativo'
+             AND (proxima_execucao IS NULL OR proxima_execucao <= $1)
+           FOR UPDATE SKIP LOCKED`,
+          [now]
+        );
+
+        const claimed: ScheduledFire[] = [];
+
+        for (const row of due.rows) {
+          const config = row.trigger_config as ScheduleConfig;
+          const planned = row.proxima_execucao
+            ? this.plannedFires(row.tenant_id, row.id, config, new Date(row.proxima_execucao), now)
+            : [];
+
+          await client.query(
+            `UPDATE fluxos SET proxima_execucao = $1, ultima_execucao_agendada = COALESCE($2, ultima_execucao_agendada)
+             WHERE id = $3`,
+            [nextRunAt(config, now), planned.length > 0 ? planned[planned.length - 1].scheduledFor : null, row.id]
+          );
+
+          claimed.push(...planned);
+        }
+
+        return claimed;
+      });
+
+      // Executions are queued after commit so the lock is held only briefly
+      for (const fire of fires) {
+        await this.fire(fire);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Scheduled times between the stored next run and now, filtered by the misfire policy.
+  // After a long outage only the most recent MAX_CATCH_UP_RUNS times are considered; older ones are dropped
+  private plannedFires(tenantId: string, flowId: string, config: ScheduleConfig, first: Date, now: Date): ScheduledFire[] {
+    const times = latestRunsBetween(config, first, now, MAX_CATCH_UP_RUNS).reverse();
+
+    const toFire = (scheduledFor: Date): ScheduledFire => ({
+      tenantId,
+      flowId,
+      scheduledFor,
+      missed: now.getTime() - scheduledFor.getTime() > MISFIRE_GRACE_MS,
+      config,
+    });
+
+    const all = times.map(toFire);
+
+    switch (config.misfirePolicy || 'skip') {
+      case 'catch_up':
+        return all;
+      case 'run_once':
+        return all.slice(-1);
+      default:
+        return all.filter((fire) => !fire.missed).slice(-1);
+    }
+  }
+
+  private async fire(fire: ScheduledFire): Promise<void> {
+    try {
+      await flowsService.enqueue(fire.tenantId, fire.flowId, {
+        triggerType: 'schedule',
+        triggerData: {
+          scheduledFor: fire.scheduledFor.toISOString(),
+          cron: fire.config.cron,
+          timezone: fire.config.timezone || 'UTC',
+          missed: fire.missed,
+        },
+      });
+    } catch (error: any) {
+      if (error.code === 'FLOW_THROTTLED') return;
+      console.error(`[Scheduler] Failed to queue flow ${fire.flowId}:`, error.message);
+    }
+  }
+}
+
+export const flowScheduler = new FlowScheduler();
@@ -1,10 +1,36 @@
 import { z } from 'zod';
+import { nodeTypeRegistry, checkNodeConfig } from './flows.nodes.js';
+import { FLOW_BUNDLE_FORMAT } from './flows.bundle.js';
+import { debugActions } from './flows.debugger.js';
 
 // Flow types
 export const flowTypes = ['automation', 'chatbot', 'integration', 'notification'] as const;
 export const flowStatus = ['ativo', 'inativo', 'rascunho', 'erro'] as const;
 export const triggerTypes = ['webhook', 'schedule', 'event', 'manual'] as const;
-export const executionStatus = ['pendente', 'executando', 'sucesso', 'erro', 'cancelado'] as const;
+export const executionStatus = ['pendente', 'executando', 'aguardando', 'sucesso', 'erro', 'cancelado'] as const;
+export const executionModes = ['internal', 'n8n'] as const; // n8n delegates every run to the linked workflow
+export const throttleReasons = ['concurrency', 'rate', 'duplicate', 'conversation_active'] as const;
+export const throttleActions = ['rejected', 'queued'] as const;
+
+// Retry policy of a single node (delay grows by backoffMultiplier after each failure)
+export const nodeRetrySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).default(1),
+  backoffMs: z.number().int().min(0).max(300000).default(1000),
+  backoffMultiplier: z.number().min(1).max(10).default(2),
+});
+
+// Limits applied to automatic triggers (webhook, schedule, event); manual runs are never throttled.
+// overflow decides what happens above maxConcurrent / maxPerMinute: wait in the queue or drop the trigger.
+export const limitOverflowPolicies = ['queue', 'reject'] as const;
+
+export const flowLimitsSchema = z.object({
+  maxConcurrent: z.number().int().min(1).max(1000).optional(),
+  maxPerMinute: z.number().int().min(1).max(100000).optional(),
+  overflow: z.enum(limitOverflowPolicies).default('queue'),
+  dedupeKey: z.string().min(1).max(500).optional(), // Template rendered against trigger and input, e.g. {{trigger.body.orderId}}
+  dedupeWindowSeconds: z.number().int().min(1).max(604800).default(300),
+  singleRunPerConversation: z.boolean().default(false),
+});
 
 // Node schema for flow editor
 export const flowNodeSchema = z.object({
@@ -15,6 +41,7 @@ export const flowNodeSchema = z.object({
     y: z.number(),
   }),
   data: z.record(z.any()).optional(),
+  retry: nodeRetrySchema.optional(),
 });
 
 // Edge schema for flow editor
@@ -27,6 +54,29 @@ export const flowEdgeSchema = z.object({
   label: z.string().optional(),
 });
 
+// Node list schema: every node must use a registered type with a valid config
+export const flowNodesSchema = z.array(flowNodeSchema).superRefine((nodes, ctx) => {
+  nodes.forEach((node, index) => {
+    const definition = nodeTypeRegistry.get(node.type);
+    if (!definition) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'type'],
+        message: `Unknown node type: ${node.type}`,
+      });
+      return;
+    }
+
+    checkNodeConfig(definition, node.data).forEach((issue) => {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'data', ...issue.path],
+        message: issue.message,
+      });
+    });
+  });
+});
+
 // Create flow schema
 export const createFlowSchema = z.object({
   name: z.string().min(1).max(255),
@@ -34,7 +84,9 @@ export const createFlowSchema = z.object({
   type: z.enum(flowTypes).default('automation'),
   triggerType: z.enum(triggerTypes).optional(),
   triggerConfig: z.record(z.any()).optional(),
-  nodes: z.array(flowNodeSchema).optional(),
+  executionMode: z.enum(executionModes).optional(),
+  limits: flowLimitsSchema.optional(),
+  nodes: flowNodesSchema.optional(),
   edges: z.array(flowEdgeSchema).optional(),
   variables: z.record(z.any()).optional(),
   tags: z.array(z.string()).optional(),
@@ -48,7 +100,9 @@ export const updateFlowSchema = z.object({
   status: z.enum(flowStatus).optional(),
   triggerType: z.enum(triggerTypes).optional(),
   triggerConfig: z.record(z.any()).optional(),
-  nodes: z.array(flowNodeSchema).optional(),
+  executionMode: z.enum(executionModes).optional(),
+  limits: flowLimitsSchema.optional(),
+  nodes: flowNodesSchema.optional(),
   edges: z.array(flowEdgeSchema).optional(),
   variables: z.record(z.any()).optional(),
   tags: z.array(z.string()).optional(),
@@ -61,6 +115,134 @@ export const executeFlowSchema = z.object({
   triggerData: z.record(z.any()).optional(),
 });
 
+// Debug run: pauses after every node when stepping, otherwise only at the breakpoint nodes
+export const debugRunSchema = executeFlowSchema.extend({
+  breakpoints: z.array(z.string()).default([]),
+  stepping: z.boolean().default(true),
+});
+
+export const debugCommandSchema = z.object({
+  action: z.enum(debugActions),
+});
+
+// Replay execution schema: current graph, the version the source ran, or a version number
+export const replayExecutionSchema = z.object({
+  version: z.union([z.enum(['current', 'original']), z.number().int().positive()]).default('current'),
+});
+
+// Version diff query (to defaults to the current version)
+export const versionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+export const versionParamSchema = z.coerce.number().int().positive();
+
+// Validate flow schema (unsaved editor state overrides the stored graph)
+export const validateFlowSchema = z.object({
+  nodes: z.array(flowNodeSchema).optional(),
+  edges: z.array(flowEdgeSchema).optional(),
+  variables: z.record(z.any()).optional(),
+});
+
+// n8n sync: pushes the given workflow (or a default webhook-only one) to n8n
+export const n8nSyncSchema = z.object({
+  workflow: z.object({
+    name: z.string().min(1).max(255).optional(),
+    nodes: z.array(z.record(z.any())).min(1),
+    connections: z.record(z.any()).default({}),
+    settings: z.record(z.any()).optional(),
+  }).optional(),
+  executionMode: z.enum(executionModes).optional(),
+});
+
+// Template parameters: values asked for when a flow is created from the template
+export const templateParameterTypes = ['text', 'number', 'boolean', 'agent', 'channel', 'conversation'] as const;
+
+// Where a parameter value goes: a node config field or a trigger filter (same shape as bundle references)
+export const templateTargetSchema = z.discriminatedUnion('location', [
+  z.object({ location: z.literal('node'), nodeId: z.string().min(1), field: z.string().min(1) }),
+  z.object({ location: z.literal('trigger'), filter: z.string().min(1) }),
+]);
+
+export const templateParameterSchema = z.object({
+  key: z.string().regex(/^[A-Za-z_][\w]*$/).max(64),
+  label: z.string().min(1).max(255),
+  type: z.enum(templateParameterTypes).default('text'),
+  description: z.string().max(500).optional(),
+  required: z.boolean().default(true),
+  default: z.any(),
+  targets: z.array(templateTargetSchema).min(1),
+});
+
+// POST /flows/:id/save-as-template (references to agents, channels and conversations become parameters)
+export const saveAsTemplateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().optional(),
+  category: z.string().max(100).optional(),
+  icon: z.string().max(100).optional(),
+  parameters: z.array(templateParameterSchema).default([]),
+  autoParameters: z.boolean().default(true),
+});
+
+// POST /flows/from-template
+export const createFromTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+  name: z.string().min(1).max(255).optional(),
+  parameters: z.record(z.any()).default({}),
+});
+
+// Inbound webhook path params
+export const flowHookParamsSchema = z.object({
+  flowId: z.string().uuid(),
+  token: z.string().min(1).max(64),
+});
+
+// Portable flow bundle; node types and configs are checked against this install on import
+export const flowBundleSchema = z.object({
+  format: z.literal(FLOW_BUNDLE_FORMAT),
+  formatVersion: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  source: z.object({ flowId: z.string(), version: z.number() }).partial().optional(),
+  requirements: z.object({ nodeTypes: z.array(z.string()), credentials: z.array(z.string()).optional() }).optional(),
+  flow: z.object({
+    name: z.string().min(1).max(255),
+    description: z.string().nullable().optional(),
+    type: z.enum(flowTypes).default('automation'),
+    triggerType: z.string().nullable().optional(),
+    triggerConfig: z.record(z.any()).default({}),
+    nodes: z.array(flowNodeSchema),
+    edges: z.array(flowEdgeSchema),
+    variables: z.record(z.any()).default({}),
+    tags: z.array(z.string()).default([]),
+  }),
+  references: z.array(z.object({
+    kind: z.enum(['agent', 'channel', 'conversation']),
+    id: z.string(),
+    label: z.string().nullable().optional(),
+  }).passthrough()).default([]),
+});
+
+// Import flow schema: bindings map ids from the bundle to records of this tenant (null clears them)
+export const importFlowSchema = z.object({
+  bundle: flowBundleSchema,
+  name: z.string().min(1).max(255).optional(),
+  bindings: z.record(z.string().uuid().nullable()).default({}),
+  dryRun: z.boolean().default(false),
+});
+
+// Expression playground: evaluates a bare expression or a template containing {{ }}
+export const evaluateExpressionSchema = z.object({
+  expression: z.string().min(1).max(2000),
+  flowId: z.string().uuid().optional(), // Seeds vars and flow scope from a saved flow
+  context: z.object({
+    trigger: z.record(z.any()).optional(),
+    input: z.record(z.any()).optional(),
+    vars: z.record(z.any()).optional(),
+    nodes: z.record(z.any()).optional(),
+  }).default({}),
+});
+
 // Query params schema
 export const flowQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -81,6 +263,27 @@ export const executionQuerySchema = z.object({
   endDate: z.string().optional(),
 });
 
+// Throttled trigger query schema
+export const throttleQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  perPage: z.coerce.number().min(1).max(100).default(20),
+  reason: z.enum(throttleReasons).optional(),
+  action: z.enum(throttleActions).optional(),
+});
+
+// Analytics query (defaults to the last 30 days by day)
+export const analyticsGranularities = ['hour', 'day', 'week', 'month'] as const;
+
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  granularity: z.enum(analyticsGranularities).default('day'),
+}).transform((query) => {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - 30 * 86400000);
+  return { from, to, granularity: query.granularity };
+}).refine((query) => query.from < query.to, { message: 'from must be before to', path: ['from'] });
+
 // Types
 export type FlowType = z.infer<typeof createFlowSchema>['type'];
 export type FlowStatus = (typeof flowStatus)[number];
@@ -88,8 +291,27 @@ export type TriggerType = (typeof triggerTypes)[number];
 export type ExecutionStatus = (typeof executionStatus)[number];
 export type FlowNode = z.infer<typeof flowNodeSchema>;
 export type FlowEdge = z.infer<typeof flowEdgeSchema>;
+export type NodeRetryPolicy = z.infer<typeof nodeRetrySchema>;
 export type CreateFlowData = z.infer<typeof createFlowSchema>;
 export type UpdateFlowData = z.infer<typeof updateFlowSchema>;
 export type ExecuteFlowData = z.infer<typeof executeFlowSchema>;
+export type ValidateFlowData = z.infer<typeof validateFlowSchema>;
+export type DebugRunData = z.infer<typeof debugRunSchema>;
+export type ReplayExecutionData = z.infer<typeof replayExecutionSchema>;
+export type ExecutionMode = (typeof executionModes)[number];
+export type FlowLimits = z.infer<typeof flowLimitsSchema>;
+export type ThrottleReason = (typeof throttleReasons)[number];
+export type ThrottleAction = (typeof throttleActions)[number];
+export type ThrottleQueryParams = z.infer<typeof throttleQuerySchema>;
+export type N8nSyncData = z.infer<typeof n8nSyncSchema>;
+export type TemplateParameter = z.infer<typeof templateParameterSchema>;
+export type TemplateTarget = z.infer<typeof templateTargetSchema>;
+export type SaveAsTemplateData = z.infer<typeof saveAsTemplateSchema>;
+export type CreateFromTemplateData = z.infer<typeof createFromTemplateSchema>;
+export type ImportFlowData = z.infer<typeof importFlowSchema>;
+export type EvaluateExpressionData = z.infer<typeof evaluateExpressionSchema>;
+export type VersionDiffQuery = z.infer<typeof versionDiffQuerySchema>;
 export type FlowQueryParams = z.infer<typeof flowQuerySchema>;
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+export type AnalyticsGranularity = (typeof analyticsGranularities)[number];
 export type ExecutionQueryParams = z.infer<typeof executionQuerySchema>;
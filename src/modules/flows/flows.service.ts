@@ -1,12 +1,120 @@
+import crypto from 'crypto';
+import os from 'os';
+import { PoolClient } from 'pg';
 import { db } from '../../config/database.js';
-import { AppError } from '../../shared/middleware/error.middleware.js';
+import { env } from '../../config/env.js';
+import { AppError, UnauthorizedError } from '../../shared/middleware/error.middleware.js';
+import { domainEvents } from '../../shared/events/domain-events.js';
 import {
   CreateFlowData,
   UpdateFlowData,
   ExecuteFlowData,
+  ValidateFlowData,
   FlowQueryParams,
-  ExecutionQueryParams
+  ExecutionQueryParams,
+  ReplayExecutionData,
+  VersionDiffQuery,
+  EvaluateExpressionData,
+  ImportFlowData,
+  N8nSyncData,
+  ExecutionMode,
+  SaveAsTemplateData,
+  CreateFromTemplateData,
+  TemplateParameter,
+  DebugRunData,
+  AnalyticsQuery,
+  ThrottleQueryParams,
+  triggerTypes
 } from './flows.schema.js';
+import { flowEngine, summarizeStep, NodeTraceRecord } from './flows.engine.js';
+import { flowDebugger, DebugHooks, DebugAction } from './flows.debugger.js';
+import { flowAnalytics } from './flows.analytics.js';
+import { flowLimiter, mapThrottleReasonToPortuguese, mapThrottleActionToPortuguese } from './flows.limits.js';
+import { flowValidator } from './flows.validator.js';
+import { nextRunAt, ScheduleConfig } from './flows.scheduler.js';
+import { diffFlowVersions, FlowSnapshot } from './flows.diff.js';
+import {
+  FLOW_BUNDLE_FORMAT,
+  FLOW_BUNDLE_VERSION,
+  FlowBundle,
+  BundleReference,
+  collectReferences,
+  applyBindings,
+  collectCredentials,
+  isReferenceId,
+} from './flows.bundle.js';
+import { credentialsService } from '../credentials/credentials.service.js';
+import { NodeReferenceKind } from './flows.nodes.js';
+import {
+  inferParameters,
+  parameterizeGraph,
+  applyParameters,
+  checkParameterValues,
+  missingTargets,
+  isReferenceParameter,
+} from './flows.templates.js';
+import {
+  n8nClient,
+  checkWorkflowNodes,
+  defaultWorkflow,
+  delegatedGraph,
+  findWebhookPath,
+  scopeWorkflow,
+  N8nWorkflowDefinition,
+} from './flows.n8n.js';
+import {
+  ExpressionError,
+  ExpressionScope,
+  analyzeTemplates,
+  evaluateExpression,
+  renderTemplate,
+} from './flows.expressions.js';
+
+const buildWebhookUrl = (flowId: string, token: string) => `${env.API_URL}/v1/hooks/flows/${flowId}/${token}`;
+
+// Constant-time comparison for tokens and signatures
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// How a retried, replayed or debug execution differs from a normal one
+interface ExecutionRecovery {
+  mode: 'retry' | 'replay' | 'debug';
+  sourceExecutionId?: string;
+  flowVersion?: number | null; // Pinned graph version; null runs the current one
+  resumeFromNode?: string;
+  context?: Record<string, any>;
+}
+
+// Trace values above this size (JSON) are stored as a placeholder
+const TRACE_VALUE_MAX_BYTES = 65536;
+
+const traceValue = (value: any): string | null => {
+  if (value === undefined) return null;
+  const json = JSON.stringify(value);
+  return json.length > TRACE_VALUE_MAX_BYTES ? JSON.stringify({ truncated: true, size: json.length }) : json;
+};
+
+// Where the records a bundle can reference live, and the column used as their label
+const REFERENCE_TABLES: Record<NodeReferenceKind, { table: string; label: string }> = {
+  agent: { table: 'agents', label: 'nome' },
+  channel: { table: 'canais', label: 'nome' },
+  conversation: { table: 'conversas', label: 'assunto' },
+};
+
+// Validator codes that make a bundle unusable here (the rest are reported as warnings)
+const IMPORT_BLOCKING_CODES = ['UNKNOWN_NODE_TYPE', 'INVALID_NODE_CONFIG', 'INVALID_TRIGGER_CONFIG'];
+
+// Request data handed to webhook flows as trigger_data
+export interface FlowWebhookRequest {
+  method: string;
+  headers: Record<string, any>;
+  query: Record<string, any>;
+  body: any;
+  rawBody?: Buffer;
+}
 
 // Field mapping: Portuguese DB columns -> English API
 const mapFlowFromDb = (row: any) => ({
@@ -22,6 +130,11 @@ const mapFlowFromDb = (row: any) => ({
   n8n_workflow_id: row.n8n_workflow_id,
   n8n_webhook_url: row.n8n_webhook_url,
   n8n_active: row.n8n_active,
+  n8n_synced_at: row.n8n_sincronizado_em ?? null,
+  n8n_sync_error: row.n8n_erro_sync ?? null,
+  execution_mode: mapExecutionModeToEnglish(row.modo_execucao),
+  limits: row.limites || {},
+  webhook_url: row.webhook_token ? buildWebhookUrl(row.id, row.webhook_token) : null,
   nodes: row.nodes || [],
   edges: row.edges || [],
   variables: row.variables || {},
@@ -29,6 +142,7 @@ const mapFlowFromDb = (row: any) => ({
   successful_executions: row.execucoes_sucesso || 0,
   failed_executions: row.execucoes_erro || 0,
   last_execution: row.ultima_execucao,
+  next_run_at: row.proxima_execucao ?? null,
   avg_execution_time: row.tempo_medio_execucao,
   version: row.versao,
   published_at: row.publicado_em,
@@ -51,27 +165,94 @@ const mapExecutionFromDb = (row: any) => ({
   error_details: row.error_details,
   nodes_executed: row.nodes_executed || [],
   execution_time: row.tempo_execucao,
+  attempts: row.tentativas ?? 0,
+  max_attempts: row.max_tentativas ?? null,
+  available_at: row.disponivel_em ?? null,
+  mode: row.modo || 'normal',
+  source_execution_id: row.execucao_origem_id ?? null,
+  resumed_from_node: row.retomar_de_no ?? null,
+  flow_version: row.versao_fluxo ?? null,
+  cancelled_at: row.cancelado_em ?? null,
+  dedupe_key: row.chave_dedupe ?? null,
+  conversation_id: row.conversa_id ?? null,
+  waiting_for: row.status === 'aguardando'
+    ? { kind: row.tipo_espera, node_id: row.aguardando_no, until: row.aguardando_ate, conversation_id: row.aguardando_conversa_id }
+    : null,
   started_at: row.iniciado_em,
   finished_at: row.finalizado_em,
   created_at: row.created_at,
 });
 
+const mapThrottleFromDb = (row: any) => ({
+  id: row.id,
+  flow_id: row.fluxo_id,
+  reason: findKey(mapThrottleReasonToPortuguese, row.motivo),
+  action: findKey(mapThrottleActionToPortuguese, row.acao),
+  trigger_type: row.trigger_type,
+  trigger_data: row.trigger_data,
+  dedupe_key: row.chave_dedupe,
+  conversation_id: row.conversa_id,
+  execution_id: row.execucao_id,
+  created_at: row.created_at,
+});
+
+const mapStepFromDb = (row: any) => ({
+  sequence: row.sequencia,
+  node_id: row.no_id,
+  type: row.tipo_no,
+  status: mapExecutionStatusToEnglish(row.status),
+  attempts: row.tentativas,
+  input: row.entrada ?? {},
+  config: row.config ?? null,
+  output: row.saida ?? null,
+  handle: row.handle ?? null,
+  edges: row.arestas_seguidas || [],
+  suspended: row.suspenso,
+  error: row.erro ?? null,
+  stack: row.erro_stack ?? null,
+  attempt_errors: row.erros_tentativas || [],
+  started_at: row.iniciado_em,
+  finished_at: row.finalizado_em,
+  duration: row.duracao,
+});
+
+const mapVersionFromDb = (row: any) => ({
+  id: row.id,
+  flow_id: row.fluxo_id,
+  version: row.versao,
+  nodes: row.nodes || [],
+  edges: row.edges || [],
+  variables: row.variables || {},
+  trigger_type: row.trigger_type,
+  trigger_config: row.trigger_config || {},
+  published_by: row.publicado_por,
+  published_at: row.publicado_em,
+});
+
 const mapTemplateFromDb = (row: any) => ({
   id: row.id,
+  tenant_id: row.tenant_id ?? null,
   name: row.nome,
   description: row.descricao,
   category: row.categoria,
   type: row.tipo,
   icon: row.icone,
+  trigger_type: row.trigger_type ?? null,
+  trigger_config: row.trigger_config || {},
   nodes: row.nodes || [],
   edges: row.edges || [],
   variables: row.variables || {},
+  parameters: row.parametros || [],
   is_public: row.is_public,
+  source_flow_id: row.fluxo_origem_id ?? null,
+  published_at: row.publicado_em ?? null,
   usage_count: row.uso_count || 0,
   created_at: row.created_at,
   updated_at: row.updated_at,
 });
 
+const findKey = (map: Record<string, string>, value: string) => Object.keys(map).find((key) => map[key] === value) ?? value;
+
 const mapStatusToEnglish = (status: string): string => {
   const map: Record<string, string> = {
     'ativo': 'active',
@@ -92,10 +273,15 @@ const mapStatusToPortuguese = (status: string): string => {
   return map[status] || status;
 };
 
+const mapExecutionModeToEnglish = (mode: string | null): ExecutionMode => (mode === 'n8n' ? 'n8n' : 'internal');
+
+const mapExecutionModeToPortuguese = (mode: ExecutionMode): string => (mode === 'n8n' ? 'n8n' : 'interno');
+
 const mapExecutionStatusToEnglish = (status: string): string => {
   const map: Record<string, string> = {
     'pendente': 'pending',
     'executando': 'running',
+    'aguardando': 'waiting',
     'sucesso': 'success',
     'erro': 'error',
     'cancelado': 'cancelled',
@@ -103,6 +289,10 @@ const mapExecutionStatusToEnglish = (status: string): string => {
   return map[status] || status;
 };
 
+// Owner stamped on executions running in this process (queue claims and inline runs);
+// the worker heartbeats them so the rows of a crashed process can be recovered
+export const EXECUTION_OWNER_ID = `${os.hostname()}:${process.pid}`;
+
 class FlowsService {
   // List flows with pagination and filters
   async list(tenantId: string, params: FlowQueryParams) {
@@ -186,8 +376,8 @@ class FlowsService {
     const result = await db.query(
       `INSERT INTO fluxos (
         tenant_id, nome, descricao, tipo, trigger_type, trigger_config,
-        nodes, edges, variables, tags
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        nodes, edges, variables, tags, modo_execucao, limites
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       RETURNING *`,
       [
         tenantId,
@@ -200,6 +390,8 @@ class FlowsService {
         JSON.stringify(data.edges || []),
         JSON.stringify(data.variables || {}),
         JSON.stringify(data.tags || []),
+        mapExecutionModeToPortuguese(data.executionMode || 'internal'),
+        JSON.stringify(data.limits || {}),
       ]
     );
 
@@ -207,9 +399,25 @@ class FlowsService {
   }
 
   // Update flow
-  async update(tenantId: string, flowId: string, data: UpdateFlowData) {
+  async update(tenantId: string, flowId: string, data: UpdateFlowData, userId?: string) {
     // Check if flow exists
-    await this.getById(tenantId, flowId);
+    const flow = await this.getById(tenantId, flowId);
+
+    // A flow that is (or becomes) active must stay valid, same as activate()
+    const graphChanged = [data.status, data.nodes, data.edges, data.variables, data.triggerType, data.triggerConfig]
+      .some((value) => value !== undefined);
+    if (graphChanged && mapStatusToPortuguese(data.status ?? flow.status) === 'ativo') {
+      const report = flowValidator.validate({
+        nodes: data.nodes ?? flow.nodes,
+        edges: data.edges ?? flow.edges,
+        variables: data.variables ?? flow.variables,
+        triggerType: data.triggerType ?? flow.trigger_type,
+        triggerConfig: data.triggerConfig ?? flow.trigger_config,
+      });
+      if (!report.valid) {
+        throw new AppError('Flow has validation errors', 422, 'FLOW_INVALID', report);
+      }
+    }
 
     const updates: string[] = [];
     const values: any[] = [];
@@ -227,10 +435,6 @@ class FlowsService {
       updates.push(`tipo = $${paramIndex++}`);
       values.push(data.type);
     }
-    if (data.status !== undefined) {
-      updates.push(`status = $${paramIndex++}`);
-      values.push(mapStatusToPortuguese(data.status));
-    }
     if (data.triggerType !== undefined) {
       updates.push(`trigger_type = $${paramIndex++}`);
       values.push(data.triggerType);
@@ -239,6 +443,14 @@ class FlowsService {
       updates.push(`trigger_config = $${paramIndex++}`);
       values.push(JSON.stringify(data.triggerConfig));
     }
+    if (data.executionMode !== undefined) {
+      updates.push(`modo_execucao = $${paramIndex++}`);
+      values.push(mapExecutionModeToPortuguese(data.executionMode));
+    }
+    if (data.limits !== undefined) {
+      updates.push(`limites = $${paramIndex++}`);
+      values.push(JSON.stringify(data.limits));
+    }
     if (data.nodes !== undefined) {
       updates.push(`nodes = $${paramIndex++}`);
       values.push(JSON.stringify(data.nodes));
@@ -257,7 +469,7 @@ class FlowsService {
     }
 
     if (updates.length === 0) {
-      return this.getById(tenantId, flowId);
+      return (await this.changeStatus(tenantId, flowId, flow.status, data.status, userId)) ?? flow;
     }
 
     updates.push(`updated_at = CURRENT_TIMESTAMP`);
@@ -272,13 +484,53 @@ class FlowsService {
       values
     );
 
+    const scheduleChanged = data.triggerType !== undefined || data.triggerConfig !== undefined;
+    const row = scheduleChanged ? await this.refreshSchedule(result.rows[0]) : result.rows[0];
+
+    const changed = await this.changeStatus(tenantId, flowId, flow.status, data.status, userId);
+    if (changed) {
+      return changed;
+    }
+
+    // Edits to a live flow take effect immediately, so they are published as well
+    if (row.status === 'ativo') {
+      await this.snapshotVersion(row, userId);
+    }
+
+    return mapFlowFromDb(row);
+  }
+
+  // Going live or offline touches n8n, the webhook token and the schedule, so status changes go through activate()/deactivate()
+  private async changeStatus(tenantId: string, flowId: string, current: string, status: string | undefined, userId?: string) {
+    const from = mapStatusToPortuguese(current);
+    const to = status === undefined ? from : mapStatusToPortuguese(status);
+    if (to === from) {
+      return null;
+    }
+
+    if (to === 'ativo') {
+      return this.activate(tenantId, flowId, userId);
+    }
+    if (from === 'ativo') {
+      const flow = await this.deactivate(tenantId, flowId);
+      if (to === 'inativo') {
+        return flow;
+      }
+    }
+
+    const result = await db.query(
+      `UPDATE fluxos SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND tenant_id = $3
+       RETURNING *`,
+      [to, flowId, tenantId]
+    );
     return mapFlowFromDb(result.rows[0]);
   }
 
   // Delete flow
   async delete(tenantId: string, flowId: string) {
     const result = await db.query(
-      'DELETE FROM fluxos WHERE id = $1 AND tenant_id = $2 RETURNING id',
+      'DELETE FROM fluxos WHERE id = $1 AND tenant_id = $2 RETURNING id, n8n_workflow_id',
       [flowId, tenantId]
     );
 
@@ -286,13 +538,81 @@ class FlowsService {
       throw new AppError('Flow not found', 404);
     }
 
+    // The linked workflow goes with the flow; n8n being down does not block the delete
+    const workflowId = result.rows[0].n8n_workflow_id;
+    if (workflowId && n8nClient.isConfigured()) {
+      await n8nClient.deleteWorkflow(workflowId).catch((error) => {
+        console.error(`[Flows] Failed to delete n8n workflow ${workflowId}:`, error.message);
+      });
+    }
+
     return { deleted: true };
   }
 
+  // Validate flow graph without changing it
+  async validate(tenantId: string, flowId: string, data: ValidateFlowData = {}) {
+    const flow = await this.getById(tenantId, flowId);
+
+    return flowValidator.validate({
+      nodes: data.nodes ?? flow.nodes,
+      edges: data.edges ?? flow.edges,
+      variables: data.variables ?? flow.variables,
+      triggerType: flow.trigger_type,
+      triggerConfig: flow.trigger_config,
+    });
+  }
+
+  // Expression playground (same interpreter the engine uses for node data)
+  async evaluateExpression(tenantId: string, data: EvaluateExpressionData) {
+    const flow = data.flowId ? await this.getById(tenantId, data.flowId) : null;
+    const isTemplate = data.expression.includes('{{');
+
+    const scope: ExpressionScope = {
+      trigger: data.context.trigger || {},
+      input: data.context.input || {},
+      vars: { ...(flow?.variables || {}), ...(data.context.vars || {}) },
+      nodes: data.context.nodes || {},
+      flow: { id: flow?.id ?? null, variables: flow?.variables || {} },
+      execution: { id: null },
+    };
+
+    const analysis = analyzeTemplates(isTemplate ? data.expression : `{{${data.expression}}}`);
+
+    try {
+      const result = isTemplate ? renderTemplate(data.expression, scope) : evaluateExpression(data.expression, scope);
+
+      return {
+        result: result === undefined ? null : result,
+        type: Array.isArray(result) ? 'array' : result === null || result === undefined ? 'null' : typeof result,
+        references: analysis.references.map((path) => path.join('.')),
+      };
+    } catch (error: any) {
+      if (error instanceof ExpressionError) {
+        throw new AppError(error.message, 400, 'EXPRESSION_ERROR');
+      }
+      throw error;
+    }
+  }
+
   // Activate flow
-  async activate(tenantId: string, flowId: string) {
+  async activate(tenantId: string, flowId: string, userId?: string) {
+    const report = await this.validate(tenantId, flowId);
+    if (!report.valid) {
+      throw new AppError('Flow has validation errors', 422, 'FLOW_INVALID', report);
+    }
+
+    // A linked n8n workflow goes live first, so a failure there leaves the flow untouched
+    const flow = await this.getById(tenantId, flowId);
+    if (flow.execution_mode === 'n8n' && !flow.n8n_webhook_url) {
+      throw new AppError('Flow runs in n8n mode but is not synced with n8n', 422, 'N8N_NOT_SYNCED');
+    }
+    if (flow.n8n_workflow_id) {
+      await n8nClient.activateWorkflow(flow.n8n_workflow_id);
+    }
+
     const result = await db.query(
-      `UPDATE fluxos SET status = 'ativo', publicado_em = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      `UPDATE fluxos SET status = 'ativo', publicado_em = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP,
+        n8n_active = n8n_workflow_id IS NOT NULL
        WHERE id = $1 AND tenant_id = $2
        RETURNING *`,
       [flowId, tenantId]
@@ -302,13 +622,24 @@ class FlowsService {
       throw new AppError('Flow not found', 404);
     }
 
-    return mapFlowFromDb(result.rows[0]);
+    let row = await this.refreshSchedule(result.rows[0]);
+
+    // Webhook flows need a URL as soon as they go live
+    if (row.trigger_type === 'webhook' && !row.webhook_token) {
+      const webhookToken = crypto.randomBytes(24).toString('hex');
+      await db.query('UPDATE fluxos SET webhook_token = $1 WHERE id = $2', [webhookToken, row.id]);
+      row = { ...row, webhook_token: webhookToken };
+    }
+
+    await this.snapshotVersion(row, userId);
+
+    return mapFlowFromDb(row);
   }
 
   // Deactivate flow
   async deactivate(tenantId: string, flowId: string) {
     const result = await db.query(
-      `UPDATE fluxos SET status = 'inativo', updated_at = CURRENT_TIMESTAMP
+      `UPDATE fluxos SET status = 'inativo', proxima_execucao = NULL, updated_at = CURRENT_TIMESTAMP
        WHERE id = $1 AND tenant_id = $2
        RETURNING *`,
       [flowId, tenantId]
@@ -318,61 +649,749 @@ class FlowsService {
       throw new AppError('Flow not found', 404);
     }
 
+    let row = result.rows[0];
+
+    // Best effort: the flow stops here even when n8n cannot be reached
+    if (row.n8n_workflow_id && row.n8n_active) {
+      try {
+        await n8nClient.deactivateWorkflow(row.n8n_workflow_id);
+        const updated = await db.query(
+          'UPDATE fluxos SET n8n_active = false, n8n_erro_sync = NULL WHERE id = $1 RETURNING *',
+          [row.id]
+        );
+        row = updated.rows[0];
+      } catch (error: any) {
+        console.error(`[Flows] Failed to deactivate n8n workflow ${row.n8n_workflow_id}:`, error.message);
+        const updated = await db.query('UPDATE fluxos SET n8n_erro_sync = $1 WHERE id = $2 RETURNING *', [error.message, row.id]);
+        row = updated.rows[0];
+      }
+    }
+
+    return mapFlowFromDb(row);
+  }
+
+  // Create or update the n8n workflow linked to the flow and match its active state
+  async syncN8n(tenantId: string, flowId: string, data: N8nSyncData = {}) {
+    const flow = await this.getById(tenantId, flowId);
+
+    if (!n8nClient.isConfigured()) {
+      throw new AppError('n8n is not configured', 503, 'N8N_NOT_CONFIGURED');
+    }
+
+    const requested: N8nWorkflowDefinition = data.workflow
+      ? {
+          name: data.workflow.name || `OmniBot - ${flow.name}`,
+          nodes: data.workflow.nodes,
+          connections: data.workflow.connections,
+          settings: data.workflow.settings,
+        }
+      : defaultWorkflow(flow);
+
+    const problems = checkWorkflowNodes(requested);
+    if (Object.keys(problems).length > 0) {
+      throw new AppError('n8n workflow has nodes that are not allowed', 422, 'N8N_NODE_NOT_ALLOWED', { problems });
+    }
+
+    const definition = scopeWorkflow(requested, { tenantId, flowId });
+    const webhookPath = findWebhookPath(definition);
+    if (!webhookPath) {
+      throw new AppError('n8n workflow needs an enabled Webhook node with a path', 422, 'N8N_WEBHOOK_MISSING');
+    }
+
+    let workflow;
+    try {
+      // Workflows deleted on the n8n side are recreated
+      const existing = flow.n8n_workflow_id ? await n8nClient.getWorkflow(flow.n8n_workflow_id) : null;
+      workflow = existing
+        ? await n8nClient.updateWorkflow(existing.id, definition)
+        : await n8nClient.createWorkflow(definition);
+
+      const live = flow.status === 'active';
+      if (live && !workflow.active) {
+        workflow = await n8nClient.activateWorkflow(workflow.id);
+      } else if (!live && workflow.active) {
+        workflow = await n8nClient.deactivateWorkflow(workflow.id);
+      }
+    } catch (error: any) {
+      await db.query('UPDATE fluxos SET n8n_erro_sync = $1 WHERE id = $2', [error.message, flowId]);
+      throw error;
+    }
+
+    const result = await db.query(
+      `UPDATE fluxos SET
+        n8n_workflow_id = $1,
+        n8n_webhook_url = $2,
+        n8n_active = $3,
+        modo_execucao = $4,
+        n8n_sincronizado_em = CURRENT_TIMESTAMP,
+        n8n_erro_sync = NULL,
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND tenant_id = $6
+       RETURNING *`,
+      [
+        String(workflow.id),
+        n8nClient.webhookUrl(webhookPath),
+        workflow.active === true,
+        mapExecutionModeToPortuguese(data.executionMode ?? flow.execution_mode),
+        flowId,
+        tenantId,
+      ]
+    );
+
     return mapFlowFromDb(result.rows[0]);
   }
 
-  // Execute flow manually
+  // Keep the planned run of scheduled flows in sync with status and trigger config
+  private async refreshSchedule(row: any) {
+    const next = row.status === 'ativo' && row.trigger_type === 'schedule'
+      ? nextRunAt(row.trigger_config as ScheduleConfig)
+      : null;
+
+    if (next?.getTime() !== row.proxima_execucao?.getTime()) {
+      await db.query('UPDATE fluxos SET proxima_execucao = $1 WHERE id = $2', [next, row.id]);
+    }
+
+    return { ...row, proxima_execucao: next };
+  }
+
+  // Execute flow and wait for the result
   async execute(tenantId: string, flowId: string, data: ExecuteFlowData) {
-    // Get flow
     const flow = await this.getById(tenantId, flowId);
+    const execution = await this.admitExecution(flow, data, 'executando');
+
+    return this.runExecution(execution);
+  }
+
+  // Queue flow for the workers and return the pending execution
+  async enqueue(tenantId: string, flowId: string, data: ExecuteFlowData) {
+    const flow = await this.getById(tenantId, flowId);
+    const execution = await this.admitExecution(flow, data, 'pendente');
+
+    return mapExecutionFromDb(execution);
+  }
+
+  // Inbound call to POST /hooks/flows/:flowId/:token
+  async triggerWebhook(flowId: string, token: string, request: FlowWebhookRequest) {
+    const result = await db.query(
+      `SELECT * FROM fluxos WHERE id = $1 AND trigger_type = 'webhook' AND status = 'ativo'`,
+      [flowId]
+    );
+    const row = result.rows[0];
+
+    // Unknown flow and wrong token look the same to the caller
+    if (!row?.webhook_token || !safeEqual(row.webhook_token, token)) {
+      throw new AppError('Flow not found', 404);
+    }
+
+    const config = row.trigger_config || {};
+    if (config.verifySignature) {
+      this.verifyWebhookSignature(row.webhook_secret, request);
+    }
+
+    const data: ExecuteFlowData = {
+      triggerType: 'webhook',
+      triggerData: {
+        method: request.method,
+        headers: request.headers,
+        query: request.query,
+        body: request.body,
+        receivedAt: new Date().toISOString(),
+      },
+    };
+
+    if (config.webhookMode === 'sync') {
+      return { mode: 'sync' as const, execution: await this.execute(row.tenant_id, flowId, data) };
+    }
+
+    return { mode: 'async' as const, execution: await this.enqueue(row.tenant_id, flowId, data) };
+  }
+
+  // Create (or rotate) the webhook token and signing secret of a flow
+  async generateWebhook(tenantId: string, flowId: string) {
+    const webhookToken = crypto.randomBytes(24).toString('hex');
+    const webhookSecret = crypto.randomBytes(32).toString('hex');
+
+    const result = await db.query(
+      `UPDATE fluxos SET webhook_token = $1, webhook_secret = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND tenant_id = $4
+       RETURNING id`,
+      [webhookToken, webhookSecret, flowId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Flow not found', 404);
+    }
+
+    return { webhookUrl: buildWebhookUrl(flowId, webhookToken), webhookSecret };
+  }
+
+  // X-Webhook-Signature: sha256=<hex HMAC of the raw body>
+  private verifyWebhookSignature(secret: string | null, request: FlowWebhookRequest) {
+    const header = request.headers['x-webhook-signature'];
+    if (!secret || typeof header !== 'string') {
+      throw new UnauthorizedError('Missing webhook signature');
+    }
+
+    const expected = 'sha256=' + crypto
+      .createHmac('sha256', secret)
+      .update(request.rawBody ?? Buffer.alloc(0))
+      .digest('hex');
 
-    // Create execution record
-    const executionResult = await db.query(
+    if (!safeEqual(header, expected)) {
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
+  }
+
+  // Create the execution of a trigger; automatic triggers go through the flow limits first
+  private async admitExecution(
+    flow: { id: string; tenant_id: string; limits: unknown },
+    data: ExecuteFlowData,
+    status: 'pendente' | 'executando'
+  ) {
+    const limits = flowLimiter.parse(flow.limits);
+    if (!flowLimiter.applies(limits, data.triggerType)) {
+      return this.createExecution(flow.tenant_id, flow.id, data, status);
+    }
+
+    const request = { tenantId: flow.tenant_id, flowId: flow.id, limits, data, inline: status === 'executando' };
+    const { execution, throttle } = await db.transaction(async (client) => {
+      const admission = await flowLimiter.admit(client, request);
+      const rejected = admission.throttle?.action === 'rejected';
+
+      const created = rejected ? null : await this.createExecution(flow.tenant_id, flow.id, data, status, undefined, {
+        client,
+        dedupeKey: admission.dedupeKey,
+        conversationId: admission.conversationId,
+      });
+
+      if (admission.throttle) {
+        await flowLimiter.record(client, request, admission, created?.id ?? admission.throttle.executionId);
+      }
+      return { execution: created, throttle: admission.throttle };
+    });
+
+    if (!execution) {
+      throw flowLimiter.rejection(throttle!);
+    }
+    return execution;
+  }
+
+  private async createExecution(
+    tenantId: string,
+    flowId: string,
+    data: ExecuteFlowData,
+    status: 'pendente' | 'executando',
+    recovery?: ExecutionRecovery,
+    options: { client?: PoolClient; dedupeKey?: string | null; conversationId?: string | null } = {}
+  ) {
+    // Admitted executions are inserted in the transaction that checked the flow limits
+    const query = (text: string, params: any[]) => (options.client ? options.client.query(text, params) : db.query(text, params));
+
+    const result = await query(
       `INSERT INTO execucoes_fluxo (
-        tenant_id, fluxo_id, status, trigger_type, trigger_data, input_data
-      ) VALUES ($1, $2, 'executando', $3, $4, $5)
+        tenant_id, fluxo_id, status, trigger_type, trigger_data, input_data, tentativas, max_tentativas,
+        modo, execucao_origem_id, retomar_de_no, contexto, versao_fluxo, chave_dedupe, conversa_id,
+        worker_id, heartbeat_em
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
+        CASE WHEN $3 = 'executando' THEN CURRENT_TIMESTAMP END)
       RETURNING *`,
       [
         tenantId,
         flowId,
+        status,
         data.triggerType || 'manual',
         JSON.stringify(data.triggerData || {}),
         JSON.stringify(data.inputData || {}),
+        status === 'executando' ? 1 : 0,
+        env.FLOW_EXECUTION_MAX_ATTEMPTS,
+        recovery?.mode || 'normal',
+        recovery?.sourceExecutionId || null,
+        recovery?.resumeFromNode || null,
+        recovery?.context ? JSON.stringify(recovery.context) : null,
+        recovery?.flowVersion ?? null,
+        options.dedupeKey ?? null,
+        options.conversationId ?? null,
+        status === 'executando' ? EXECUTION_OWNER_ID : null,
       ]
     );
 
-    const execution = executionResult.rows[0];
+    return result.rows[0];
+  }
+
+  // Run the graph for a claimed execution row and store the outcome
+  async runExecution(execution: any, hooks: Partial<DebugHooks> & { timeoutMs?: number } = {}) {
+    const flow = await this.getById(execution.tenant_id, execution.fluxo_id);
+    const stored = execution.contexto;
+
+    // Resumed and pinned executions keep running the version they started with
+    const graph = await this.loadSnapshot(execution.tenant_id, execution.fluxo_id, execution.versao_fluxo ?? flow.version);
+
+    // retomar_com set: continue after a suspended node; otherwise retomar_de_no re-runs a failed node
+    const resumeOptions = execution.retomar_com
+      ? { resume: { nodeId: execution.retomar_de_no, payload: execution.retomar_com, pending: stored?.pending } }
+      : execution.retomar_de_no
+        ? { startNodeIds: [execution.retomar_de_no, ...(stored?.pending || [])] }
+        : {};
+
+    // n8n mode replaces the graph with a single call to the workflow webhook
+    const delegated = flow.execution_mode === 'n8n';
+
+    const result = await flowEngine.run(
+      {
+        nodes: delegated ? delegatedGraph(flow) : graph.nodes,
+        edges: delegated ? [] : graph.edges,
+        variables: graph.variables,
+      },
+      {
+        tenantId: flow.tenant_id,
+        flowId: flow.id,
+        executionId: execution.id,
+        trigger: execution.trigger_data || {},
+        input: execution.input_data || {},
+        vars: stored?.vars || {},
+        nodes: stored?.nodes || {},
+        output: stored?.output,
+      },
+      {
+        timeoutMs: hooks.timeoutMs ?? env.FLOW_EXECUTION_TIMEOUT_MS,
+        ...resumeOptions,
+        isCancelled: async () => hooks.isStopped?.() || this.isCancelled(execution.id),
+        onStep: hooks.onStep,
+      }
+    );
 
-    // TODO: Actually execute the flow (integrate with n8n or internal engine)
-    // For now, we'll simulate a successful execution
+    const suspension = result.suspension;
+    const waiting = result.status === 'aguardando';
 
-    // Update execution as successful
+    // A cancel that landed while the last node ran still wins. Suspended runs keep
+    // their node history and time, and get a fresh attempt budget for the next leg.
     const updatedExecution = await db.query(
       `UPDATE execucoes_fluxo SET
-        status = 'sucesso',
-        output_data = $1,
-        tempo_execucao = $2,
-        finalizado_em = CURRENT_TIMESTAMP
-       WHERE id = $3
+        status = CASE WHEN status = 'cancelado' THEN status ELSE $1 END,
+        output_data = $2,
+        error_message = $3,
+        error_details = $4,
+        nodes_executed = COALESCE(nodes_executed, '[]'::jsonb) || $5::jsonb,
+        tempo_execucao = COALESCE(tempo_execucao, 0) + $6,
+        contexto = $8,
+        tipo_espera = $9,
+        aguardando_no = $10,
+        aguardando_ate = $11,
+        aguardando_conversa_id = $12,
+        retomar_de_no = COALESCE($10, retomar_de_no),
+        retomar_com = $13,
+        tentativas = CASE WHEN $14 THEN 0 ELSE tentativas END,
+        versao_fluxo = $15,
+        finalizado_em = CASE WHEN $14 THEN NULL ELSE CURRENT_TIMESTAMP END
+       WHERE id = $7
        RETURNING *`,
       [
-        JSON.stringify({ message: 'Flow executed successfully' }),
-        Math.floor(Math.random() * 1000) + 100, // Simulated execution time
+        result.status,
+        JSON.stringify(result.output ?? null),
+        result.error?.message || null,
+        result.error ? JSON.stringify({ nodeId: result.error.nodeId, stack: result.error.stack }) : null,
+        JSON.stringify(result.nodesExecuted.map(summarizeStep)),
+        result.duration,
         execution.id,
+        JSON.stringify(result.context),
+        suspension?.kind || null,
+        suspension?.nodeId || null,
+        suspension?.until || null,
+        suspension?.conversationId || null,
+        waiting ? JSON.stringify({ reason: 'timeout' }) : null,
+        waiting,
+        graph.version,
       ]
     );
 
-    // Update flow stats
+    await this.recordTrace(updatedExecution.rows[0], result.nodesExecuted);
+
+    // Debug runs stay out of the flow stats
+    const finalStatus = updatedExecution.rows[0].status;
+    if (finalStatus !== 'aguardando' && execution.modo !== 'debug') {
+      await this.recordExecutionStats(flow.id, finalStatus, updatedExecution.rows[0].tempo_execucao);
+      this.publishFinished(updatedExecution.rows[0]);
+    }
+
+    return mapExecutionFromDb(updatedExecution.rows[0]);
+  }
+
+  private publishFinished(execution: any) {
+    // Executions started by another flow's completion carry that event in trigger_data
+    const trigger = execution.trigger_data;
+    const chainDepth = trigger?.type === 'flow.execution_finished' ? (Number(trigger.data?.chainDepth) || 0) + 1 : 0;
+
+    domainEvents.publish('flow.execution_finished', execution.tenant_id, {
+      flowId: execution.fluxo_id,
+      executionId: execution.id,
+      status: mapExecutionStatusToEnglish(execution.status),
+      durationMs: execution.tempo_execucao ?? null,
+      error: execution.error_message ?? null,
+      chainDepth,
+    });
+  }
+
+  // Append the node records of this run (resumed runs continue the sequence)
+  private async recordTrace(execution: any, steps: NodeTraceRecord[]) {
+    if (steps.length === 0) return;
+
+    const last = await db.query(
+      'SELECT COALESCE(MAX(sequencia), 0) AS last FROM execucao_passos WHERE execucao_id = $1',
+      [execution.id]
+    );
+    const offset = Number(last.rows[0].last);
+
+    const values: any[] = [];
+    const rows = steps.map((step, index) => {
+      values.push(
+        execution.tenant_id,
+        execution.id,
+        offset + index + 1,
+        step.node_id,
+        step.type,
+        step.status,
+        step.attempts,
+        traceValue(step.input),
+        traceValue(step.config),
+        traceValue(step.output),
+        step.handle ?? null,
+        JSON.stringify(step.edges),
+        step.suspended === true,
+        step.error ?? null,
+        step.stack ?? null,
+        JSON.stringify(step.attempt_errors),
+        step.started_at,
+        step.finished_at,
+        step.duration
+      );
+      const base = index * 19;
+      return `(${Array.from({ length: 19 }, (_, column) => `$${base + column + 1}`).join(', ')})`;
+    });
+
+    await db.query(
+      `INSERT INTO execucao_passos (
+        tenant_id, execucao_id, sequencia, no_id, tipo_no, status, tentativas, entrada, config, saida,
+        handle, arestas_seguidas, suspenso, erro, erro_stack, erros_tentativas, iniciado_em, finalizado_em, duracao
+      ) VALUES ${rows.join(', ')}`,
+      values
+    );
+  }
+
+  // Step-by-step record of an execution
+  async getTrace(tenantId: string, flowId: string, executionId: string) {
+    const execution = await this.getExecutionRow(tenantId, flowId, executionId);
+
+    const result = await db.query(
+      'SELECT * FROM execucao_passos WHERE execucao_id = $1 AND tenant_id = $2 ORDER BY sequencia',
+      [executionId, tenantId]
+    );
+
+    return {
+      execution: mapExecutionFromDb(execution),
+      steps: result.rows.map(mapStepFromDb),
+    };
+  }
+
+  // Start a debug run: it runs in this process, streams every node over Socket.IO
+  // and pauses after each one (or only at breakpoints) until the editor sends a command
+  async debugRun(tenantId: string, flowId: string, data: DebugRunData) {
+    await this.getById(tenantId, flowId);
+    const execution = await this.createExecution(tenantId, flowId, data, 'executando', { mode: 'debug' });
+
+    const hooks = flowDebugger.open(execution, { breakpoints: data.breakpoints, stepping: data.stepping });
+
+    // Pauses are unbounded; the debugger's idle timeout stops abandoned runs
+    this.runExecution(execution, { ...hooks, timeoutMs: Infinity })
+      .then((finished) => flowDebugger.finish(execution.id, finished))
+      .catch((error) => {
+        console.error(`[Flows] Debug run ${execution.id} failed:`, error.message);
+        flowDebugger.finish(execution.id, { status: 'error', error_message: error.message });
+      });
+
+    return mapExecutionFromDb(execution);
+  }
+
+  async debugCommand(tenantId: string, flowId: string, executionId: string, action: DebugAction) {
+    await this.getExecutionRow(tenantId, flowId, executionId);
+    return flowDebugger.command(tenantId, executionId, action);
+  }
+
+  // Update flow stats (running average of execution time; cancelled runs count in neither bucket)
+  private async recordExecutionStats(flowId: string, status: string, duration: number) {
     await db.query(
       `UPDATE fluxos SET
         total_execucoes = total_execucoes + 1,
-        execucoes_sucesso = execucoes_sucesso + 1,
+        execucoes_sucesso = execucoes_sucesso + $2,
+        execucoes_erro = execucoes_erro + $3,
+        tempo_medio_execucao = ROUND((COALESCE(tempo_medio_execucao, 0) * total_execucoes + $4) / (total_execucoes + 1)),
         ultima_execucao = CURRENT_TIMESTAMP
        WHERE id = $1`,
-      [flowId]
+      [flowId, status === 'sucesso' ? 1 : 0, status === 'erro' ? 1 : 0, duration]
     );
+  }
 
-    return mapExecutionFromDb(updatedExecution.rows[0]);
+  // Hand an inbound message to the executions waiting for a reply in its conversation
+  async resumeOnReply(tenantId: string, conversationId: string, message: any): Promise<number> {
+    const result = await db.query(
+      `UPDATE execucoes_fluxo SET
+        status = 'pendente',
+        retomar_com = $3,
+        aguardando_ate = NULL,
+        disponivel_em = CURRENT_TIMESTAMP
+       WHERE tenant_id = $1 AND aguardando_conversa_id = $2
+         AND status = 'aguardando' AND tipo_espera = 'reply'
+       RETURNING id`,
+      [tenantId, conversationId, JSON.stringify({ reason: 'reply', message })]
+    );
+
+    return result.rows.length;
+  }
+
+  // Cancel a pending, running or waiting execution (running ones stop before their next node)
+  async cancelExecution(tenantId: string, flowId: string, executionId: string) {
+    const result = await db.query(
+      `UPDATE execucoes_fluxo e SET
+        status = 'cancelado',
+        cancelado_em = CURRENT_TIMESTAMP,
+        finalizado_em = COALESCE(e.finalizado_em, CURRENT_TIMESTAMP)
+       FROM (SELECT id, status FROM execucoes_fluxo WHERE id = $1 FOR UPDATE) previous
+       WHERE e.id = previous.id AND e.fluxo_id = $2 AND e.tenant_id = $3
+         AND e.status IN ('pendente', 'executando', 'aguardando')
+       RETURNING e.*, previous.status AS previous_status`,
+      [executionId, flowId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      const execution = await this.getExecutionRow(tenantId, flowId, executionId);
+      throw new AppError(
+        `Execution is already ${mapExecutionStatusToEnglish(execution.status)}`,
+        409,
+        'EXECUTION_FINISHED'
+      );
+    }
+
+    // A debug run paused at a node would only see the cancel once released
+    flowDebugger.stop(executionId);
+
+    // Running executions announce the cancel when runExecution stores it
+    if (result.rows[0].previous_status !== 'executando' && result.rows[0].modo !== 'debug') {
+      this.publishFinished(result.rows[0]);
+    }
+
+    return mapExecutionFromDb(result.rows[0]);
+  }
+
+  // Re-run a failed execution from the node that failed, with the context it had stored
+  async retryExecution(tenantId: string, flowId: string, executionId: string) {
+    const flow = await this.getById(tenantId, flowId);
+    const source = await this.getExecutionRow(tenantId, flowId, executionId);
+    const graph = await this.loadSnapshot(tenantId, flowId, source.versao_fluxo ?? flow.version);
+
+    if (source.status !== 'erro') {
+      throw new AppError('Only failed executions can be retried', 409, 'EXECUTION_NOT_FAILED');
+    }
+
+    const failedNodeId = source.error_details?.nodeId;
+    if (!failedNodeId || !source.contexto) {
+      throw new AppError('Execution has no resumable state, use replay instead', 409, 'EXECUTION_NOT_RESUMABLE');
+    }
+    if (!graph.nodes.some((node) => node.id === failedNodeId)) {
+      throw new AppError(`Node ${failedNodeId} does not exist in version ${graph.version}`, 409, 'EXECUTION_NOT_RESUMABLE');
+    }
+
+    const execution = await this.createExecution(
+      tenantId,
+      flowId,
+      { triggerType: source.trigger_type, triggerData: source.trigger_data, inputData: source.input_data },
+      'pendente',
+      {
+        mode: 'retry',
+        sourceExecutionId: source.id,
+        flowVersion: graph.version,
+        resumeFromNode: failedNodeId,
+        context: source.contexto,
+      }
+    );
+
+    return mapExecutionFromDb(execution);
+  }
+
+  // Re-run an execution from the start with its original trigger and input data
+  // version: 'current' (default), 'original' (the one the source ran) or a version number
+  async replayExecution(tenantId: string, flowId: string, executionId: string, data: ReplayExecutionData = { version: 'current' }) {
+    const flow = await this.getById(tenantId, flowId);
+    const source = await this.getExecutionRow(tenantId, flowId, executionId);
+
+    const pinned = data.version === 'current' ? null
+      : data.version === 'original' ? source.versao_fluxo ?? flow.version
+      : data.version;
+    if (pinned !== null) {
+      await this.loadSnapshot(tenantId, flowId, pinned);
+    }
+
+    const execution = await this.createExecution(
+      tenantId,
+      flowId,
+      { triggerType: source.trigger_type, triggerData: source.trigger_data, inputData: source.input_data },
+      'pendente',
+      { mode: 'replay', sourceExecutionId: source.id, flowVersion: pinned }
+    );
+
+    return mapExecutionFromDb(execution);
+  }
+
+  private async getExecutionRow(tenantId: string, flowId: string, executionId: string) {
+    const result = await db.query(
+      'SELECT * FROM execucoes_fluxo WHERE id = $1 AND fluxo_id = $2 AND tenant_id = $3',
+      [executionId, flowId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Execution not found', 404);
+    }
+
+    return result.rows[0];
+  }
+
+  private async isCancelled(executionId: string): Promise<boolean> {
+    const result = await db.query('SELECT status FROM execucoes_fluxo WHERE id = $1', [executionId]);
+    return result.rows[0]?.status === 'cancelado';
+  }
+
+  // List the published versions of a flow
+  async listVersions(tenantId: string, flowId: string) {
+    const flow = await this.getById(tenantId, flowId);
+
+    const result = await db.query(
+      `SELECT id, versao, publicado_por, publicado_em,
+              jsonb_array_length(nodes) AS total_nodes, jsonb_array_length(edges) AS total_edges
+       FROM fluxo_versoes
+       WHERE fluxo_id = $1 AND tenant_id = $2
+       ORDER BY versao DESC`,
+      [flowId, tenantId]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      version: row.versao,
+      published_by: row.publicado_por,
+      published_at: row.publicado_em,
+      total_nodes: row.total_nodes,
+      total_edges: row.total_edges,
+      current: row.versao === flow.version,
+    }));
+  }
+
+  // Get a single version snapshot
+  async getVersion(tenantId: string, flowId: string, version: number) {
+    const result = await db.query(
+      'SELECT * FROM fluxo_versoes WHERE fluxo_id = $1 AND tenant_id = $2 AND versao = $3',
+      [flowId, tenantId, version]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(`Flow version ${version} not found`, 404);
+    }
+
+    return mapVersionFromDb(result.rows[0]);
+  }
+
+  // Structural diff between two versions (to defaults to the current graph)
+  async diffVersions(tenantId: string, flowId: string, query: VersionDiffQuery) {
+    const flow = await this.getById(tenantId, flowId);
+
+    const before = await this.loadSnapshot(tenantId, flowId, query.from);
+    const after = await this.loadSnapshot(tenantId, flowId, query.to ?? flow.version);
+
+    return diffFlowVersions(before, after);
+  }
+
+  // Copy an old version back into the flow as a new version
+  async restoreVersion(tenantId: string, flowId: string, version: number, userId?: string) {
+    const flow = await this.getById(tenantId, flowId);
+    const snapshot = await this.loadSnapshot(tenantId, flowId, version);
+
+    if (flow.status === 'active') {
+      const report = flowValidator.validate(snapshot);
+      if (!report.valid) {
+        throw new AppError('Version has validation errors', 422, 'FLOW_INVALID', report);
+      }
+    }
+
+    const result = await db.query(
+      `UPDATE fluxos SET
+        nodes = $1, edges = $2, variables = $3, trigger_type = $4, trigger_config = $5,
+        versao = versao + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6 AND tenant_id = $7
+       RETURNING *`,
+      [
+        JSON.stringify(snapshot.nodes),
+        JSON.stringify(snapshot.edges),
+        JSON.stringify(snapshot.variables),
+        snapshot.triggerType,
+        JSON.stringify(snapshot.triggerConfig),
+        flowId,
+        tenantId,
+      ]
+    );
+
+    const row = await this.refreshSchedule(result.rows[0]);
+    if (row.status === 'ativo') {
+      await this.snapshotVersion(row, userId);
+    }
+
+    return mapFlowFromDb(row);
+  }
+
+  // Store the graph of the row's current version (no-op when it already exists)
+  private async snapshotVersion(row: any, userId?: string) {
+    await db.query(
+      `INSERT INTO fluxo_versoes (
+        tenant_id, fluxo_id, versao, nodes, edges, variables, trigger_type, trigger_config, publicado_por
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (fluxo_id, versao) DO NOTHING`,
+      [
+        row.tenant_id,
+        row.id,
+        row.versao,
+        JSON.stringify(row.nodes || []),
+        JSON.stringify(row.edges || []),
+        JSON.stringify(row.variables || {}),
+        row.trigger_type,
+        JSON.stringify(row.trigger_config || {}),
+        userId || null,
+      ]
+    );
+  }
+
+  // Graph of a version; the current version may be unpublished, so it falls back to the flow row
+  private async loadSnapshot(tenantId: string, flowId: string, version: number): Promise<FlowSnapshot> {
+    const result = await db.query(
+      'SELECT * FROM fluxo_versoes WHERE fluxo_id = $1 AND tenant_id = $2 AND versao = $3',
+      [flowId, tenantId, version]
+    );
+
+    let row = result.rows[0];
+    if (!row) {
+      const current = await db.query(
+        'SELECT * FROM fluxos WHERE id = $1 AND tenant_id = $2 AND versao = $3',
+        [flowId, tenantId, version]
+      );
+      row = current.rows[0];
+    }
+
+    if (!row) {
+      throw new AppError(`Flow version ${version} not found`, 404, 'VERSION_NOT_FOUND');
+    }
+
+    return {
+      version,
+      nodes: row.nodes || [],
+      edges: row.edges || [],
+      variables: row.variables || {},
+      triggerType: row.trigger_type,
+      triggerConfig: row.trigger_config || {},
+    };
   }
 
   // Get flow executions
@@ -390,6 +1409,7 @@ class FlowsService {
     if (status) {
       const statusStr = status as string;
       const ptStatus = statusStr === 'running' ? 'executando' :
+                       statusStr === 'waiting' ? 'aguardando' :
                        statusStr === 'success' ? 'sucesso' :
                        statusStr === 'error' ? 'erro' :
                        statusStr === 'cancelled' ? 'cancelado' : 'pendente';
@@ -431,6 +1451,40 @@ class FlowsService {
     };
   }
 
+  // Triggers rejected or queued by the flow limits
+  async getThrottled(tenantId: string, flowId: string, params: ThrottleQueryParams) {
+    const { page, perPage, reason, action } = params;
+    await this.getById(tenantId, flowId);
+
+    const conditions = ['tenant_id = $1', 'fluxo_id = $2'];
+    const queryParams: any[] = [tenantId, flowId];
+
+    if (reason) {
+      queryParams.push(mapThrottleReasonToPortuguese[reason]);
+      conditions.push(`motivo = $${queryParams.length}`);
+    }
+    if (action) {
+      queryParams.push(mapThrottleActionToPortuguese[action]);
+      conditions.push(`acao = $${queryParams.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const countResult = await db.query(`SELECT COUNT(*) FROM gatilhos_limitados WHERE ${where}`, queryParams);
+
+    const result = await db.query(
+      `SELECT * FROM gatilhos_limitados WHERE ${where}
+       ORDER BY created_at DESC LIMIT $${queryParams.length + 1} OFFSET $${queryParams.length + 2}`,
+      [...queryParams, perPage, (page - 1) * perPage]
+    );
+
+    return {
+      throttled: result.rows.map(mapThrottleFromDb),
+      total: parseInt(countResult.rows[0].count),
+      page,
+      perPage,
+    };
+  }
+
   // Get flow stats
   async getStats(tenantId: string) {
     const result = await db.query(
@@ -461,13 +1515,19 @@ class FlowsService {
     };
   }
 
-  // Get templates
-  async getTemplates(category?: string) {
-    let query = 'SELECT * FROM templates_fluxo WHERE is_public = true';
-    const params: any[] = [];
+  // Executions over time, latency, error hotspots and the node funnel of one flow
+  async getAnalytics(tenantId: string, flowId: string, query: AnalyticsQuery) {
+    const flow = await this.getById(tenantId, flowId);
+    return flowAnalytics.build(flow, query);
+  }
+
+  // Get templates: published ones plus the tenant's private ones
+  async getTemplates(tenantId: string, category?: string) {
+    let query = 'SELECT * FROM templates_fluxo WHERE (is_public = true OR tenant_id = $1)';
+    const params: any[] = [tenantId];
 
     if (category) {
-      query += ' AND categoria = $1';
+      query += ' AND categoria = $2';
       params.push(category);
     }
 
@@ -477,41 +1537,134 @@ class FlowsService {
     return result.rows.map(mapTemplateFromDb);
   }
 
-  // Create flow from template
-  async createFromTemplate(tenantId: string, templateId: string, name: string) {
-    // Get template
-    const templateResult = await db.query(
-      'SELECT * FROM templates_fluxo WHERE id = $1',
-      [templateId]
+  // Get template (with the parameters to ask for before creating a flow)
+  async getTemplate(tenantId: string, templateId: string) {
+    const result = await db.query(
+      'SELECT * FROM templates_fluxo WHERE id = $1 AND (is_public = true OR tenant_id = $2)',
+      [templateId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Template not found', 404);
+    }
+
+    return mapTemplateFromDb(result.rows[0]);
+  }
+
+  // Save flow as a private template; parameter targets are stripped from the stored graph
+  async saveAsTemplate(tenantId: string, flowId: string, data: SaveAsTemplateData, userId?: string) {
+    const flow = await this.getById(tenantId, flowId);
+    const graph = { nodes: flow.nodes, triggerConfig: flow.trigger_config || {} };
+
+    const problems = missingTargets(graph, data.parameters);
+    const keys = data.parameters.map((parameter) => parameter.key);
+    keys.filter((key, index) => keys.indexOf(key) !== index).forEach((key) => problems.push(`${key}: duplicate key`));
+    if (problems.length > 0) {
+      throw new AppError('Invalid template parameters', 400, 'TEMPLATE_PARAMETERS_INVALID', { problems });
+    }
+
+    const declared = data.autoParameters
+      ? [...data.parameters, ...inferParameters(graph, data.parameters)]
+      : data.parameters;
+    const { graph: stripped, parameters } = parameterizeGraph(graph, declared);
+
+    const result = await db.query(
+      `INSERT INTO templates_fluxo (
+        tenant_id, nome, descricao, categoria, tipo, icone, trigger_type, trigger_config,
+        nodes, edges, variables, parametros, is_public, criado_por, fluxo_origem_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, false, $13, $14)
+      RETURNING *`,
+      [
+        tenantId,
+        data.name || flow.name,
+        data.description ?? flow.description,
+        data.category || null,
+        flow.type,
+        data.icon || null,
+        flow.trigger_type,
+        JSON.stringify(stripped.triggerConfig),
+        JSON.stringify(stripped.nodes),
+        JSON.stringify(flow.edges),
+        JSON.stringify(flow.variables),
+        JSON.stringify(parameters),
+        userId || null,
+        flow.id,
+      ]
+    );
+
+    return mapTemplateFromDb(result.rows[0]);
+  }
+
+  // Publish a tenant template to every tenant (or take it back); tenantId null = any tenant (platform admin)
+  async publishTemplate(tenantId: string | null, templateId: string, publish: boolean, userId?: string) {
+    const result = await db.query(
+      `UPDATE templates_fluxo SET
+        is_public = $3,
+        publicado_em = CASE WHEN $3 THEN CURRENT_TIMESTAMP ELSE NULL END,
+        publicado_por = CASE WHEN $3 THEN $4::uuid ELSE NULL END,
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND tenant_id = COALESCE($2::uuid, tenant_id)
+       RETURNING *`,
+      [templateId, tenantId, publish, userId || null]
     );
 
-    if (templateResult.rows.length === 0) {
+    if (result.rows.length === 0) {
       throw new AppError('Template not found', 404);
     }
 
-    const template = templateResult.rows[0];
+    return mapTemplateFromDb(result.rows[0]);
+  }
+
+  // Create flow from template; missing or invalid parameters are returned so the client can ask for them
+  async createFromTemplate(tenantId: string, data: CreateFromTemplateData) {
+    const template = await this.getTemplate(tenantId, data.templateId);
+    const parameters: TemplateParameter[] = template.parameters;
+
+    const problems = checkParameterValues(parameters, data.parameters);
+
+    // Agents, channels and conversations must belong to this tenant
+    for (const parameter of parameters.filter(isReferenceParameter)) {
+      const value = data.parameters[parameter.key];
+      if (problems[parameter.key] || typeof value !== 'string' || value === '') continue;
+
+      const found = isReferenceId(value) ? await this.findTenantRecords(tenantId, parameter.type, [value]) : new Map();
+      if (!found.has(value)) {
+        problems[parameter.key] = `${parameter.type} not found`;
+      }
+    }
+
+    if (Object.keys(problems).length > 0) {
+      throw new AppError('Template parameters are missing or invalid', 422, 'TEMPLATE_PARAMETERS_REQUIRED', {
+        problems,
+        parameters,
+      });
+    }
+
+    const graph = applyParameters({ nodes: template.nodes, triggerConfig: template.trigger_config }, parameters, data.parameters);
 
     // Create flow from template
     const result = await db.query(
       `INSERT INTO fluxos (
-        tenant_id, nome, descricao, tipo, nodes, edges, variables
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        tenant_id, nome, descricao, tipo, trigger_type, trigger_config, nodes, edges, variables
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING *`,
       [
         tenantId,
-        name || template.nome,
-        template.descricao,
-        template.tipo,
-        JSON.stringify(template.nodes || []),
-        JSON.stringify(template.edges || []),
-        JSON.stringify(template.variables || {}),
+        data.name || template.name,
+        template.description,
+        template.type,
+        template.trigger_type,
+        JSON.stringify(graph.triggerConfig),
+        JSON.stringify(graph.nodes),
+        JSON.stringify(template.edges),
+        JSON.stringify(template.variables),
       ]
     );
 
     // Increment template usage count
     await db.query(
       'UPDATE templates_fluxo SET uso_count = uso_count + 1 WHERE id = $1',
-      [templateId]
+      [data.templateId]
     );
 
     return mapFlowFromDb(result.rows[0]);
@@ -543,6 +1696,174 @@ class FlowsService {
 
     return mapFlowFromDb(result.rows[0]);
   }
+
+  // Export flow as a portable bundle
+  async exportFlow(tenantId: string, flowId: string): Promise<FlowBundle> {
+    const flow = await this.getById(tenantId, flowId);
+
+    const references = collectReferences({ nodes: flow.nodes, triggerConfig: flow.trigger_config || {} });
+    await this.labelReferences(tenantId, references);
+
+    return {
+      format: FLOW_BUNDLE_FORMAT,
+      formatVersion: FLOW_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: { flowId: flow.id, version: flow.version },
+      requirements: {
+        nodeTypes: Array.from(new Set<string>(flow.nodes.map((node: any) => node.type))),
+        credentials: collectCredentials(flow.nodes),
+      },
+      flow: {
+        name: flow.name,
+        description: flow.description,
+        type: flow.type,
+        triggerType: flow.trigger_type,
+        triggerConfig: flow.trigger_config || {},
+        nodes: flow.nodes,
+        edges: flow.edges,
+        variables: flow.variables,
+        tags: flow.tags,
+      },
+      references,
+    };
+  }
+
+  // Import a bundle as a new draft flow. Node ids are local to a flow and kept as they are
+  // (expressions read nodes.<id>); ids of tenant records are remapped through the bindings.
+  async importFlow(tenantId: string, data: ImportFlowData) {
+    const { bundle } = data;
+    const incompatibilities: Array<{ code: string; message: string; nodeId?: string }> = [];
+
+    if (bundle.formatVersion > FLOW_BUNDLE_VERSION) {
+      incompatibilities.push({
+        code: 'UNSUPPORTED_FORMAT_VERSION',
+        message: `Bundle format version ${bundle.formatVersion} is newer than the supported ${FLOW_BUNDLE_VERSION}`,
+      });
+    }
+    if (bundle.flow.triggerType && !(triggerTypes as readonly string[]).includes(bundle.flow.triggerType)) {
+      incompatibilities.push({ code: 'UNKNOWN_TRIGGER_TYPE', message: `Unknown trigger type: ${bundle.flow.triggerType}` });
+    }
+
+    // Resolve every referenced record: explicit binding, same id in this tenant, or unresolved
+    const references = collectReferences(bundle.flow);
+    const bindings = new Map<string, string | null>();
+    const resolved = [];
+
+    for (const kind of Object.keys(REFERENCE_TABLES) as NodeReferenceKind[]) {
+      const ofKind = references.filter((reference) => reference.kind === kind);
+      if (ofKind.length === 0) continue;
+
+      const candidates = ofKind.map((reference) => data.bindings[reference.id] ?? reference.id);
+      const existing = await this.findTenantRecords(tenantId, kind, candidates.filter((id): id is string => !!id));
+
+      for (const reference of ofKind) {
+        const label = bundle.references.find((item) => item.id === reference.id)?.label ?? null;
+        const explicit = reference.id in data.bindings;
+        const target = explicit ? data.bindings[reference.id] : reference.id;
+
+        let status: 'bound' | 'auto' | 'cleared' | 'unresolved' | 'invalid';
+        if (target === null) {
+          status = 'cleared';
+        } else if (existing.has(target)) {
+          status = explicit ? 'bound' : 'auto';
+        } else {
+          status = explicit ? 'invalid' : 'unresolved';
+        }
+
+        if (status === 'bound' || status === 'auto' || status === 'cleared') {
+          bindings.set(reference.id, target);
+        }
+        resolved.push({ ...reference, label, boundTo: target, status });
+      }
+    }
+
+    const remapped = applyBindings(bundle.flow, bindings);
+
+    const report = flowValidator.validate({
+      nodes: remapped.nodes,
+      edges: bundle.flow.edges,
+      variables: bundle.flow.variables,
+      triggerType: bundle.flow.triggerType,
+      triggerConfig: remapped.triggerConfig,
+    });
+    for (const diagnostic of report.diagnostics) {
+      if (diagnostic.severity === 'error' && IMPORT_BLOCKING_CODES.includes(diagnostic.code)) {
+        incompatibilities.push({ code: diagnostic.code, message: diagnostic.message, nodeId: diagnostic.nodeId });
+      }
+    }
+
+    // Credentials are not part of the bundle; missing ones only need to be created before the flow runs
+    const credentials = collectCredentials(remapped.nodes);
+    const existingCredentials = await credentialsService.existingNames(tenantId, credentials);
+
+    const unresolved = resolved.filter((reference) => reference.status === 'unresolved' || reference.status === 'invalid');
+    const summary = {
+      compatible: incompatibilities.length === 0,
+      references: resolved,
+      unresolved: unresolved.length,
+      missingCredentials: credentials.filter((name) => !existingCredentials.has(name)),
+      incompatibilities,
+      warnings: report.diagnostics.filter((diagnostic) => !IMPORT_BLOCKING_CODES.includes(diagnostic.code)),
+    };
+
+    if (data.dryRun) {
+      return { ...summary, flow: null };
+    }
+
+    if (incompatibilities.length > 0 || unresolved.length > 0) {
+      throw new AppError('Flow bundle cannot be imported', 422, 'IMPORT_INCOMPATIBLE', summary);
+    }
+
+    const result = await db.query(
+      `INSERT INTO fluxos (
+        tenant_id, nome, descricao, tipo, trigger_type, trigger_config,
+        nodes, edges, variables, tags, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [
+        tenantId,
+        data.name || bundle.flow.name,
+        bundle.flow.description || null,
+        bundle.flow.type,
+        bundle.flow.triggerType || null,
+        JSON.stringify(remapped.triggerConfig || {}),
+        JSON.stringify(remapped.nodes),
+        JSON.stringify(bundle.flow.edges),
+        JSON.stringify(bundle.flow.variables),
+        JSON.stringify(bundle.flow.tags),
+        JSON.stringify({ importedFrom: bundle.source ?? null, importedAt: new Date().toISOString() }),
+      ]
+    );
+
+    return { ...summary, flow: mapFlowFromDb(result.rows[0]) };
+  }
+
+  private async labelReferences(tenantId: string, references: BundleReference[]) {
+    for (const kind of Object.keys(REFERENCE_TABLES) as NodeReferenceKind[]) {
+      const ofKind = references.filter((reference) => reference.kind === kind);
+      if (ofKind.length === 0) continue;
+
+      const records = await this.findTenantRecords(tenantId, kind, ofKind.map((reference) => reference.id));
+      ofKind.forEach((reference) => {
+        reference.label = records.get(reference.id) ?? null;
+      });
+    }
+  }
+
+  // id -> label of the tenant's records of one kind
+  private async findTenantRecords(tenantId: string, kind: NodeReferenceKind, ids: string[]): Promise<Map<string, string | null>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const { table, label } = REFERENCE_TABLES[kind];
+    const result = await db.query(
+      `SELECT id, ${label} AS label FROM ${table} WHERE tenant_id = $1 AND id = ANY($2::uuid[])`,
+      [tenantId, ids]
+    );
+
+    return new Map(result.rows.map((row) => [row.id, row.label ?? null]));
+  }
 }
 
 export const flowsService = new FlowsService();
@@ -0,0 +1,151 @@
+import { FlowNode, TemplateParameter, TemplateTarget } from './flows.schema.js';
+import { collectReferences } from './flows.bundle.js';
+import { NodeReferenceKind } from './flows.nodes.js';
+
+interface TemplateGraph {
+  nodes: FlowNode[];
+  triggerConfig: Record<string, any>;
+}
+
+const REFERENCE_TYPES: TemplateParameter['type'][] = ['agent', 'channel', 'conversation'];
+
+export const isReferenceParameter = (parameter: TemplateParameter): parameter is TemplateParameter & { type: NodeReferenceKind } =>
+  REFERENCE_TYPES.includes(parameter.type);
+
+const sameTarget = (a: TemplateTarget, b: TemplateTarget) =>
+  a.location === 'node' && b.location === 'node'
+    ? a.nodeId === b.nodeId && a.field === b.field
+    : a.location === 'trigger' && b.location === 'trigger' && a.filter === b.filter;
+
+const readTarget = (graph: TemplateGraph, target: TemplateTarget): any => {
+  if (target.location === 'trigger') {
+    return graph.triggerConfig.filters?.[target.filter];
+  }
+  return graph.nodes.find((node) => node.id === target.nodeId)?.data?.[target.field];
+};
+
+// Returns a copy; null or undefined removes the field or filter
+const writeTarget = (graph: TemplateGraph, target: TemplateTarget, value: any): TemplateGraph => {
+  const empty = value === null || value === undefined;
+
+  if (target.location === 'trigger') {
+    const filters = { ...(graph.triggerConfig.filters || {}) };
+    if (empty) {
+      delete filters[target.filter];
+    } else {
+      filters[target.filter] = value;
+    }
+    return { ...graph, triggerConfig: { ...graph.triggerConfig, filters } };
+  }
+
+  const nodes = graph.nodes.map((node) => {
+    if (node.id !== target.nodeId) return node;
+
+    const data = { ...(node.data || {}) };
+    if (empty) {
+      delete data[target.field];
+    } else {
+      data[target.field] = value;
+    }
+    return { ...node, data };
+  });
+  return { ...graph, nodes };
+};
+
+// Targets pointing at nodes the flow does not have
+export const missingTargets = (graph: TemplateGraph, parameters: TemplateParameter[]): string[] => {
+  const nodeIds = new Set(graph.nodes.map((node) => node.id));
+
+  return parameters.flatMap((parameter) => parameter.targets
+    .filter((target) => target.location === 'node' && !nodeIds.has(target.nodeId))
+    .map((target) => `${parameter.key}: node ${(target as { nodeId: string }).nodeId} does not exist`));
+};
+
+// Parameters for the agent, channel and conversation references not covered by explicit ones
+export const inferParameters = (graph: TemplateGraph, explicit: TemplateParameter[]): TemplateParameter[] => {
+  const covered = explicit.flatMap((parameter) => parameter.targets);
+  const keys = new Set(explicit.map((parameter) => parameter.key));
+  const inferred: TemplateParameter[] = [];
+
+  for (const reference of collectReferences(graph)) {
+    const targets = reference.usages.filter((usage) => !covered.some((target) => sameTarget(target, usage)));
+    if (targets.length === 0) continue;
+
+    let key: string = reference.kind;
+    for (let index = 2; keys.has(key); index++) {
+      key = `${reference.kind}${index}`;
+    }
+    keys.add(key);
+
+    inferred.push({
+      key,
+      label: reference.kind.charAt(0).toUpperCase() + reference.kind.slice(1),
+      type: reference.kind,
+      // Without a conversation the nodes use the one that triggered the flow
+      required: reference.kind !== 'conversation',
+      default: undefined,
+      targets,
+    });
+    covered.push(...targets);
+  }
+
+  return inferred;
+};
+
+// Strip parameter targets from the graph. Plain values become defaults; ids of
+// tenant records never do, since the template may be used by other tenants.
+export const parameterizeGraph = (graph: TemplateGraph, parameters: TemplateParameter[]) => {
+  let stripped = graph;
+
+  const withDefaults = parameters.map((parameter) => {
+    const current = readTarget(graph, parameter.targets[0]);
+    parameter.targets.forEach((target) => {
+      stripped = writeTarget(stripped, target, null);
+    });
+
+    const keepDefault = parameter.default === undefined && !isReferenceParameter(parameter) && current !== undefined;
+    return keepDefault ? { ...parameter, default: current } : parameter;
+  });
+
+  return { graph: stripped, parameters: withDefaults };
+};
+
+// Write parameter values into their targets (trigger filters keep their array form)
+export const applyParameters = (graph: TemplateGraph, parameters: TemplateParameter[], values: Record<string, any>): TemplateGraph => {
+  let result = graph;
+
+  for (const parameter of parameters) {
+    const value = values[parameter.key] ?? parameter.default ?? null;
+    for (const target of parameter.targets) {
+      const wrapped = target.location === 'trigger' && value !== null && isReferenceParameter(parameter) ? [value] : value;
+      result = writeTarget(result, target, wrapped);
+    }
+  }
+
+  return result;
+};
+
+// Problems with the values given for a template, keyed by parameter
+export const checkParameterValues = (parameters: TemplateParameter[], values: Record<string, any>): Record<string, string> => {
+  const problems: Record<string, string> = {};
+
+  for (const parameter of parameters) {
+    const value = values[parameter.key] ?? parameter.default;
+
+    if (value === undefined || value === null || value === '') {
+      if (parameter.required) {
+        problems[parameter.key] = 'Required';
+      }
+      continue;
+    }
+
+    const valid = parameter.type === 'number' ? typeof value === 'number' && Number.isFinite(value)
+      : parameter.type === 'boolean' ? typeof value === 'boolean'
+      : typeof value === 'string';
+    if (!valid) {
+      problems[parameter.key] = `Expected ${parameter.type === 'number' || parameter.type === 'boolean' ? parameter.type : 'string'}`;
+    }
+  }
+
+  return problems;
+};
@@ -0,0 +1,74 @@
+import { db } from '../../config/database.js';
+import { domainEvents, DomainEvent, DomainEventMap } from '../../shared/events/domain-events.js';
+import { flowsService } from './flows.service.js';
+import { resolvePath } from './flows.nodes.js';
+
+// Event flows are configured with trigger_config like:
+// { "event": "message.received", "filters": { "data.message.type": "text" } }
+// Filters are dot paths into the event; an array value matches any of its items.
+const matchesFilters = (event: DomainEvent, filters?: Record<string, any>): boolean => {
+  return Object.entries(filters || {}).every(([path, expected]) => {
+    const actual = resolvePath(event, path);
+    if (Array.isArray(expected)) {
+      return expected.map(String).includes(String(actual));
+    }
+    return String(actual) === String(expected);
+  });
+};
+
+// Flows started by flow.execution_finished may start others in turn; chains stop at this depth
+export const MAX_FLOW_CHAIN_DEPTH = 5;
+
+// Start every active event flow of the tenant that listens to this event
+export const handleDomainEvent = async (event: DomainEvent): Promise<void> => {
+  // A reply to an execution waiting in the conversation belongs to it and starts no new flows
+  if (event.type === 'message.received') {
+    const { conversationId, message } = event.data as DomainEventMap['message.received'];
+    const resumed = await flowsService.resumeOnReply(event.tenantId, conversationId, message);
+    if (resumed > 0) {
+      return;
+    }
+  }
+
+  if (event.type === 'flow.execution_finished') {
+    const { flowId, chainDepth } = event.data as DomainEventMap['flow.execution_finished'];
+    if (chainDepth >= MAX_FLOW_CHAIN_DEPTH) {
+      console.warn(`[Flows] Not starting flows for execution of ${flowId}: chain depth ${chainDepth} reached the limit`);
+      return;
+    }
+  }
+
+  const result = await db.query(
+    `SELECT id, trigger_config FROM fluxos
+     WHERE tenant_id = $1 AND status = 'ativo' AND trigger_type = 'event'
+       AND (trigger_config->>'event' = $2 OR trigger_config->'events' ? $2)`,
+    [event.tenantId, event.type]
+  );
+
+  for (const flow of result.rows) {
+    if (!matchesFilters(event, flow.trigger_config?.filters)) {
+      continue;
+    }
+
+    // A flow started by its own completion would loop forever
+    if (event.type === 'flow.execution_finished' && (event.data as DomainEventMap['flow.execution_finished']).flowId === flow.id) {
+      continue;
+    }
+
+    try {
+      await flowsService.enqueue(event.tenantId, flow.id, {
+        triggerType: 'event',
+        triggerData: { ...event },
+      });
+    } catch (error: any) {
+      // Throttled triggers are already recorded for the flow
+      if (error.code === 'FLOW_THROTTLED') continue;
+      console.error(`[Flows] Failed to start flow ${flow.id} for ${event.type}:`, error.message);
+    }
+  }
+};
+
+export const registerFlowEventTriggers = (): (() => void) => {
+  console.log('[Flows] Event triggers registered');
+  return domainEvents.subscribeAll(handleDomainEvent);
+};
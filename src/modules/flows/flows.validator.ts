@@ -0,0 +1,312 @@
+import { FlowNode, FlowEdge } from './flows.schema.js';
+import { nodeTypeRegistry, NodeTypeDefinition, checkNodeConfig } from './flows.nodes.js';
+import { checkScheduleConfig } from './flows.scheduler.js';
+import { analyzeTemplates } from './flows.expressions.js';
+import { domainEventTypes } from '../../shared/events/domain-events.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface FlowDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface FlowValidationReport {
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  diagnostics: FlowDiagnostic[];
+  byNode: Record<string, FlowDiagnostic[]>; // For highlighting in the editor
+}
+
+interface FlowGraph {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  variables: Record<string, any>;
+  triggerType?: string | null;
+  triggerConfig?: Record<string, any>;
+}
+
+export class FlowValidator {
+  validate(flow: FlowGraph): FlowValidationReport {
+    const diagnostics: FlowDiagnostic[] = [];
+    const nodes = flow.nodes || [];
+    const edges = flow.edges || [];
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+    const definitions = new Map<string, NodeTypeDefinition>();
+
+    // Node types and configs
+    for (const node of nodes) {
+      const definition = nodeTypeRegistry.get(node.type);
+      if (!definition) {
+        diagnostics.push(this.error('UNKNOWN_NODE_TYPE', `Unknown node type: ${node.type}`, { nodeId: node.id }));
+        continue;
+      }
+      definitions.set(node.id, definition);
+
+      for (const issue of checkNodeConfig(definition, node.data)) {
+        diagnostics.push(this.error(
+          'INVALID_NODE_CONFIG',
+          `${issue.path.join('.') || 'data'}: ${issue.message}`,
+          { nodeId: node.id }
+        ));
+      }
+    }
+
+    // Dangling edges and unknown handles
+    const validEdges: FlowEdge[] = [];
+    for (const edge of edges) {
+      const source = nodesById.get(edge.source);
+      const target = nodesById.get(edge.target);
+
+      if (!source) {
+        diagnostics.push(this.error('EDGE_MISSING_SOURCE', `Edge source ${edge.source} does not exist`, { edgeId: edge.id }));
+      }
+      if (!target) {
+        diagnostics.push(this.error('EDGE_MISSING_TARGET', `Edge target ${edge.target} does not exist`, { edgeId: edge.id, nodeId: source?.id }));
+      }
+      if (!source || !target) continue;
+
+      const sourceDefinition = definitions.get(source.id);
+      if (sourceDefinition && edge.sourceHandle && !sourceDefinition.outputs.some((port) => port.id === edge.sourceHandle)) {
+        diagnostics.push(this.error('UNKNOWN_HANDLE', `Node has no output "${edge.sourceHandle}"`, { nodeId: source.id, edgeId: edge.id }));
+      }
+
+      validEdges.push(edge);
+    }
+
+    // Start nodes
+    const startNodes = nodes.filter((node) => definitions.get(node.id)?.category === 'trigger');
+    if (nodes.length > 0 && startNodes.length === 0) {
+      diagnostics.push(this.error('MISSING_START', 'Flow has no trigger or start node'));
+    }
+    if (startNodes.length > 1) {
+      for (const node of startNodes) {
+        diagnostics.push(this.error('MULTIPLE_START', 'Flow has more than one trigger or start node', { nodeId: node.id }));
+      }
+    }
+
+    // Reachability from the start nodes
+    if (startNodes.length > 0) {
+      const reachable = this.reachableFrom(startNodes.map((node) => node.id), validEdges);
+      for (const node of nodes) {
+        if (!reachable.has(node.id)) {
+          diagnostics.push(this.warning('UNREACHABLE_NODE', 'Node can never be reached from the start', { nodeId: node.id }));
+        }
+      }
+    }
+
+    // Required ports
+    for (const node of nodes) {
+      const definition = definitions.get(node.id);
+      if (!definition) continue;
+
+      for (const port of definition.inputs.filter((input) => input.required)) {
+        const connected = validEdges.some((edge) =>
+          edge.target === node.id && (!edge.targetHandle || edge.targetHandle === port.id || definition.inputs.length === 1)
+        );
+        if (!connected) {
+          diagnostics.push(this.error('UNCONNECTED_INPUT', `Required input "${port.label}" is not connected`, { nodeId: node.id }));
+        }
+      }
+
+      for (const port of definition.outputs.filter((output) => output.required)) {
+        const connected = validEdges.some((edge) =>
+          edge.source === node.id && (edge.sourceHandle === port.id || (!edge.sourceHandle && definition.outputs.length === 1))
+        );
+        if (!connected) {
+          diagnostics.push(this.error('UNCONNECTED_OUTPUT', `Required output "${port.label}" is not connected`, { nodeId: node.id }));
+        }
+      }
+    }
+
+    // Cycles without a pause or a way out
+    for (const component of this.cycles(nodes, validEdges)) {
+      const members = new Set(component);
+      const pauses = component.some((nodeId) => definitions.get(nodeId)?.pauses);
+      const exits = validEdges.some((edge) => members.has(edge.source) && !members.has(edge.target));
+
+      if (!pauses && !exits) {
+        for (const nodeId of component) {
+          diagnostics.push(this.error('INFINITE_LOOP', 'Loop has no delay and no exit', { nodeId }));
+        }
+      }
+    }
+
+    // Variables referenced but never defined
+    const defined = new Set(Object.keys(flow.variables || {}));
+    for (const node of nodes) {
+      const definition = definitions.get(node.id);
+      const config = definition?.configSchema.safeParse(node.data ?? {});
+      if (definition?.defines && config?.success) {
+        definition.defines(config.data).forEach((name) => defined.add(name));
+      }
+    }
+    // Expressions in node data: syntax, variables and node outputs they read
+    for (const node of nodes) {
+      const analysis = analyzeTemplates(node.data ?? {});
+
+      for (const message of analysis.errors) {
+        diagnostics.push(this.error('INVALID_EXPRESSION', message, { nodeId: node.id }));
+      }
+
+      for (const name of this.referencedVariables(node, analysis.references)) {
+        if (!defined.has(name)) {
+          diagnostics.push(this.error('UNDEFINED_VARIABLE', `Variable "${name}" is never defined`, { nodeId: node.id }));
+        }
+      }
+
+      const referencedNodes = new Set(analysis.references.filter((path) => path[0] === 'nodes' && path[1]).map((path) => path[1]));
+      for (const nodeId of referencedNodes) {
+        if (!nodesById.has(nodeId)) {
+          diagnostics.push(this.error('UNKNOWN_NODE_REFERENCE', `Expression reads output of unknown node "${nodeId}"`, { nodeId: node.id }));
+        }
+      }
+    }
+
+    diagnostics.push(...this.validateTrigger(flow));
+
+    return this.report(diagnostics);
+  }
+
+  private validateTrigger(flow: FlowGraph): FlowDiagnostic[] {
+    const config = flow.triggerConfig || {};
+
+    if (flow.triggerType === 'event') {
+      const events: string[] = config.events || (config.event ? [config.event] : []);
+      if (events.length === 0) {
+        return [this.error('INVALID_TRIGGER_CONFIG', 'Event trigger needs trigger_config.event')];
+      }
+      return events
+        .filter((event) => !(domainEventTypes as readonly string[]).includes(event))
+        .map((event) => this.error('INVALID_TRIGGER_CONFIG', `Unknown event type: ${event}`));
+    }
+
+    if (flow.triggerType === 'schedule') {
+      const problem = checkScheduleConfig(config);
+      return problem ? [this.error('INVALID_TRIGGER_CONFIG', problem)] : [];
+    }
+
+    if (flow.triggerType === 'webhook' && config.webhookMode && !['sync', 'async'].includes(config.webhookMode)) {
+      return [this.error('INVALID_TRIGGER_CONFIG', `Unknown webhook mode: ${config.webhookMode}`)];
+    }
+
+    return [];
+  }
+
+  private reachableFrom(startIds: string[], edges: FlowEdge[]): Set<string> {
+    const visited = new Set<string>(startIds);
+    const queue = [...startIds];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of edges) {
+        if (edge.source === current && !visited.has(edge.target)) {
+          visited.add(edge.target);
+          queue.push(edge.target);
+        }
+      }
+    }
+
+    return visited;
+  }
+
+  // Strongly connected components that form a loop (Tarjan)
+  private cycles(nodes: FlowNode[], edges: FlowEdge[]): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let counter = 0;
+
+    const connect = (nodeId: string) => {
+      index.set(nodeId, counter);
+      lowLink.set(nodeId, counter);
+      counter++;
+      stack.push(nodeId);
+      onStack.add(nodeId);
+
+      for (const edge of edges.filter((e) => e.source === nodeId)) {
+        if (!index.has(edge.target)) {
+          connect(edge.target);
+          lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(edge.target)!));
+        } else if (onStack.has(edge.target)) {
+          lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(edge.target)!));
+        }
+      }
+
+      if (lowLink.get(nodeId) === index.get(nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== nodeId);
+
+        const selfLoop = edges.some((e) => e.source === nodeId && e.target === nodeId);
+        if (component.length > 1 || selfLoop) {
+          components.push(component);
+        }
+      }
+    };
+
+    for (const node of nodes) {
+      if (!index.has(node.id)) {
+        connect(node.id);
+      }
+    }
+
+    return components;
+  }
+
+  private referencedVariables(node: FlowNode, references: string[][]): string[] {
+    const names = new Set<string>();
+
+    for (const path of references) {
+      if (path[0] === 'vars' && path[1]) {
+        names.add(path[1]);
+      }
+    }
+
+    const field = node.data?.field;
+    if (node.type === 'condition' && typeof field === 'string' && field.startsWith('vars.')) {
+      names.add(field.split('.')[1]);
+    }
+
+    return Array.from(names);
+  }
+
+  private report(diagnostics: FlowDiagnostic[]): FlowValidationReport {
+    const byNode: Record<string, FlowDiagnostic[]> = {};
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.nodeId) {
+        (byNode[diagnostic.nodeId] ||= []).push(diagnostic);
+      }
+    }
+
+    const errors = diagnostics.filter((d) => d.severity === 'error').length;
+
+    return {
+      valid: errors === 0,
+      errors,
+      warnings: diagnostics.length - errors,
+      diagnostics,
+      byNode,
+    };
+  }
+
+  private error(code: string, message: string, target: { nodeId?: string; edgeId?: string } = {}): FlowDiagnostic {
+    return { severity: 'error', code, message, ...target };
+  }
+
+  private warning(code: string, message: string, target: { nodeId?: string; edgeId?: string } = {}): FlowDiagnostic {
+    return { severity: 'warning', code, message, ...target };
+  }
+}
+
+export const flowValidator = new FlowValidator();
@@ -0,0 +1,246 @@
+import { db } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { flowsService, EXECUTION_OWNER_ID } from './flows.service.js';
+import { WITHIN_FLOW_LIMITS } from './flows.limits.js';
+
+// How often executions abandoned by a dead worker are looked for
+const RECOVERY_INTERVAL_MS = 60000;
+
+// Extra time after FLOW_EXECUTION_TIMEOUT_MS before a running execution without heartbeat counts as abandoned
+const RECOVERY_GRACE_MS = 30000;
+
+// Running executions of this process are touched this often; missing beats for HEARTBEAT_STALE_MS means the process died
+const HEARTBEAT_INTERVAL_MS = 30000;
+const HEARTBEAT_STALE_MS = 120000;
+
+// How often suspended executions whose timer is due are queued again
+const RESUME_INTERVAL_MS = 5000;
+
+// Base delay before a failed job is retried (doubles on every attempt)
+const JOB_RETRY_BACKOFF_MS = 5000;
+
+const jobRetryDelay = (attempts: number) => JOB_RETRY_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1));
+
+// Runs queued executions (status 'pendente') claimed with FOR UPDATE SKIP LOCKED,
+// so any number of API processes and standalone workers can share the queue.
+export class FlowWorker {
+  private readonly workerId = EXECUTION_OWNER_ID;
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private resumeTimer: NodeJS.Timeout | null = null;
+  private wakeUps = new Set<() => void>();
+
+  start(concurrency: number = env.FLOW_WORKER_CONCURRENCY): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.startHeartbeat();
+
+    for (let slot = 0; slot < concurrency; slot++) {
+      this.loops.push(this.loop());
+    }
+
+    this.recoveryTimer = setInterval(() => {
+      this.recoverAbandoned().catch((error) => {
+        console.error('[Worker] Recovery failed:', error.message);
+      });
+    }, RECOVERY_INTERVAL_MS);
+
+    this.resumeTimer = setInterval(() => {
+      this.resumeDue().catch((error) => {
+        console.error('[Worker] Resume failed:', error.message);
+      });
+    }, RESUME_INTERVAL_MS);
+
+    console.log(`[Worker] Started ${concurrency} loop(s) as ${this.workerId}`);
+  }
+
+  // Stop claiming new jobs and wait for the running ones to finish
+  async stop(timeoutMs: number = env.FLOW_WORKER_DRAIN_TIMEOUT_MS): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    this.wakeUps.forEach((wake) => wake());
+
+    let timer: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      Promise.all(this.loops).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+    this.loops = [];
+
+    // Unfinished executions stay 'executando' and are picked up again by recoverAbandoned
+    console.log(drained ? '[Worker] Drained' : `[Worker] Drain timed out after ${timeoutMs}ms`);
+  }
+
+  // Also needed without the queue loops: sync webhook and debug runs execute inline in the API
+  startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) => {
+        console.error('[Worker] Heartbeat failed:', error.message);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  async heartbeat(): Promise<number> {
+    const result = await db.query(
+      `UPDATE execucoes_fluxo SET heartbeat_em = CURRENT_TIMESTAMP
+       WHERE status = 'executando' AND worker_id = $1`,
+      [this.workerId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      let job: any = null;
+
+      try {
+        job = await this.claim();
+      } catch (error: any) {
+        console.error('[Worker] Failed to claim execution:', error.message);
+      }
+
+      if (job) {
+        await this.process(job);
+      } else {
+        await this.idle();
+      }
+    }
+  }
+
+  // pendente -> executando (skipping flows at their concurrency or rate limit)
+  private async claim(): Promise<any | null> {
+    const result = await db.query(
+      `UPDATE execucoes_fluxo SET
+        status = 'executando',
+        tentativas = tentativas + 1,
+        worker_id = $1,
+        iniciado_em = CURRENT_TIMESTAMP,
+        heartbeat_em = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT e.id FROM execucoes_fluxo e
+         JOIN fluxos f ON f.id = e.fluxo_id
+         WHERE e.status = 'pendente' AND e.disponivel_em <= CURRENT_TIMESTAMP
+           AND ${WITHIN_FLOW_LIMITS}
+         ORDER BY e.disponivel_em
+         FOR UPDATE OF e SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [this.workerId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Flow errors are final (node retries already ran); infrastructure errors requeue the job
+  private async process(job: any): Promise<void> {
+    try {
+      await flowsService.runExecution(job);
+    } catch (error: any) {
+      console.error(`[Worker] Execution ${job.id} failed (attempt ${job.tentativas}):`, error.message);
+      await this.retryOrFail(job, error.message).catch((updateError) => {
+        console.error(`[Worker] Failed to update execution ${job.id}:`, updateError.message);
+      });
+    }
+  }
+
+  private async retryOrFail(job: any, message: string): Promise<void> {
+    if (job.tentativas < job.max_tentativas) {
+      await db.query(
+        `UPDATE execucoes_fluxo SET status = 'pendente', worker_id = NULL, error_message = $2,
+           disponivel_em = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+         WHERE id = $1`,
+        [job.id, message, jobRetryDelay(job.tentativas)]
+      );
+      return;
+    }
+
+    await db.query(
+      `UPDATE execucoes_fluxo SET status = 'erro', error_message = $2, finalizado_em = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [job.id, message]
+    );
+  }
+
+  // aguardando -> pendente for delays that elapsed and replies that timed out
+  // (retomar_com already holds the timeout payload written at suspension)
+  async resumeDue(): Promise<number> {
+    const result = await db.query(
+      `UPDATE execucoes_fluxo SET status = 'pendente', aguardando_ate = NULL, disponivel_em = CURRENT_TIMESTAMP
+       WHERE status = 'aguardando' AND aguardando_ate <= CURRENT_TIMESTAMP
+       RETURNING id`
+    );
+
+    if (result.rows.length > 0) {
+      this.wakeUps.forEach((wake) => wake());
+    }
+
+    return result.rows.length;
+  }
+
+  // Requeue executions whose process died mid-run (queue claims and inline runs alike).
+  // Debug runs cannot resume without their debugger session, so they fail instead.
+  // Rows from before heartbeats fall back to the execution timeout.
+  async recoverAbandoned(): Promise<number> {
+    const result = await db.query(
+      `UPDATE execucoes_fluxo SET
+        status = CASE WHEN COALESCE(modo, 'normal') <> 'debug' AND tentativas < max_tentativas THEN 'pendente' ELSE 'erro' END,
+        error_message = 'Execution abandoned by worker ' || COALESCE(worker_id, 'unknown'),
+        finalizado_em = CASE WHEN COALESCE(modo, 'normal') <> 'debug' AND tentativas < max_tentativas THEN NULL ELSE CURRENT_TIMESTAMP END,
+        disponivel_em = CURRENT_TIMESTAMP,
+        worker_id = NULL,
+        heartbeat_em = NULL
+       WHERE status = 'executando' AND (
+         heartbeat_em < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+         OR (heartbeat_em IS NULL AND iniciado_em < CURRENT_TIMESTAMP - ($2 || ' milliseconds')::interval)
+       )
+       RETURNING id`,
+      [HEARTBEAT_STALE_MS, env.FLOW_EXECUTION_TIMEOUT_MS + RECOVERY_GRACE_MS]
+    );
+
+    if (result.rows.length > 0) {
+      console.log(`[Worker] Recovered ${result.rows.length} abandoned execution(s)`);
+    }
+
+    return result.rows.length;
+  }
+
+  private idle(): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.wakeUps.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, env.FLOW_WORKER_POLL_INTERVAL_MS);
+      this.wakeUps.add(wake);
+    });
+  }
+}
+
+export const flowWorker = new FlowWorker();
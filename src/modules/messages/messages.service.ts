@@ -3,6 +3,7 @@ import { NotFoundError } from '../../shared/middleware/error.middleware.js';
 import { CreateMessageDTO } from './messages.schema.js';
 import { conversationsService } from '../conversations/conversations.service.js';
 import { emitNewMessage } from '../../config/socket.js';
+import { domainEvents } from '../../shared/events/domain-events.js';
 
 // Interface que reflete o schema da tabela mensagens no banco (PT)
 interface MessageDB {
@@ -228,6 +229,12 @@ export class MessagesService {
       // Emit socket event for real-time updates
       emitNewMessage(tenantId, data.conversationId, messageResponse);
 
+      domainEvents.publish(
+        data.senderType === 'customer' ? 'message.received' : 'message.sent',
+        tenantId,
+        { conversationId: data.conversationId, message: messageResponse }
+      );
+
       return messageResponse;
     } catch (dbError: any) {
       if (dbError.code === '42P01' || dbError.code === '42703') {
@@ -369,6 +376,12 @@ export class MessagesService {
       // Emit socket event for real-time updates
       emitNewMessage(tenantId, conversationId, messageResponse);
 
+      domainEvents.publish(
+        data.senderType === 'customer' ? 'message.received' : 'message.sent',
+        tenantId,
+        { conversationId, message: messageResponse }
+      );
+
       return messageResponse;
     } catch {
       return null;
@@ -1,6 +1,8 @@
 import { db } from '../../config/database.js';
 import { NotFoundError } from '../../shared/middleware/error.middleware.js';
 import { CreateProductDTO, UpdateProductDTO } from './products.dto.js';
+import { env } from '../../config/env.js';
+import { domainEvents } from '../../shared/events/domain-events.js';
 
 // Interface que reflete o schema da tabela "produtos" na migration 002
 interface ProductDB {
@@ -367,7 +369,26 @@ export class ProductsService {
         throw new NotFoundError('Product');
       }
 
-      return mapProductToResponse(result.rows[0]);
+      const product = mapProductToResponse(result.rows[0]);
+
+      // Avisar quando o estoque cruza o limite mínimo (limite por produto ou global)
+      const threshold = Number(product.attributes?.low_stock_threshold ?? env.LOW_STOCK_THRESHOLD);
+      if (current.stock_quantity > threshold && product.stock_quantity <= threshold) {
+        domainEvents.publish('product.stock_low', tenantId, {
+          productId: product.id,
+          stock: product.stock_quantity,
+          threshold,
+          product,
+        });
+      }
+
+      domainEvents.publish('product.updated', tenantId, {
+        productId: product.id,
+        changes: Object.keys(data).filter((key) => data[key as keyof UpdateProductDTO] !== undefined),
+        product,
+      });
+
+      return product;
     } catch (dbError: any) {
       if (dbError.code === '42P01') {
         throw new NotFoundError('Product');
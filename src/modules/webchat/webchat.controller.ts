@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { webchatService } from './webchat.service.js';
+import {
+  startSessionSchema,
+  updateVisitorSchema,
+  sendVisitorMessageSchema,
+  uploadAttachmentSchema,
+  listVisitorMessagesSchema,
+} from './webchat.schema.js';
+import { ValidationError } from '../../shared/middleware/error.middleware.js';
+import { sendSuccess, sendCreated } from '../../shared/utils/response.utils.js';
+
+// Canal e sessão vêm dos middlewares de webchat.routes (res.locals)
+export class WebchatController {
+  async getConfig(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      sendSuccess(res, webchatService.getConfig(res.locals.channel));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async startSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = startSessionSchema.parse(req.body);
+      const session = await webchatService.startSession(res.locals.channel, data, {
+        origin: req.headers.origin,
+        userAgent: req.headers['user-agent'],
+      });
+      sendCreated(res, session);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      sendSuccess(res, webchatService.getSession(res.locals.session));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSession(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = updateVisitorSchema.parse(req.body);
+      const session = await webchatService.updateVisitor(res.locals.channel, res.locals.session, data);
+      sendSuccess(res, session);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listMessages(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const params = listVisitorMessagesSchema.parse(req.query);
+      const messages = await webchatService.listMessages(res.locals.session, params);
+      sendSuccess(res, messages);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async sendMessage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = sendVisitorMessageSchema.parse(req.body);
+      const message = await webchatService.sendMessage(res.locals.channel, res.locals.session, data);
+      sendCreated(res, message);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async uploadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        throw new ValidationError('No file uploaded');
+      }
+
+      const data = uploadAttachmentSchema.parse(req.body);
+      const message = await webchatService.sendAttachment(res.locals.channel, res.locals.session, req.file, data);
+      sendCreated(res, message);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const webchatController = new WebchatController();
@@ -0,0 +1,165 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { webchatController } from './webchat.controller.js';
+import { webchatService } from './webchat.service.js';
+import { webchatParamsSchema } from './webchat.schema.js';
+import { ForbiddenError, ValidationError } from '../../shared/middleware/error.middleware.js';
+import { rateLimit } from '../../shared/middleware/rate-limit.middleware.js';
+import { env } from '../../config/env.js';
+
+// Rotas públicas do widget: /v1/public/webchat/:channelId
+const router = Router({ mergeParams: true });
+
+const startsWith = (header: Buffer, signature: string | number[], offset = 0) => {
+  const bytes = Buffer.from(typeof signature === 'string' ? Buffer.from(signature, 'latin1') : signature);
+  return header.length >= offset + bytes.length && header.subarray(offset, offset + bytes.length).equals(bytes);
+};
+
+const isZip = (header: Buffer) => startsWith(header, 'PK\x03\x04');
+const isOle = (header: Buffer) => startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const isMatroska = (header: Buffer) => startsWith(header, [0x1a, 0x45, 0xdf, 0xa3]);
+const isIsoMedia = (header: Buffer) => startsWith(header, 'ftyp', 4);
+
+// Tipos aceitos: a extensão gravada vem daqui (nunca do nome enviado) e o conteúdo precisa
+// começar com a assinatura do tipo. Sem SVG/HTML: os arquivos são servidos pelo domínio da API
+const allowedTypes: Record<string, { ext: string; matches: (header: Buffer) => boolean }> = {
+  'image/jpeg': { ext: '.jpg', matches: (header) => startsWith(header, [0xff, 0xd8, 0xff]) },
+  'image/png': { ext: '.png', matches: (header) => startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  'image/gif': { ext: '.gif', matches: (header) => startsWith(header, 'GIF87a') || startsWith(header, 'GIF89a') },
+  'image/webp': { ext: '.webp', matches: (header) => startsWith(header, 'RIFF') && startsWith(header, 'WEBP', 8) },
+  'audio/mpeg': {
+    ext: '.mp3',
+    matches: (header) => startsWith(header, 'ID3') || (header[0] === 0xff && (header[1] & 0xe0) === 0xe0),
+  },
+  'audio/ogg': { ext: '.ogg', matches: (header) => startsWith(header, 'OggS') },
+  'audio/webm': { ext: '.weba', matches: isMatroska },
+  'audio/wav': { ext: '.wav', matches: (header) => startsWith(header, 'RIFF') && startsWith(header, 'WAVE', 8) },
+  'audio/mp4': { ext: '.m4a', matches: isIsoMedia },
+  'video/mp4': { ext: '.mp4', matches: isIsoMedia },
+  'video/webm': { ext: '.webm', matches: isMatroska },
+  'application/pdf': { ext: '.pdf', matches: (header) => startsWith(header, '%PDF-') },
+  'application/msword': { ext: '.doc', matches: isOle },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { ext: '.docx', matches: isZip },
+  'application/vnd.ms-excel': { ext: '.xls', matches: isOle },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { ext: '.xlsx', matches: isZip },
+  'text/plain': { ext: '.txt', matches: (header) => !header.includes(0) },
+};
+
+const SIGNATURE_BYTES = 4096;
+
+// Anexos enviados pelo visitante (servidos em /uploads/webchat)
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, path.join(env.UPLOADS_DIR, 'webchat'));
+  },
+  filename: (req, file, cb) => {
+    cb(null, `${uuidv4()}${allowedTypes[file.mimetype].ext}`);
+  },
+});
+
+const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (Object.hasOwn(allowedTypes, file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new ValidationError(`File type not allowed: ${file.mimetype}`));
+  }
+};
+
+const upload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: env.MAX_FILE_SIZE,
+    files: 1,
+  },
+});
+
+// Canal web com widget habilitado e Origin permitido
+const loadChannel = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { channelId } = webchatParamsSchema.parse(req.params);
+    res.locals.channel = await webchatService.getChannel(channelId, req.headers.origin);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Token do visitante: Authorization: Bearer <token>
+const authenticateVisitor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = req.headers.authorization?.replace('Bearer ', '');
+    res.locals.session = await webchatService.authenticate(res.locals.channel.id, token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// O mimetype vem do navegador: o arquivo gravado precisa ter a assinatura do tipo declarado
+const verifyContent = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.file) return next();
+
+  try {
+    const handle = await fs.open(req.file.path, 'r');
+    const { buffer, bytesRead } = await handle
+      .read(Buffer.alloc(SIGNATURE_BYTES), 0, SIGNATURE_BYTES, 0)
+      .finally(() => handle.close());
+
+    if (allowedTypes[req.file.mimetype].matches(buffer.subarray(0, bytesRead))) {
+      return next();
+    }
+
+    await fs.unlink(req.file.path);
+    next(new ValidationError(`File content does not match ${req.file.mimetype}`));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Rotas públicas: limites por IP para iniciar sessões e por visitante para mensagens e anexos
+const sessionsLimit = rateLimit({
+  windowMs: 10 * 60 * 1000,
+  max: 20,
+  key: (req, res) => `${res.locals.channel.id}:${req.ip}`,
+});
+
+const messagesLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: 30,
+  key: (req, res) => res.locals.session.id,
+});
+
+const attachmentsLimit = rateLimit({
+  windowMs: 10 * 60 * 1000,
+  max: 30,
+  key: (req, res) => res.locals.session.id,
+});
+
+const attachmentsEnabled = (req: Request, res: Response, next: NextFunction) => {
+  if (res.locals.channel.configuracoes?.widget?.allowAttachments === false) {
+    return next(new ForbiddenError('Attachments are disabled for this widget'));
+  }
+  next();
+};
+
+router.use(loadChannel);
+
+router.get('/config', (req, res, next) => webchatController.getConfig(req, res, next));
+router.post('/sessions', sessionsLimit, (req, res, next) => webchatController.startSession(req, res, next));
+
+// Rotas do visitante
+router.use(authenticateVisitor);
+
+router.get('/session', (req, res, next) => webchatController.getSession(req, res, next));
+router.patch('/session', (req, res, next) => webchatController.updateSession(req, res, next));
+router.get('/messages', (req, res, next) => webchatController.listMessages(req, res, next));
+router.post('/messages', messagesLimit, (req, res, next) => webchatController.sendMessage(req, res, next));
+router.post('/attachments', attachmentsEnabled, attachmentsLimit, upload.single('file'), verifyContent, (req, res, next) =>
+  webchatController.uploadAttachment(req, res, next)
+);
+
+export default router;
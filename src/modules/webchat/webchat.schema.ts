@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+export const webchatParamsSchema = z.object({
+  channelId: z.string().uuid('Invalid channel id'),
+});
+
+// Dados opcionais do visitante (obrigatórios conforme widget.visitorFields)
+const visitorSchema = {
+  name: z.string().trim().min(1).max(255).optional(),
+  email: z.string().trim().email('Invalid email').max(255).optional(),
+  phone: z.string().trim().regex(/^\+?[0-9\s().-]{6,30}$/, 'Invalid phone').optional(),
+};
+
+export const startSessionSchema = z.object(visitorSchema);
+
+export const updateVisitorSchema = z.object(visitorSchema).refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  'At least one field is required'
+);
+
+export const sendVisitorMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Content is required').max(5000),
+  // Id gerado pelo widget; reenvios com o mesmo id não duplicam a mensagem
+  clientId: z.string().min(1).max(100).optional(),
+});
+
+export const uploadAttachmentSchema = z.object({
+  caption: z.string().trim().max(1000).optional(),
+  clientId: z.string().min(1).max(100).optional(),
+});
+
+export const listVisitorMessagesSchema = z.object({
+  before: z.string().datetime().optional(),
+  after: z.string().datetime().optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+export type StartSessionDTO = z.infer<typeof startSessionSchema>;
+export type UpdateVisitorDTO = z.infer<typeof updateVisitorSchema>;
+export type SendVisitorMessageDTO = z.infer<typeof sendVisitorMessageSchema>;
+export type UploadAttachmentDTO = z.infer<typeof uploadAttachmentSchema>;
+export type ListVisitorMessagesDTO = z.infer<typeof listVisitorMessagesSchema>;
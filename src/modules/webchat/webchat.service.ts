@@ -0,0 +1,469 @@
+import crypto from 'crypto';
+import { db } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { emitToVisitor, getIO, webchatNamespace } from '../../config/socket.js';
+import {
+  AppError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '../../shared/middleware/error.middleware.js';
+import { channelInbound, InboundMessageType } from '../channels/channels.inbound.js';
+import { OutboundMessage } from '../channels/channels.outbound.js';
+import { WidgetSettings } from '../channels/channels.schema.js';
+import {
+  ListVisitorMessagesDTO,
+  SendVisitorMessageDTO,
+  StartSessionDTO,
+  UpdateVisitorDTO,
+  UploadAttachmentDTO,
+} from './webchat.schema.js';
+
+// Canal web com o widget habilitado
+export interface WebchatChannel {
+  id: string;
+  tenant_id: string;
+  tipo: string;
+  nome: string;
+  configuracoes: Record<string, any> | null;
+}
+
+// Linha de webchat_sessoes
+export interface VisitorSession {
+  id: string;
+  tenant_id: string;
+  canal_id: string;
+  contato_id: string | null;
+  conversa_id: string | null;
+  nome: string | null;
+  email: string | null;
+  telefone: string | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+// Mensagem como o widget exibe
+export interface VisitorMessage {
+  id: string;
+  conversationId: string | null;
+  sender: 'visitor' | 'agent' | 'bot';
+  type: string;
+  content: string;
+  metadata: Record<string, any>;
+  createdAt: Date | string;
+}
+
+type VisitorField = 'name' | 'email' | 'phone';
+type VisitorFieldMode = 'hidden' | 'optional' | 'required';
+
+const VISITOR_FIELDS: VisitorField[] = ['name', 'email', 'phone'];
+
+// Remetentes exibidos ao visitante; notas do sistema ficam só no painel
+const VISIBLE_SENDERS = ['cliente', 'customer', 'agente', 'agent', 'bot'];
+
+// Campos de metadata que o widget usa para renderizar a mensagem
+const VISIBLE_METADATA = ['mediaUrl', 'fileName', 'media', 'location', 'buttons', 'list', 'header', 'footer'];
+
+const senderToVisitor: Record<string, VisitorMessage['sender']> = {
+  cliente: 'visitor',
+  customer: 'visitor',
+  agente: 'agent',
+  agent: 'agent',
+  bot: 'bot',
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const visibleMetadata = (metadata: Record<string, any> | null | undefined): Record<string, any> => {
+  const visible: Record<string, any> = {};
+  for (const key of VISIBLE_METADATA) {
+    if (metadata?.[key] !== undefined) {
+      visible[key] = metadata[key];
+    }
+  }
+  return visible;
+};
+
+const mapMessageRow = (row: any): VisitorMessage => ({
+  id: row.id,
+  conversationId: row.conversa_id,
+  sender: senderToVisitor[row.remetente_tipo] || 'bot',
+  type: row.tipo,
+  content: row.conteudo,
+  metadata: visibleMetadata(row.metadata),
+  createdAt: row.created_at,
+});
+
+const mapSession = (session: VisitorSession) => ({
+  visitorId: session.id,
+  name: session.nome,
+  email: session.email,
+  phone: session.telefone,
+  conversationId: session.conversa_id,
+  expiresAt: session.expires_at,
+});
+
+// "HH:MM" no fuso do horário de atendimento
+const localTime = (date: Date, timezone: string): string =>
+  new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date);
+
+// Horário de atendimento das configurações do canal; aceita intervalos que passam da meia-noite
+export const isWithinBusinessHours = (
+  businessHours: { enabled: boolean; start: string; end: string; timezone: string } | undefined,
+  now: Date = new Date()
+): boolean => {
+  if (!businessHours?.enabled) {
+    return true;
+  }
+
+  let current: string;
+  try {
+    current = localTime(now, businessHours.timezone || 'UTC');
+  } catch {
+    // Fuso inválido: o widget não fica offline por erro de configuração
+    return true;
+  }
+
+  const { start, end } = businessHours;
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+};
+
+// Origin da página comparado com widget.allowedOrigins; sem Origin (apps, servidores) passa
+const isOriginAllowed = (widget: WidgetSettings, origin: string | undefined): boolean => {
+  if (!origin || !widget.allowedOrigins?.length) {
+    return true;
+  }
+  return widget.allowedOrigins.some((allowed) => {
+    try {
+      return new URL(allowed).origin === origin;
+    } catch {
+      return false;
+    }
+  });
+};
+
+const ATTACHMENT_TYPES: Array<[RegExp, InboundMessageType]> = [
+  [/^image\//, 'image'],
+  [/^audio\//, 'audio'],
+  [/^video\//, 'video'],
+];
+
+export class WebchatService {
+  // Canal web conectado e com widget habilitado; demais casos não existem para o visitante
+  async getChannel(channelId: string, origin?: string): Promise<WebchatChannel> {
+    const result = await db.query(
+      `SELECT id, tenant_id, tipo, nome, status, configuracoes FROM canais WHERE id = $1 AND tipo = 'web'`,
+      [channelId]
+    );
+
+    const row = result.rows[0];
+    const widget = row?.configuracoes?.widget as WidgetSettings | undefined;
+    if (!row || row.status !== 'conectado' || !widget || widget.enabled === false) {
+      throw new NotFoundError('Channel');
+    }
+
+    if (!isOriginAllowed(widget, origin)) {
+      throw new ForbiddenError('Origin not allowed for this widget');
+    }
+
+    const { status, ...channel } = row;
+    return channel;
+  }
+
+  // Configuração pública do widget (canais.configuracoes)
+  getConfig(channel: WebchatChannel) {
+    const settings = channel.configuracoes || {};
+    const widget: WidgetSettings = settings.widget || {};
+
+    return {
+      channelId: channel.id,
+      title: widget.title || channel.nome,
+      greeting: widget.greeting ?? null,
+      welcomeMessage: settings.welcomeMessage ?? null,
+      offlineMessage: widget.offlineMessage ?? null,
+      colors: {
+        primary: widget.primaryColor ?? null,
+        text: widget.textColor ?? null,
+      },
+      position: widget.position || 'right',
+      avatarUrl: widget.avatarUrl ?? null,
+      allowAttachments: widget.allowAttachments !== false,
+      visitorFields: this.visitorFields(widget),
+      businessHours: settings.businessHours ?? null,
+      online: isWithinBusinessHours(settings.businessHours),
+    };
+  }
+
+  // Cria a sessão anônima; o token só é devolvido aqui
+  async startSession(
+    channel: WebchatChannel,
+    data: StartSessionDTO,
+    client: { origin?: string; userAgent?: string }
+  ) {
+    const visitor = this.visitorData(channel, data, true);
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const result = await db.query<VisitorSession>(
+      `INSERT INTO webchat_sessoes (tenant_id, canal_id, token_hash, nome, email, telefone, origem, user_agent, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW() + make_interval(secs => $9))
+       RETURNING *`,
+      [
+        channel.tenant_id,
+        channel.id,
+        hashToken(token),
+        visitor.name ?? null,
+        visitor.email ?? null,
+        visitor.phone ?? null,
+        client.origin?.substring(0, 500) || null,
+        client.userAgent?.substring(0, 500) || null,
+        env.WEBCHAT_SESSION_TTL_SECONDS,
+      ]
+    );
+
+    return { token, ...mapSession(result.rows[0]), config: this.getConfig(channel) };
+  }
+
+  // Valida o token do visitante; cada acesso renova a expiração
+  async authenticate(channelId: string, token: string | undefined): Promise<VisitorSession> {
+    if (!token) {
+      throw new UnauthorizedError('Visitor token required');
+    }
+
+    const result = await db.query<VisitorSession>(
+      `UPDATE webchat_sessoes
+       SET ultimo_acesso = NOW(), expires_at = NOW() + make_interval(secs => $3)
+       WHERE token_hash = $1 AND canal_id = $2 AND expires_at > NOW()
+       RETURNING *`,
+      [hashToken(token), channelId, env.WEBCHAT_SESSION_TTL_SECONDS]
+    );
+
+    if (result.rows.length === 0) {
+      throw new UnauthorizedError('Invalid or expired visitor token');
+    }
+    return result.rows[0];
+  }
+
+  getSession(session: VisitorSession) {
+    return mapSession(session);
+  }
+
+  // Dados informados depois (formulário do widget); o contato já criado também é atualizado
+  async updateVisitor(channel: WebchatChannel, session: VisitorSession, data: UpdateVisitorDTO) {
+    const visitor = this.visitorData(channel, data, false);
+
+    const result = await db.query<VisitorSession>(
+      `UPDATE webchat_sessoes SET
+        nome = COALESCE($2, nome),
+        email = COALESCE($3, email),
+        telefone = COALESCE($4, telefone),
+        updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [session.id, visitor.name ?? null, visitor.email ?? null, visitor.phone ?? null]
+    );
+
+    if (session.contato_id) {
+      await db.query(
+        `UPDATE contatos SET
+          nome = COALESCE($2, nome),
+          email = COALESCE($3, email),
+          telefone = COALESCE($4, telefone),
+          updated_at = NOW()
+         WHERE id = $1 AND tenant_id = $5`,
+        [session.contato_id, visitor.name ?? null, visitor.email ?? null, visitor.phone ?? null, session.tenant_id]
+      );
+    }
+
+    return mapSession(result.rows[0]);
+  }
+
+  // Histórico do visitante em todas as conversas do canal
+  async listMessages(session: VisitorSession, params: ListVisitorMessagesDTO): Promise<VisitorMessage[]> {
+    if (!session.contato_id) {
+      return [];
+    }
+
+    const conditions = [
+      'm.tenant_id = $1',
+      'cv.cliente_id = $2',
+      `cv.metadata->>'channelId' = $3`,
+      'm.remetente_tipo = ANY($4)',
+    ];
+    const values: any[] = [session.tenant_id, session.contato_id, session.canal_id, VISIBLE_SENDERS];
+
+    if (params.before) {
+      values.push(params.before);
+      conditions.push(`m.created_at < $${values.length}`);
+    }
+    if (params.after) {
+      values.push(params.after);
+      conditions.push(`m.created_at > $${values.length}`);
+    }
+
+    // Com "after" busca as próximas; senão as últimas antes de "before"
+    const order = params.after ? 'ASC' : 'DESC';
+    values.push(params.limit);
+
+    const result = await db.query(
+      `SELECT m.id, m.conversa_id, m.remetente_tipo, m.conteudo, m.tipo, m.metadata, m.created_at
+       FROM mensagens m
+       JOIN conversas cv ON cv.id = m.conversa_id AND cv.tenant_id = m.tenant_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY m.created_at ${order}
+       LIMIT $${values.length}`,
+      values
+    );
+
+    const messages = result.rows.map(mapMessageRow);
+    return params.after ? messages : messages.reverse();
+  }
+
+  async sendMessage(channel: WebchatChannel, session: VisitorSession, data: SendVisitorMessageDTO): Promise<VisitorMessage> {
+    return this.receive(channel, session, { type: 'text', content: data.content, clientId: data.clientId });
+  }
+
+  // Arquivo já gravado pelo multer em uploads/webchat
+  async sendAttachment(
+    channel: WebchatChannel,
+    session: VisitorSession,
+    file: Express.Multer.File,
+    data: UploadAttachmentDTO
+  ): Promise<VisitorMessage> {
+    const type = ATTACHMENT_TYPES.find(([pattern]) => pattern.test(file.mimetype))?.[1] || 'document';
+    const mediaUrl = `${env.API_URL}/uploads/webchat/${file.filename}`;
+
+    return this.receive(channel, session, {
+      type,
+      content: data.caption || file.originalname || `[${type}]`,
+      clientId: data.clientId,
+      metadata: {
+        mediaUrl,
+        fileName: file.originalname,
+        media: { url: mediaUrl, fileName: file.originalname, mimeType: file.mimetype, size: file.size },
+      },
+    });
+  }
+
+  // Entrega ao widget as mensagens de agentes e fluxos (adaptador do canal web)
+  deliver(sessionId: string, message: OutboundMessage): void {
+    emitToVisitor(sessionId, 'message:new', {
+      id: message.id,
+      conversationId: message.conversationId,
+      sender: senderToVisitor[message.senderType] || 'bot',
+      type: message.type,
+      content: message.content,
+      metadata: visibleMetadata(message.metadata),
+      createdAt: message.createdAt,
+    } satisfies VisitorMessage);
+  }
+
+  // Conversa atual da sessão (digitando); lida a cada evento porque muda na primeira mensagem
+  async currentConversation(sessionId: string): Promise<string | null> {
+    const result = await db.query('SELECT conversa_id FROM webchat_sessoes WHERE id = $1', [sessionId]);
+    return result.rows[0]?.conversa_id ?? null;
+  }
+
+  // Mensagem do visitante pelo mesmo caminho dos canais nativos (contato, conversa e message.received)
+  private async receive(
+    channel: WebchatChannel,
+    session: VisitorSession,
+    message: { type: InboundMessageType; content: string; clientId?: string; metadata?: Record<string, any> }
+  ): Promise<VisitorMessage> {
+    const result = await channelInbound.receive(
+      { id: channel.id, tenant_id: channel.tenant_id, tipo: channel.tipo },
+      { externalId: session.id, name: session.nome, phone: session.telefone },
+      {
+        externalId: message.clientId ? `webchat:${session.id}:${message.clientId}` : null,
+        type: message.type,
+        content: message.content,
+        metadata: { ...message.metadata, webchat: { sessionId: session.id } },
+      }
+    );
+
+    if (!result.messageId) {
+      throw new AppError('Failed to save message', 500, 'WEBCHAT_MESSAGE_FAILED');
+    }
+
+    if (result.conversationId !== session.conversa_id) {
+      await this.linkConversation(session, result.conversationId);
+    }
+
+    const saved = await db.query(
+      `SELECT id, conversa_id, remetente_tipo, conteudo, tipo, metadata, created_at
+       FROM mensagens WHERE id = $1 AND tenant_id = $2`,
+      [result.messageId, session.tenant_id]
+    );
+    const visitorMessage = mapMessageRow(saved.rows[0]);
+
+    // Outras abas abertas pelo mesmo visitante
+    if (!result.duplicate) {
+      emitToVisitor(session.id, 'message:new', visitorMessage);
+    }
+
+    return visitorMessage;
+  }
+
+  // Primeira mensagem (ou conversa nova após o encerramento): guarda contato e conversa na sessão
+  private async linkConversation(session: VisitorSession, conversationId: string): Promise<void> {
+    const result = await db.query(
+      `UPDATE webchat_sessoes SET
+        conversa_id = $2,
+        contato_id = (SELECT cliente_id FROM conversas WHERE id = $2),
+        updated_at = NOW()
+       WHERE id = $1
+       RETURNING contato_id`,
+      [session.id, conversationId]
+    );
+
+    const contactId = result.rows[0]?.contato_id;
+    if (contactId && session.email) {
+      await db.query(
+        'UPDATE contatos SET email = COALESCE(email, $2) WHERE id = $1 AND tenant_id = $3',
+        [contactId, session.email, session.tenant_id]
+      );
+    }
+
+    session.contato_id = contactId ?? session.contato_id;
+    session.conversa_id = conversationId;
+
+    // Sockets já conectados passam a receber o "digitando" dos agentes
+    const io = getIO();
+    if (io) {
+      webchatNamespace(io).in(`visitor:${session.id}`).socketsJoin(`conversation:${conversationId}`);
+    }
+  }
+
+  private visitorFields(widget: WidgetSettings): Record<VisitorField, VisitorFieldMode> {
+    return {
+      name: widget.visitorFields?.name || 'optional',
+      email: widget.visitorFields?.email || 'optional',
+      phone: widget.visitorFields?.phone || 'optional',
+    };
+  }
+
+  // Aplica widget.visitorFields: campos ocultos são descartados e obrigatórios exigidos na criação
+  private visitorData(
+    channel: WebchatChannel,
+    data: StartSessionDTO,
+    enforceRequired: boolean
+  ): StartSessionDTO {
+    const fields = this.visitorFields(channel.configuracoes?.widget || {});
+    const visitor: StartSessionDTO = {};
+
+    for (const field of VISITOR_FIELDS) {
+      if (fields[field] === 'hidden') continue;
+      if (enforceRequired && fields[field] === 'required' && !data[field]) {
+        throw new ValidationError(`${field} is required`);
+      }
+      visitor[field] = data[field];
+    }
+
+    if (!enforceRequired && Object.values(visitor).every((value) => value === undefined)) {
+      throw new ValidationError('No visitor fields accepted by this widget');
+    }
+    return visitor;
+  }
+}
+
+export const webchatService = new WebchatService();
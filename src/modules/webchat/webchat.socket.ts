@@ -0,0 +1,62 @@
+import { Server } from 'socket.io';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  emitToConversation,
+  webchatNamespace,
+} from '../../config/socket.js';
+import { webchatService, VisitorSession } from './webchat.service.js';
+
+// Namespace /webchat: o widget conecta com { channelId, token } em handshake.auth.
+// O CORS do Socket.IO segue CORS_ORIGINS; sites de clientes usam o transporte websocket
+export function registerWebchatSocket(io: Server<ClientToServerEvents, ServerToClientEvents>): void {
+  const namespace = webchatNamespace(io);
+
+  namespace.use(async (socket, next) => {
+    try {
+      const { channelId, token } = socket.handshake.auth || {};
+      if (typeof channelId !== 'string' || typeof token !== 'string') {
+        return next(new Error('Authentication required'));
+      }
+
+      await webchatService.getChannel(channelId, socket.handshake.headers.origin);
+      socket.data.session = await webchatService.authenticate(channelId, token);
+      next();
+    } catch {
+      next(new Error('Invalid visitor token'));
+    }
+  });
+
+  namespace.on('connection', (socket) => {
+    const session = socket.data.session as VisitorSession;
+    const userName = session.nome || 'Visitante';
+
+    socket.join(`visitor:${session.id}`);
+    if (session.conversa_id) {
+      socket.join(`conversation:${session.conversa_id}`);
+    }
+
+    // Digitando do visitante para os agentes na conversa
+    const typing = async (event: 'typing:start' | 'typing:stop') => {
+      try {
+        const conversationId = await webchatService.currentConversation(session.id);
+        if (!conversationId) return;
+
+        emitToConversation(
+          conversationId,
+          event,
+          event === 'typing:start'
+            ? { conversationId, userId: session.id, userName }
+            : { conversationId, userId: session.id }
+        );
+      } catch {
+        // Ignore errors
+      }
+    };
+
+    socket.on('typing:start', () => typing('typing:start'));
+    socket.on('typing:stop', () => typing('typing:stop'));
+  });
+
+  console.log('[Socket] Web chat namespace initialized');
+}
@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { db } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { domainEvents, DomainEvent } from '../../shared/events/domain-events.js';
+import { assertPublicUrl, outboundRequestOptions } from '../../shared/utils/outbound.utils.js';
+
+// Base delay before a failed delivery is retried (doubles on every attempt, capped)
+const RETRY_BACKOFF_MS = 10000;
+const RETRY_MAX_DELAY_MS = 3600000;
+
+// A claimed delivery not finished within this time goes back to the queue (dispatcher died mid-send)
+const DELIVERY_LEASE_MS = 120000;
+
+const CLAIM_BATCH_SIZE = 10;
+const RESPONSE_BODY_MAX_LENGTH = 4096;
+
+export const WEBHOOK_HEADERS = {
+  event: 'X-OmniBot-Event',
+  delivery: 'X-OmniBot-Delivery',
+  timestamp: 'X-OmniBot-Timestamp',
+  signature: 'X-OmniBot-Signature',
+} as const;
+
+// Body POSTed to the configured URL
+export interface WebhookPayload {
+  id: string; // Event id; the same on every retry, so receivers can drop duplicates
+  type: string;
+  occurredAt: string;
+  test?: boolean; // Synthetic event sent from the test endpoint
+  data: any;
+}
+
+export interface DeliveryAttempt {
+  success: boolean;
+  status: number | null;
+  body: string | null;
+  durationMs: number;
+  error: string | null;
+}
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+
+// sha256=<hex HMAC of "<timestamp>.<raw body>">; the timestamp lets receivers reject replays
+export const signPayload = (secret: string, timestamp: number, body: string): string =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const toWebhookPayload = (event: DomainEvent): WebhookPayload => ({
+  id: event.id,
+  type: event.type,
+  occurredAt: event.occurredAt,
+  data: event.data,
+});
+
+// Sends domain events to the tenant's webhook_configs. Deliveries are rows in webhook_deliveries
+// claimed with FOR UPDATE SKIP LOCKED, so retries survive restarts and several API processes can share them.
+export class WebhookDispatcher {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private current: Promise<void> | null = null;
+  private pendingTick = false;
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.unsubscribe = domainEvents.subscribeAll(async (event) => {
+      const queued = await this.enqueue(event);
+      if (queued > 0) this.tick();
+    });
+    this.timer = setInterval(() => this.tick(), env.WEBHOOK_DISPATCH_INTERVAL_MS);
+
+    console.log('[Webhooks] Dispatcher started');
+  }
+
+  // Stop claiming deliveries and wait for the batch being sent
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.current;
+  }
+
+  // One delivery per active config of the tenant subscribed to the event (or to "*")
+  async enqueue(event: DomainEvent): Promise<number> {
+    const result = await db.query(
+      `INSERT INTO webhook_deliveries (webhook_config_id, event_id, event_type, payload, max_attempts)
+       SELECT c.id, $2, $3, $4, $5
+       FROM webhook_configs c
+       JOIN users u ON u.id = c.user_id
+       WHERE u.tenant_id = $1 AND c.is_active = true AND (c.events ? $3 OR c.events ? '*')
+       RETURNING id`,
+      [event.tenantId, event.id, event.type, JSON.stringify(toWebhookPayload(event)), env.WEBHOOK_DELIVERY_MAX_ATTEMPTS]
+    );
+
+    return result.rows.length;
+  }
+
+  // Claim and send the due deliveries until none is left
+  async dispatchDue(): Promise<number> {
+    let sent = 0;
+
+    while (this.running) {
+      const claimed = await this.claim();
+      if (claimed.length === 0) break;
+
+      await Promise.all(claimed.map((delivery) => this.process(delivery)));
+      sent += claimed.length;
+    }
+
+    return sent;
+  }
+
+  // Single HTTP attempt; never throws, so callers can report the receiver's answer as it is
+  async send(config: { url: string; secret: string | null }, payload: WebhookPayload, deliveryId: string): Promise<DeliveryAttempt> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'OmniBot-Webhooks/1.0',
+      [WEBHOOK_HEADERS.event]: payload.type,
+      [WEBHOOK_HEADERS.delivery]: deliveryId,
+      [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+    };
+    if (config.secret) {
+      headers[WEBHOOK_HEADERS.signature] = signPayload(config.secret, timestamp, body);
+    }
+
+    const startedAt = Date.now();
+    try {
+      // Checked on every attempt: the URL may have been edited since the delivery was queued
+      assertPublicUrl(config.url);
+      const response = await axios.post<string>(config.url, body, {
+        ...outboundRequestOptions,
+        headers,
+        timeout: env.WEBHOOK_DELIVERY_TIMEOUT_MS,
+        responseType: 'text',
+        transformResponse: [(raw) => raw],
+        validateStatus: () => true,
+      });
+
+      const success = response.status >= 200 && response.status < 300;
+      return {
+        success,
+        status: response.status,
+        body: typeof response.data === 'string' ? response.data.slice(0, RESPONSE_BODY_MAX_LENGTH) : null,
+        durationMs: Date.now() - startedAt,
+        error: success ? null : `Receiver answered ${response.status}`,
+      };
+    } catch (error: any) {
+      return { success: false, status: null, body: null, durationMs: Date.now() - startedAt, error: error.message };
+    }
+  }
+
+  // Manual send (test, redeliver) outside the queue: no retries and the config's failure streak is left alone
+  async deliverNow(config: { id: string; url: string; secret: string | null }, payload: WebhookPayload): Promise<DeliveryAttempt> {
+    const attempt = await this.send(config, payload, crypto.randomUUID());
+    await this.log({ webhook_config_id: config.id, event_type: payload.type, payload, id: null, attempts: null }, attempt);
+    return attempt;
+  }
+
+  // Overlapping ticks collapse into one more pass after the current one
+  private tick(): void {
+    if (!this.running) return;
+    if (this.current) {
+      this.pendingTick = true;
+      return;
+    }
+
+    this.current = this.dispatchDue()
+      .then(() => undefined)
+      .catch((error) => {
+        console.error('[Webhooks] Dispatch failed:', error.message);
+      })
+      .finally(() => {
+        this.current = null;
+        if (this.pendingTick) {
+          this.pendingTick = false;
+          this.tick();
+        }
+      });
+  }
+
+  // pending (or delivering past its lease) -> delivering
+  private async claim(): Promise<any[]> {
+    const result = await db.query(
+      `UPDATE webhook_deliveries d SET
+        status = 'delivering',
+        attempts = d.attempts + 1,
+        next_attempt_at = CURRENT_TIMESTAMP + ($2 || ' milliseconds')::interval
+       FROM webhook_configs c
+       WHERE c.id = d.webhook_config_id AND d.id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE status IN ('pending', 'delivering') AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY next_attempt_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT $1
+       )
+       RETURNING d.*, c.url, c.secret, c.is_active`,
+      [CLAIM_BATCH_SIZE, DELIVERY_LEASE_MS]
+    );
+
+    return result.rows;
+  }
+
+  private async process(delivery: any): Promise<void> {
+    try {
+      // Disabled meanwhile, or attempts used up by a dispatcher that died mid-send
+      if (!delivery.is_active || delivery.attempts > delivery.max_attempts) {
+        await this.fail(delivery.id, delivery.is_active ? 'Attempts exhausted' : 'Webhook config is inactive');
+        return;
+      }
+
+      const attempt = await this.send(delivery, delivery.payload, delivery.id);
+      await this.log(delivery, attempt);
+
+      if (attempt.success) {
+        await db.query(
+          `UPDATE webhook_deliveries SET status = 'delivered', delivered_at = CURRENT_TIMESTAMP, last_error = NULL WHERE id = $1`,
+          [delivery.id]
+        );
+        await db.query(
+          `UPDATE webhook_configs SET last_triggered_at = CURRENT_TIMESTAMP, last_status_code = $2, failure_count = 0
+           WHERE id = $1`,
+          [delivery.webhook_config_id, attempt.status]
+        );
+        return;
+      }
+
+      const stillActive = await this.recordFailure(delivery.webhook_config_id, attempt.status);
+      if (!stillActive || delivery.attempts >= delivery.max_attempts) {
+        await this.fail(delivery.id, attempt.error);
+        return;
+      }
+
+      await db.query(
+        `UPDATE webhook_deliveries SET status = 'pending', last_error = $2,
+           next_attempt_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+         WHERE id = $1`,
+        [delivery.id, attempt.error, retryDelay(delivery.attempts)]
+      );
+    } catch (error: any) {
+      // Left 'delivering': the lease expires and the delivery is claimed again
+      console.error(`[Webhooks] Delivery ${delivery.id} failed:`, error.message);
+    }
+  }
+
+  // Count a consecutive failure; returns false when it disabled the config
+  private async recordFailure(configId: string, status: number | null): Promise<boolean> {
+    const limit = env.WEBHOOK_DISABLE_AFTER_FAILURES;
+
+    const result = await db.query(
+      `UPDATE webhook_configs SET
+        last_triggered_at = CURRENT_TIMESTAMP,
+        last_status_code = $2,
+        failure_count = failure_count + 1,
+        is_active = CASE WHEN failure_count + 1 >= $3 THEN false ELSE is_active END,
+        disabled_at = CASE WHEN failure_count + 1 >= $3 AND is_active THEN CURRENT_TIMESTAMP ELSE disabled_at END,
+        disabled_reason = CASE WHEN failure_count + 1 >= $3 AND is_active
+          THEN 'Disabled after ' || $3 || ' consecutive failed deliveries' ELSE disabled_reason END
+       WHERE id = $1
+       RETURNING is_active`,
+      [configId, status, limit]
+    );
+
+    if (result.rows[0]?.is_active !== false) {
+      return true;
+    }
+
+    // Nothing else will be sent to this URL until the config is enabled again
+    await db.query(
+      `UPDATE webhook_deliveries SET status = 'failed', last_error = 'Webhook config disabled'
+       WHERE webhook_config_id = $1 AND status = 'pending'`,
+      [configId]
+    );
+    console.warn(`[Webhooks] Config ${configId} disabled after ${limit} consecutive failures`);
+    return false;
+  }
+
+  private async fail(deliveryId: string, error: string | null): Promise<void> {
+    await db.query(`UPDATE webhook_deliveries SET status = 'failed', last_error = $2 WHERE id = $1`, [deliveryId, error]);
+  }
+
+  private async log(delivery: any, attempt: DeliveryAttempt): Promise<void> {
+    await db.query(
+      `INSERT INTO webhook_logs (
+        webhook_config_id, event_type, payload, response_status, response_body, duration_ms, success, error, delivery_id, attempt
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        delivery.webhook_config_id,
+        delivery.event_type,
+        JSON.stringify(delivery.payload),
+        attempt.status,
+        attempt.body,
+        attempt.durationMs,
+        attempt.success,
+        attempt.error,
+        delivery.id,
+        delivery.attempts,
+      ]
+    );
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import { DomainEventMap, DomainEventType, domainEventTypes } from '../../shared/events/domain-events.js';
+import { zodToJsonSchema } from '../../shared/utils/schema.utils.js';
+
+interface EventDefinition<T extends DomainEventType> {
+  description: string;
+  data: z.ZodTypeAny; // Shape of payload.data
+  sample: DomainEventMap[T];
+}
+
+const SAMPLE_TENANT = '00000000-0000-4000-8000-000000000001';
+const SAMPLE_CONVERSATION = '00000000-0000-4000-8000-000000000002';
+const SAMPLE_AGENT = '00000000-0000-4000-8000-000000000003';
+const SAMPLE_PRODUCT = '00000000-0000-4000-8000-000000000004';
+const SAMPLE_DATE = '2024-01-01T12:00:00.000Z';
+
+const messageSchema = z.object({
+  id: z.string(),
+  conversation_id: z.string(),
+  sender_type: z.enum(['customer', 'agent', 'ai', 'system']),
+  sender_id: z.string().nullable(),
+  content: z.string(),
+  type: z.string(),
+  metadata: z.record(z.any()).nullable(),
+  created_at: z.string(),
+});
+
+const conversationSchema = z.object({
+  id: z.string(),
+  customer_id: z.string().nullable(),
+  agent_id: z.string().nullable(),
+  channel: z.string(),
+  status: z.string(),
+  last_message: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+const productSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  sku: z.string().nullable(),
+  price: z.number(),
+  stock_quantity: z.number().int(),
+  status: z.string(),
+  attributes: z.record(z.any()).nullable(),
+  updated_at: z.string(),
+});
+
+const sampleMessage = (senderType: string, content: string) => ({
+  id: '00000000-0000-4000-8000-000000000010',
+  tenant_id: SAMPLE_TENANT,
+  conversation_id: SAMPLE_CONVERSATION,
+  sender_type: senderType,
+  sender_id: null,
+  content,
+  type: 'text',
+  metadata: {},
+  read: false,
+  created_at: SAMPLE_DATE,
+});
+
+const sampleConversation = (status: string, agentId: string | null = null) => ({
+  id: SAMPLE_CONVERSATION,
+  tenant_id: SAMPLE_TENANT,
+  customer_id: '5511999999999',
+  agent_id: agentId,
+  channel: 'whatsapp',
+  status,
+  last_message: 'Hello, I need help with my order',
+  created_at: SAMPLE_DATE,
+  updated_at: SAMPLE_DATE,
+});
+
+const sampleProduct = {
+  id: SAMPLE_PRODUCT,
+  name: 'Wireless headphones',
+  sku: 'WH-1000',
+  price: 199.9,
+  stock_quantity: 3,
+  status: 'active',
+  attributes: {},
+  updated_at: SAMPLE_DATE,
+};
+
+// Every event a webhook config can subscribe to; a new domain event fails to compile until it is described here
+const definitions: { [T in DomainEventType]: EventDefinition<T> } = {
+  'message.received': {
+    description: 'A customer sent a message in a conversation',
+    data: z.object({ conversationId: z.string(), message: messageSchema }),
+    sample: { conversationId: SAMPLE_CONVERSATION, message: sampleMessage('customer', 'Hello, I need help with my order') },
+  },
+  'message.sent': {
+    description: 'An agent, the AI or the system sent a message',
+    data: z.object({ conversationId: z.string(), message: messageSchema }),
+    sample: { conversationId: SAMPLE_CONVERSATION, message: sampleMessage('agent', 'Sure, what is your order number?') },
+  },
+  'conversation.created': {
+    description: 'A new conversation was opened',
+    data: z.object({ conversationId: z.string(), conversation: conversationSchema }),
+    sample: { conversationId: SAMPLE_CONVERSATION, conversation: sampleConversation('open') },
+  },
+  'conversation.status_changed': {
+    description: 'A conversation changed status (open, pending, resolved, closed)',
+    data: z.object({
+      conversationId: z.string(),
+      previousStatus: z.string().nullable(),
+      status: z.string(),
+      conversation: conversationSchema,
+    }),
+    sample: { conversationId: SAMPLE_CONVERSATION, previousStatus: 'open', status: 'resolved', conversation: sampleConversation('resolved') },
+  },
+  'conversation.assigned': {
+    description: 'An agent was assigned to a conversation',
+    data: z.object({ conversationId: z.string(), agentId: z.string(), conversation: conversationSchema }),
+    sample: { conversationId: SAMPLE_CONVERSATION, agentId: SAMPLE_AGENT, conversation: sampleConversation('open', SAMPLE_AGENT) },
+  },
+  'product.stock_low': {
+    description: 'A product stock dropped to or below its low stock threshold',
+    data: z.object({ productId: z.string(), stock: z.number().int(), threshold: z.number(), product: productSchema }),
+    sample: { productId: SAMPLE_PRODUCT, stock: 3, threshold: 5, product: sampleProduct },
+  },
+  'product.updated': {
+    description: 'A product was edited; changes lists the fields sent in the update',
+    data: z.object({ productId: z.string(), changes: z.array(z.string()), product: productSchema }),
+    sample: { productId: SAMPLE_PRODUCT, changes: ['price', 'stockQuantity'], product: sampleProduct },
+  },
+  'flow.execution_finished': {
+    description: 'A flow execution finished (success, error or cancelled)',
+    data: z.object({
+      flowId: z.string(),
+      executionId: z.string(),
+      status: z.enum(['success', 'error', 'cancelled']),
+      durationMs: z.number().int().nullable(),
+      error: z.string().nullable(),
+      chainDepth: z.number().int().describe('Number of flow.execution_finished triggers that led to this execution'),
+    }),
+    sample: {
+      flowId: '00000000-0000-4000-8000-000000000020',
+      executionId: '00000000-0000-4000-8000-000000000021',
+      status: 'success',
+      durationMs: 842,
+      error: null,
+      chainDepth: 0,
+    },
+  },
+};
+
+// Envelope shared by every delivery
+const envelopeSchema = (type: string, data: z.ZodTypeAny) => z.object({
+  id: z.string().describe('Event id; repeated on retries and redeliveries'),
+  type: z.literal(type),
+  occurredAt: z.string().describe('ISO 8601'),
+  test: z.boolean().optional().describe('Set on deliveries sent by the test endpoint'),
+  data,
+});
+
+export const sampleEventData = <T extends DomainEventType>(type: T): DomainEventMap[T] => definitions[type].sample;
+
+// Catalog for GET /v1/webhooks/events
+export const webhookEventCatalog = () => domainEventTypes.map((type) => ({
+  type,
+  description: definitions[type].description,
+  schema: zodToJsonSchema(envelopeSchema(type, definitions[type].data)),
+  sample: {
+    id: '00000000-0000-4000-8000-0000000000ff',
+    type,
+    occurredAt: SAMPLE_DATE,
+    data: definitions[type].sample,
+  },
+}));
@@ -4,7 +4,15 @@ import { authenticate } from '../../shared/middleware/auth.middleware.js';
 import { env } from '../../config/env.js';
 import { db } from '../../config/database.js';
 import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.utils.js';
-import { NotFoundError, UnauthorizedError } from '../../shared/middleware/error.middleware.js';
+import { NotFoundError, UnauthorizedError, ValidationError } from '../../shared/middleware/error.middleware.js';
+import { domainEventTypes, DomainEventType } from '../../shared/events/domain-events.js';
+import { webhookDispatcher, WEBHOOK_HEADERS, DeliveryAttempt } from './webhooks.dispatcher.js';
+import { assertPublicUrl } from '../../shared/utils/outbound.utils.js';
+import { webhookEventCatalog, sampleEventData } from './webhooks.events.js';
+import { channelInbound } from '../channels/channels.inbound.js';
+import { channelAdapters } from '../channels/channels.adapters.js';
+import { whatsappCloud } from '../channels/channels.whatsapp.js';
+import { telegramBot, TELEGRAM_SECRET_HEADER } from '../channels/channels.telegram.js';
 
 const router = Router();
 
@@ -41,6 +49,77 @@ const validateWebhookSignature = (req: any, res: any, next: any) => {
   return next(new UnauthorizedError('Invalid webhook signature'));
 };
 
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Secrets a channel webhook may be signed with: the current one, plus the previous one until its grace period ends
+const channelWebhookSecrets = (settings: Record<string, any> | null): string[] => {
+  const secrets: string[] = [];
+  if (settings?.webhook_secret) {
+    secrets.push(settings.webhook_secret);
+  }
+  if (settings?.webhook_secret_previous && new Date(settings.webhook_secret_previous_expires_at).getTime() > Date.now()) {
+    secrets.push(settings.webhook_secret_previous);
+  }
+  return secrets;
+};
+
+// Channel webhooks are signed with the channel's own secret, same scheme as outbound deliveries:
+// X-OmniBot-Signature: sha256=<hex HMAC of "<X-OmniBot-Timestamp>.<raw body>">
+const validateChannelSignature = async (req: any, res: any, next: any) => {
+  try {
+    const { type, id } = req.params;
+
+    // Verify channel exists and get tenant_id
+    const channelResult = await db.query(
+      `SELECT id, tenant_id, tipo, meta_oficial, credenciais, configuracoes FROM canais WHERE id = $1 AND tipo = $2`,
+      [id, type]
+    );
+
+    if (channelResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: { message: 'Channel not found', code: 'CHANNEL_NOT_FOUND' },
+      });
+      return;
+    }
+
+    const secrets = channelWebhookSecrets(channelResult.rows[0].configuracoes);
+    if (secrets.length === 0) {
+      throw new UnauthorizedError('Channel webhook secret not configured');
+    }
+
+    const signature = req.headers[WEBHOOK_HEADERS.signature.toLowerCase()];
+    const timestamp = req.headers[WEBHOOK_HEADERS.timestamp.toLowerCase()];
+    if (typeof signature !== 'string' || typeof timestamp !== 'string') {
+      throw new UnauthorizedError('Missing webhook signature');
+    }
+
+    // Replays of a captured request stop working once the timestamp leaves the window
+    const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+    if (!/^\d+$/.test(timestamp) || age > env.CHANNEL_WEBHOOK_TOLERANCE_SECONDS) {
+      throw new UnauthorizedError('Webhook timestamp outside the tolerance window');
+    }
+
+    const rawBody: Buffer = req.rawBody ?? Buffer.alloc(0);
+    const valid = secrets.some((secret) => {
+      const expected = 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+      return safeEqual(signature, expected);
+    });
+    if (!valid) {
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
+
+    res.locals.channel = channelResult.rows[0];
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 // ==========================================
 // Public webhook endpoints (for n8n)
 // ==========================================
@@ -97,72 +176,139 @@ router.post('/n8n/message', validateWebhookSignature, async (req, res, next) =>
   }
 });
 
-// Receive message from channel via n8n (WhatsApp, Instagram, etc.)
-router.post('/channels/:type/:id', async (req, res, next) => {
+// Receive messages for a channel; the channel type's adapter turns the payload into contact + message
+router.post('/channels/:type/:id', validateChannelSignature, async (req, res, next) => {
   try {
     const { type, id } = req.params;
-    const { from, message, metadata, timestamp } = req.body;
+    const channel = res.locals.channel;
 
-    console.log(`[Webhook] Received message for channel ${type}/${id}:`, {
-      from: from?.id || from?.phone,
-      messageType: message?.type,
+    const adapter = channelAdapters.get(channel.tipo);
+    if (!adapter) {
+      throw new ValidationError(`Unsupported channel type: ${type}`);
+    }
+
+    const items = adapter.normalize(req.body);
+    console.log(`[Webhook] Received ${items.length} message(s) for channel ${type}/${id}`);
+
+    let conversationId: string | null = null;
+    for (const item of items) {
+      // Publishes conversation.created and message.received
+      const result = await channelInbound.receive(channel, item.contact, item.message);
+      conversationId = result.conversationId;
+    }
+
+    sendSuccess(res, {
+      received: items.length > 0,
+      conversationId,
+      timestamp: new Date().toISOString(),
     });
+  } catch (error) {
+    console.error('[Webhook] Error processing channel message:', error);
+    next(error);
+  }
+});
 
-    // Verify channel exists and get tenant_id
-    const channelResult = await db.query(
-      `SELECT tenant_id FROM canais WHERE id = $1 AND tipo = $2`,
-      [id, type]
-    );
+// ==========================================
+// WhatsApp Cloud API (Meta) webhooks
+// ==========================================
 
-    if (channelResult.rows.length === 0) {
-      res.status(404).json({
-        success: false,
-        error: { message: 'Channel not found', code: 'CHANNEL_NOT_FOUND' },
-      });
+const findWhatsAppChannel = async (id: string) => {
+  const result = await db.query(
+    `SELECT id, tenant_id, tipo, credenciais FROM canais WHERE id = $1 AND tipo = 'whatsapp' AND meta_oficial = true`,
+    [id]
+  );
+  return result.rows[0] || null;
+};
+
+// Subscription check sent by Meta when the callback URL is saved
+router.get('/whatsapp/:id', async (req, res, next) => {
+  try {
+    const channel = await findWhatsAppChannel(req.params.id);
+    const challenge = channel ? whatsappCloud.verifyChallenge(req.query, channel.credenciais?.webhookVerifyToken) : null;
+
+    if (challenge === null) {
+      res.sendStatus(403);
       return;
     }
 
-    const tenantId = channelResult.rows[0].tenant_id;
+    res.type('text/plain').send(challenge);
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Find or create conversation
-    let conversation = await db.query(
-      `SELECT id FROM conversas WHERE cliente_id = $1 AND canal = $2 AND tenant_id = $3`,
-      [from?.id || from?.phone, type, tenantId]
-    );
+// Messages and delivery statuses, signed with the Meta app secret (credentials.apiSecret)
+router.post('/whatsapp/:id', async (req, res, next) => {
+  try {
+    const channel = await findWhatsAppChannel(req.params.id);
+    if (!channel) {
+      throw new NotFoundError('Channel');
+    }
 
-    let conversationId = conversation.rows[0]?.id;
+    const appSecret = channel.credenciais?.apiSecret;
+    if (!appSecret) {
+      throw new UnauthorizedError('WhatsApp app secret not configured');
+    }
+    if (!whatsappCloud.verifySignature(appSecret, req.rawBody ?? Buffer.alloc(0), req.headers['x-hub-signature-256'])) {
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
 
-    if (!conversationId) {
-      // Create new conversation
-      const newConv = await db.query(
-        `INSERT INTO conversas (tenant_id, canal, cliente_id, cliente_nome, status)
-         VALUES ($1, $2, $3, $4, 'aberta')
-         RETURNING id`,
-        [tenantId, type, from?.id || from?.phone, from?.name || 'Cliente']
-      );
-      conversationId = newConv.rows[0].id;
+    // One app can serve several numbers; only this channel's number is handled here
+    const phoneNumberId = channel.credenciais?.phoneNumberId;
+    const { messages, statuses } = whatsappCloud.parseWebhook(req.body);
+
+    let received = 0;
+    for (const item of messages) {
+      if (item.phoneNumberId !== phoneNumberId) continue;
+      const result = await channelInbound.receive(channel, item.contact, item.message);
+      if (!result.duplicate) received++;
     }
 
-    // Create message
-    await db.query(
-      `INSERT INTO mensagens (conversa_id, tenant_id, remetente_tipo, conteudo, tipo_mensagem, lida, metadata)
-       VALUES ($1, $2, 'customer', $3, $4, false, $5)`,
-      [
-        conversationId,
-        tenantId,
-        message?.text || JSON.stringify(message),
-        message?.type || 'text',
-        JSON.stringify({ ...metadata, timestamp, from }),
-      ]
+    for (const status of statuses) {
+      if (status.phoneNumberId !== phoneNumberId) continue;
+      await channelInbound.updateDeliveryStatus(channel.tenant_id, status.externalId, status.status, status.error);
+    }
+
+    sendSuccess(res, { received, statuses: statuses.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// Telegram Bot API webhooks
+// ==========================================
+
+// Updates of a connected bot; setWebhook registered the secret token sent in the header
+router.post('/telegram/:id', async (req, res, next) => {
+  try {
+    const result = await db.query(
+      `SELECT id, tenant_id, tipo, credenciais, configuracoes FROM canais WHERE id = $1 AND tipo = 'telegram'`,
+      [req.params.id]
     );
+    const channel = result.rows[0];
+    if (!channel) {
+      throw new NotFoundError('Channel');
+    }
 
-    sendSuccess(res, {
-      received: true,
-      conversationId,
-      timestamp: new Date().toISOString(),
-    });
+    if (!telegramBot.verifySecret(channel.configuracoes?.telegram_secret_token, req.headers[TELEGRAM_SECRET_HEADER])) {
+      throw new UnauthorizedError('Invalid Telegram secret token');
+    }
+
+    const items = telegramBot.parseUpdate(req.body);
+    for (const item of items) {
+      await channelInbound.receive(channel, item.contact, item.message);
+    }
+
+    const callbackQueryId = req.body?.callback_query?.id;
+    if (callbackQueryId) {
+      telegramBot.answerCallbackQuery(telegramBot.botToken(channel.credenciais), callbackQueryId).catch((error) => {
+        console.error('[Webhook] Failed to answer Telegram callback query:', error.message);
+      });
+    }
+
+    sendSuccess(res, { received: items.length });
   } catch (error) {
-    console.error('[Webhook] Error processing channel message:', error);
     next(error);
   }
 });
@@ -249,12 +395,18 @@ router.post('/n8n/product-update', validateWebhookSignature, async (req, res, ne
 
 router.use(authenticate);
 
+// Event types webhook configs can subscribe to, with the payload schema and a sample
+router.get('/events', (req, res) => {
+  sendSuccess(res, webhookEventCatalog());
+});
+
 // List webhook configs
 router.get('/configs', async (req, res, next) => {
   try {
     const userId = req.user!.userId;
     const result = await db.query(
-      `SELECT id, name, url, events, is_active, last_triggered_at, failure_count, created_at
+      `SELECT id, name, url, events, is_active, last_triggered_at, last_status_code, failure_count,
+              disabled_at, disabled_reason, created_at
        FROM webhook_configs WHERE user_id = $1
        ORDER BY created_at DESC`,
       [userId]
@@ -271,6 +423,8 @@ router.post('/configs', async (req, res, next) => {
   try {
     const userId = req.user!.userId;
     const { name, url, events, secret } = req.body;
+    // Literal private addresses are refused here; hostnames are checked again on every delivery
+    assertPublicUrl(url);
 
     const result = await db.query(
       `INSERT INTO webhook_configs (user_id, name, url, events, secret)
@@ -300,6 +454,7 @@ router.patch('/configs/:id', async (req, res, next) => {
       values.push(name);
     }
     if (url !== undefined) {
+      assertPublicUrl(url);
       updates.push(`url = $${paramIndex++}`);
       values.push(url);
     }
@@ -314,6 +469,11 @@ router.patch('/configs/:id', async (req, res, next) => {
     if (isActive !== undefined) {
       updates.push(`is_active = $${paramIndex++}`);
       values.push(isActive);
+
+      // Re-enabling starts a fresh failure streak for the dispatcher
+      if (isActive) {
+        updates.push('failure_count = 0', 'disabled_at = NULL', 'disabled_reason = NULL');
+      }
     }
 
     if (updates.length === 0) {
@@ -396,4 +556,78 @@ router.get('/configs/:id/logs', async (req, res, next) => {
   }
 });
 
+// Test and redeliver only report how the receiver answered, not what it serves
+const MANUAL_RESPONSE_BODY_MAX_LENGTH = 512;
+
+const manualAttemptResult = (attempt: DeliveryAttempt) => ({
+  success: attempt.success,
+  status: attempt.status,
+  body: attempt.body === null ? null : attempt.body.slice(0, MANUAL_RESPONSE_BODY_MAX_LENGTH),
+  durationMs: attempt.durationMs,
+  error: attempt.error,
+});
+
+// Send a synthetic event to the config (active or not) and return the receiver's status
+router.post('/configs/:id/test', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const config = await db.query(
+      'SELECT id, url, secret, events FROM webhook_configs WHERE id = $1 AND user_id = $2',
+      [req.params.id, userId]
+    );
+
+    if (config.rows.length === 0) {
+      throw new NotFoundError('Webhook config');
+    }
+
+    // Defaults to the first event the config subscribes to
+    const subscribed = (config.rows[0].events || []).find((type: string) => domainEventTypes.includes(type as DomainEventType));
+    const type = req.body?.event ?? subscribed ?? domainEventTypes[0];
+    if (!domainEventTypes.includes(type)) {
+      throw new ValidationError(`Unknown event type: ${type}`);
+    }
+
+    const payload = {
+      id: crypto.randomUUID(),
+      type,
+      occurredAt: new Date().toISOString(),
+      test: true,
+      data: sampleEventData(type as DomainEventType),
+    };
+    // Refused with 400 instead of a logged failure; deliverNow checks resolved addresses and skips redirects
+    assertPublicUrl(config.rows[0].url);
+    const attempt = await webhookDispatcher.deliverNow(config.rows[0], payload);
+
+    sendSuccess(res, { payload, ...manualAttemptResult(attempt) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send a logged payload again, with its original event id
+router.post('/logs/:logId/redeliver', async (req, res, next) => {
+  try {
+    const userId = req.user!.userId;
+    const log = await db.query(
+      `SELECT l.payload, c.id, c.url, c.secret
+       FROM webhook_logs l
+       JOIN webhook_configs c ON c.id = l.webhook_config_id
+       WHERE l.id = $1 AND c.user_id = $2`,
+      [req.params.logId, userId]
+    );
+
+    if (log.rows.length === 0 || !log.rows[0].payload) {
+      throw new NotFoundError('Webhook log');
+    }
+
+    const { payload, ...config } = log.rows[0];
+    assertPublicUrl(config.url);
+    const attempt = await webhookDispatcher.deliverNow(config, payload);
+
+    sendSuccess(res, { payload, ...manualAttemptResult(attempt) });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
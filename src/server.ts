@@ -3,6 +3,13 @@ import { createApp } from './app.js';
 import { env } from './config/env.js';
 import { testConnection, db } from './config/database.js';
 import { initializeSocket } from './config/socket.js';
+import { registerFlowEventTriggers } from './modules/flows/flows.triggers.js';
+import { flowScheduler } from './modules/flows/flows.scheduler.js';
+import { flowWorker } from './modules/flows/flows.worker.js';
+import { flowDebugger } from './modules/flows/flows.debugger.js';
+import { webhookDispatcher } from './modules/webhooks/webhooks.dispatcher.js';
+import { channelOutbound } from './modules/channels/channels.outbound.js';
+import { registerWebchatSocket } from './modules/webchat/webchat.socket.js';
 
 const startServer = async (): Promise<void> => {
   try {
@@ -19,7 +26,34 @@ const startServer = async (): Promise<void> => {
     const httpServer = createServer(app);
 
     // Initialize Socket.IO
-    initializeSocket(httpServer);
+    const io = initializeSocket(httpServer);
+
+    // Visitor sockets of the web chat widget
+    registerWebchatSocket(io);
+
+    // Start event-triggered flows from domain events
+    registerFlowEventTriggers();
+
+    // Send agent and flow messages through the native channels
+    channelOutbound.start();
+
+    // Start cron-triggered flows
+    if (env.FLOW_SCHEDULER_ENABLED) {
+      flowScheduler.start();
+    }
+
+    // Run queued flow executions in this process
+    if (env.FLOW_WORKER_ENABLED) {
+      flowWorker.start();
+    } else {
+      // Sync webhook and debug runs still execute here and need their heartbeat
+      flowWorker.startHeartbeat();
+    }
+
+    // Deliver domain events to the tenants' webhook configs
+    if (env.WEBHOOK_DISPATCHER_ENABLED) {
+      webhookDispatcher.start();
+    }
 
     httpServer.listen(env.PORT, () => {
       console.log(`
@@ -40,10 +74,16 @@ const startServer = async (): Promise<void> => {
     const gracefulShutdown = async (signal: string): Promise<void> => {
       console.log(`\n${signal} received. Starting graceful shutdown...`);
 
+      flowScheduler.stop();
+      flowDebugger.stopAll();
+      const workerDrained = flowWorker.stop();
+      const dispatcherStopped = webhookDispatcher.stop();
+
       httpServer.close(async () => {
         console.log('HTTP server closed.');
 
         try {
+          await Promise.all([workerDrained, dispatcherStopped]);
           await db.close();
           console.log('Database connection closed.');
           process.exit(0);
@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+
+// Payloads of every domain event published inside the API
+export interface DomainEventMap {
+  'message.received': { conversationId: string; message: any };
+  'message.sent': { conversationId: string; message: any };
+  'conversation.created': { conversationId: string; conversation: any };
+  'conversation.status_changed': { conversationId: string; previousStatus: string | null; status: string; conversation: any };
+  'conversation.assigned': { conversationId: string; agentId: string; conversation: any };
+  'product.stock_low': { productId: string; stock: number; threshold: number; product: any };
+  'product.updated': { productId: string; changes: string[]; product: any };
+  'flow.execution_finished': { flowId: string; executionId: string; status: string; durationMs: number | null; error: string | null; chainDepth: number };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+export const domainEventTypes = [
+  'message.received',
+  'message.sent',
+  'conversation.created',
+  'conversation.status_changed',
+  'conversation.assigned',
+  'product.stock_low',
+  'product.updated',
+  'flow.execution_finished',
+] as const satisfies readonly DomainEventType[];
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+  id: string;
+  type: T;
+  tenantId: string;
+  occurredAt: string;
+  data: DomainEventMap[T];
+}
+
+type DomainEventHandler<T extends DomainEventType = DomainEventType> = (event: DomainEvent<T>) => Promise<void> | void;
+
+const ALL_EVENTS = '*';
+
+class DomainEventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(50);
+  }
+
+  // Fire-and-forget: subscriber failures never reach the publisher
+  publish<T extends DomainEventType>(type: T, tenantId: string, data: DomainEventMap[T]): DomainEvent<T> {
+    const event: DomainEvent<T> = {
+      id: uuidv4(),
+      type,
+      tenantId,
+      occurredAt: new Date().toISOString(),
+      data,
+    };
+
+    this.emitter.emit(type, event);
+    this.emitter.emit(ALL_EVENTS, event);
+    return event;
+  }
+
+  subscribe<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void {
+    return this.listen(type, handler as DomainEventHandler);
+  }
+
+  subscribeAll(handler: DomainEventHandler): () => void {
+    return this.listen(ALL_EVENTS, handler);
+  }
+
+  private listen(name: string, handler: DomainEventHandler): () => void {
+    const listener = (event: DomainEvent) => {
+      Promise.resolve()
+        .then(() => handler(event))
+        .catch((error) => {
+          console.error(`[Events] Handler for ${event.type} failed:`, error.message);
+        });
+    };
+
+    this.emitter.on(name, listener);
+    return () => {
+      this.emitter.off(name, listener);
+    };
+  }
+}
+
+export const domainEvents = new DomainEventBus();
@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, TokenPayload } from '../utils/jwt.utils.js';
 import { UnauthorizedError, ForbiddenError } from './error.middleware.js';
+import { env } from '../../config/env.js';
+
+const platformAdmins = env.PLATFORM_ADMIN_EMAILS.split(',')
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
 
 export const authenticate = (
   req: Request,
@@ -53,6 +58,22 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+// Tenant roles (admin, operator, viewer) only govern the user's own tenant
+export const isPlatformAdmin = (user?: TokenPayload): boolean =>
+  !!user && platformAdmins.includes(user.email.toLowerCase());
+
+export const authorizePlatformAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    return next(new UnauthorizedError('Not authenticated'));
+  }
+
+  if (!isPlatformAdmin(req.user)) {
+    return next(new ForbiddenError('Insufficient permissions'));
+  }
+
+  next();
+};
+
 export const optionalAuth = (
   req: Request,
   res: Response,
@@ -6,12 +6,14 @@ export class AppError extends Error {
   public readonly statusCode: number;
   public readonly isOperational: boolean;
   public readonly code?: string;
+  public readonly details?: any;
 
-  constructor(message: string, statusCode: number = 500, code?: string) {
+  constructor(message: string, statusCode: number = 500, code?: string, details?: any) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
     this.code = code;
+    this.details = details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -78,6 +80,7 @@ export const errorHandler = (
     statusCode = err.statusCode;
     response.error.message = err.message;
     response.error.code = err.code;
+    response.error.details = err.details;
   } else if (err instanceof ZodError) {
     statusCode = 400;
     response.error.message = 'Validation failed';
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './error.middleware.js';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number; // Requests allowed per key in each window
+  key?: (req: Request, res: Response) => string; // Defaults to the client IP
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window limiter kept in memory: limits are per process, which is enough to slow down abuse of public routes
+export const rateLimit = ({ windowMs, max, key = (req) => req.ip || 'unknown' }: RateLimitOptions) => {
+  const windows = new Map<string, Window>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, window] of windows) {
+      if (window.resetAt <= now) windows.delete(id);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const id = key(req, res);
+    const now = Date.now();
+
+    let window = windows.get(id);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(id, window);
+    }
+    window.count++;
+
+    if (window.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return next(new AppError('Too many requests', 429, 'RATE_LIMITED'));
+    }
+
+    next();
+  };
+};
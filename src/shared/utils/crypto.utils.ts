@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { env } from '../../config/env.js';
+import { AppError } from '../middleware/error.middleware.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+let cachedKey: Buffer | null = null;
+
+// Chave de CREDENTIALS_ENCRYPTION_KEY (hex com 64 caracteres ou base64 de 32 bytes)
+const encryptionKey = (): Buffer => {
+  if (cachedKey) return cachedKey;
+
+  const raw = env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new AppError('Credential encryption is not configured', 503, 'CREDENTIALS_NOT_CONFIGURED');
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new AppError('CREDENTIALS_ENCRYPTION_KEY must be 32 bytes (hex or base64)', 503, 'CREDENTIALS_NOT_CONFIGURED');
+  }
+
+  cachedKey = key;
+  return key;
+};
+
+export const isEncryptionConfigured = (): boolean => !!env.CREDENTIALS_ENCRYPTION_KEY;
+
+// Formato: v1:<iv>:<tag>:<dados>, tudo em base64
+export const encryptJson = (value: unknown): string => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+};
+
+export const decryptJson = <T = any>(payload: string): T => {
+  const [version, iv, tag, data] = payload.split(':');
+  if (version !== 'v1' || !iv || !tag || data === undefined) {
+    throw new AppError('Unsupported encrypted payload', 500, 'CREDENTIALS_CORRUPTED');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+    return JSON.parse(plain.toString('utf8'));
+  } catch {
+    // Chave trocada ou dado adulterado
+    throw new AppError('Failed to decrypt credential', 500, 'CREDENTIALS_CORRUPTED');
+  }
+};
@@ -0,0 +1,116 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { env } from '../../config/env.js';
+import { AppError } from '../middleware/error.middleware.js';
+
+// Requests to URLs chosen by tenants (webhooks, HTTP nodes) must not reach the platform's own network:
+// loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges are refused
+const blockedIPv4 = new net.BlockList();
+const blockedIPv6 = new net.BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, 'ipv6');
+}
+
+const unsafeDestination = (reason: string) =>
+  new AppError(`Destination not allowed: ${reason}`, 400, 'UNSAFE_DESTINATION');
+
+// ::ffff:127.0.0.1 and ::ffff:7f00:1 are IPv4 addresses
+const mappedIPv4 = (address: string): string | null => {
+  const match = /^::ffff:(.+)$/i.exec(address);
+  if (!match) return null;
+  if (net.isIPv4(match[1])) return match[1];
+
+  const groups = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(match[1]);
+  if (!groups) return null;
+  const value = (parseInt(groups[1], 16) << 16) | parseInt(groups[2], 16);
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 255).join('.');
+};
+
+export const isPrivateAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 4) return blockedIPv4.check(address, 'ipv4');
+  if (family === 6) {
+    const ipv4 = mappedIPv4(address);
+    return ipv4 ? blockedIPv4.check(ipv4, 'ipv4') : blockedIPv6.check(address, 'ipv6');
+  }
+  return false;
+};
+
+// Checks scheme and literal IP hosts; hostnames are checked when connecting (guardedLookup)
+export const assertPublicUrl = (raw: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw unsafeDestination('invalid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw unsafeDestination(`unsupported protocol ${url.protocol}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!env.OUTBOUND_ALLOW_PRIVATE_NETWORKS && isPrivateAddress(host)) {
+    throw unsafeDestination(`private address ${host}`);
+  }
+
+  return url;
+};
+
+// Resolves like dns.lookup and refuses private answers at connect time, so a hostname
+// cannot pass a check and then resolve to an internal address (DNS rebinding)
+const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked && !env.OUTBOUND_ALLOW_PRIVATE_NETWORKS) {
+      return callback(unsafeDestination(`${hostname} resolves to private address ${blocked.address}`));
+    }
+
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+// axios options for tenant-chosen URLs: guarded agents and no redirects (a redirect
+// target would skip assertPublicUrl and receive the original headers)
+export const outboundRequestOptions = {
+  httpAgent: new http.Agent({ lookup: guardedLookup }),
+  httpsAgent: new https.Agent({ lookup: guardedLookup }),
+  maxRedirects: 0,
+};
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+type JsonSchema = Record<string, any>;
+
+// Describe a zod schema as JSON Schema so clients can render forms from it.
+// Covers the zod constructs used across the API; anything else becomes `{}`.
+export const zodToJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...zodToJsonSchema(schema.unwrap()), ...description };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema._def.innerType),
+      default: schema._def.defaultValue(),
+      ...description,
+    };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return { ...zodToJsonSchema(schema.innerType()), ...description };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      ...description,
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...description };
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number', ...description };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value, ...description };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(schema.element), ...description };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema), ...description };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema), ...description };
+  }
+
+  return { ...description };
+};
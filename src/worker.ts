@@ -0,0 +1,48 @@
+import { env } from './config/env.js';
+import { testConnection, db } from './config/database.js';
+import { flowWorker } from './modules/flows/flows.worker.js';
+import { registerFlowEventTriggers } from './modules/flows/flows.triggers.js';
+import { webhookDispatcher } from './modules/webhooks/webhooks.dispatcher.js';
+import { channelOutbound } from './modules/channels/channels.outbound.js';
+
+// Standalone flow worker: runs queued executions without serving HTTP.
+// Set FLOW_WORKER_ENABLED=false on the API when running workers this way.
+const startWorker = async (): Promise<void> => {
+  const dbConnected = await testConnection();
+  if (!dbConnected) {
+    console.error('Failed to connect to database. Exiting...');
+    process.exit(1);
+  }
+
+  // Domain events only reach subscribers in the process that publishes them, so the
+  // events of the flows run here (messages sent, executions finished) are handled here too
+  const stopFlowTriggers = registerFlowEventTriggers();
+  const stopChannelOutbound = channelOutbound.start();
+  if (env.WEBHOOK_DISPATCHER_ENABLED) {
+    webhookDispatcher.start();
+  }
+
+  flowWorker.start(env.FLOW_WORKER_CONCURRENCY);
+
+  const gracefulShutdown = async (signal: string): Promise<void> => {
+    console.log(`\n${signal} received. Draining flow worker...`);
+
+    try {
+      await flowWorker.stop();
+      stopFlowTriggers();
+      stopChannelOutbound();
+      await webhookDispatcher.stop();
+      await db.close();
+      console.log('Database connection closed.');
+      process.exit(0);
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+  process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+};
+
+startWorker();
@@ -0,0 +1,270 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/config/database.js';
+import { env } from '../src/config/env.js';
+import { telegramBot, buildTelegramRequest } from '../src/modules/channels/channels.telegram.js';
+import { channelInbound } from '../src/modules/channels/channels.inbound.js';
+import { OutboundMessage } from '../src/modules/channels/channels.outbound.js';
+import { messagesService } from '../src/modules/messages/messages.service.js';
+import { startStubServer } from './helpers/stub-server.js';
+import { fakeDb } from './helpers/fake-db.js';
+
+const CHAT_ID = 123456789;
+const TENANT_ID = '00000000-0000-4000-8000-00000000000a';
+
+const chat = { id: CHAT_ID, type: 'private', first_name: 'Maria' };
+const from = { id: CHAT_ID, is_bot: false, first_name: 'Maria', last_name: 'Silva', username: 'maria' };
+
+const outbound = (overrides: Partial<OutboundMessage>): OutboundMessage => ({
+  id: 'message-id',
+  conversationId: 'conversation-id',
+  senderType: 'agent',
+  createdAt: new Date(),
+  type: 'text',
+  content: 'Hello',
+  metadata: {},
+  replyToExternalId: null,
+  ...overrides,
+});
+
+describe('Telegram', () => {
+  describe('parseUpdate', () => {
+    it('reads text messages keyed by chat and message id', () => {
+      const [entry] = telegramBot.parseUpdate({
+        update_id: 1,
+        message: { message_id: 42, from, chat, date: 1700000000, text: 'Oi', reply_to_message: { message_id: 41 } },
+      });
+
+      assert.deepEqual(entry, {
+        contact: { externalId: String(CHAT_ID), name: 'Maria Silva', phone: null },
+        message: {
+          externalId: `${CHAT_ID}:42`,
+          type: 'text',
+          content: 'Oi',
+          metadata: {
+            telegram: { chatId: CHAT_ID, chatType: 'private', date: 1700000000, username: 'maria' },
+            replyToExternalId: `${CHAT_ID}:41`,
+          },
+        },
+      });
+    });
+
+    it('reads the largest photo and uses the group title as the contact name', () => {
+      const [entry] = telegramBot.parseUpdate({
+        update_id: 2,
+        message: {
+          message_id: 43,
+          from,
+          chat: { id: -100, type: 'group', title: 'Suporte' },
+          caption: 'Comprovante',
+          photo: [
+            { file_id: 'small', file_unique_id: 's', width: 90, height: 90 },
+            { file_id: 'large', file_unique_id: 'l', width: 1280, height: 1280 },
+          ],
+        },
+      });
+
+      assert.equal(entry.contact.name, 'Suporte');
+      assert.equal(entry.message.type, 'image');
+      assert.equal(entry.message.content, 'Comprovante');
+      assert.deepEqual(entry.message.metadata!.media, { fileId: 'large', fileUniqueId: 'l', width: 1280, height: 1280 });
+    });
+
+    it('reads a button click with the title from the inline keyboard', () => {
+      const [entry] = telegramBot.parseUpdate({
+        update_id: 3,
+        callback_query: {
+          id: 'callback-1',
+          from,
+          data: 'plan-pro',
+          message: {
+            message_id: 44,
+            chat,
+            reply_markup: { inline_keyboard: [[{ text: 'Básico', callback_data: 'plan-basic' }], [{ text: 'Pro', callback_data: 'plan-pro' }]] },
+          },
+        },
+      });
+
+      assert.equal(entry.message.externalId, 'callback:callback-1');
+      assert.equal(entry.message.content, 'Pro');
+      assert.deepEqual(entry.message.metadata!.interactive, { type: 'callback_query', id: 'plan-pro', title: 'Pro' });
+      assert.equal(entry.message.metadata!.replyToExternalId, `${CHAT_ID}:44`);
+    });
+
+    it('ignores other updates', () => {
+      assert.deepEqual(telegramBot.parseUpdate({ update_id: 4, edited_message: { message_id: 1, chat, text: 'x' } }), []);
+      assert.deepEqual(telegramBot.parseUpdate({ update_id: 5, callback_query: { id: 'c', data: 'x' } }), []);
+      assert.deepEqual(telegramBot.parseUpdate(null), []);
+    });
+  });
+
+  describe('verifySecret', () => {
+    it('accepts the secret given to setWebhook', () => {
+      assert.equal(telegramBot.verifySecret('secret', 'secret'), true);
+    });
+
+    it('rejects another secret, a missing header or a channel without a secret', () => {
+      assert.equal(telegramBot.verifySecret('secret', 'secreT'), false);
+      assert.equal(telegramBot.verifySecret('secret', 'secret-longer'), false);
+      assert.equal(telegramBot.verifySecret('secret', undefined), false);
+      assert.equal(telegramBot.verifySecret('secret', ['secret']), false);
+      assert.equal(telegramBot.verifySecret(undefined, ''), false);
+    });
+  });
+
+  describe('buildTelegramRequest', () => {
+    it('builds text messages that reply within the same chat', () => {
+      assert.deepEqual(buildTelegramRequest(String(CHAT_ID), outbound({ content: 'Oi', replyToExternalId: `${CHAT_ID}:41` })), {
+        method: 'sendMessage',
+        body: {
+          chat_id: String(CHAT_ID),
+          reply_parameters: { message_id: 41, allow_sending_without_reply: true },
+          text: 'Oi',
+        },
+      });
+
+      const fromOtherChat = buildTelegramRequest(String(CHAT_ID), outbound({ replyToExternalId: '999:41' }));
+      assert.equal(fromOtherChat.body.reply_parameters, undefined);
+    });
+
+    it('turns buttons and list rows into an inline keyboard', () => {
+      const buttons = buildTelegramRequest(String(CHAT_ID), outbound({
+        metadata: { buttons: [{ id: 'yes', title: 'Sim' }, { id: 'no', title: 'Não' }] },
+      }));
+      assert.deepEqual(buttons.body.reply_markup, {
+        inline_keyboard: [[{ text: 'Sim', callback_data: 'yes' }], [{ text: 'Não', callback_data: 'no' }]],
+      });
+
+      const list = buildTelegramRequest(String(CHAT_ID), outbound({
+        metadata: { list: { buttonText: 'Ver', sections: [{ title: 'Planos', rows: [{ id: 'pro', title: 'Pro' }] }] } },
+      }));
+      assert.deepEqual(list.body.reply_markup, { inline_keyboard: [[{ text: 'Pro', callback_data: 'pro' }]] });
+    });
+
+    it('refuses button ids longer than callback_data allows', () => {
+      assert.throws(
+        () => buildTelegramRequest(String(CHAT_ID), outbound({ metadata: { buttons: [{ id: 'x'.repeat(65), title: 'X' }] } })),
+        /limited to 64 bytes/
+      );
+    });
+
+    it('builds media messages with captions where allowed', () => {
+      assert.deepEqual(
+        buildTelegramRequest(String(CHAT_ID), outbound({
+          type: 'document',
+          content: 'Seu boleto',
+          metadata: { mediaUrl: 'https://cdn.example.com/boleto.pdf' },
+        })),
+        { method: 'sendDocument', body: { chat_id: String(CHAT_ID), document: 'https://cdn.example.com/boleto.pdf', caption: 'Seu boleto' } }
+      );
+      assert.deepEqual(
+        buildTelegramRequest(String(CHAT_ID), outbound({ type: 'sticker', content: 'ignored', metadata: { mediaUrl: 'sticker-file-id' } })),
+        { method: 'sendSticker', body: { chat_id: String(CHAT_ID), sticker: 'sticker-file-id' } }
+      );
+      assert.throws(() => buildTelegramRequest(String(CHAT_ID), outbound({ type: 'image' })), /mediaUrl is required/);
+    });
+
+    it('sends a venue when the location has a name and address', () => {
+      const location = { latitude: -23.5, longitude: -46.6 };
+
+      assert.equal(buildTelegramRequest(String(CHAT_ID), outbound({ type: 'location', metadata: { location } })).method, 'sendLocation');
+      assert.deepEqual(
+        buildTelegramRequest(String(CHAT_ID), outbound({ type: 'location', metadata: { location: { ...location, name: 'Loja', address: 'Av. Paulista' } } })),
+        { method: 'sendVenue', body: { chat_id: String(CHAT_ID), ...location, title: 'Loja', address: 'Av. Paulista' } }
+      );
+    });
+
+    it('refuses templates', () => {
+      assert.throws(
+        () => buildTelegramRequest(String(CHAT_ID), outbound({ metadata: { template: { name: 'order_update', language: 'pt_BR' } } })),
+        /does not support message templates/
+      );
+    });
+  });
+
+  describe('Bot API', () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>>;
+    let telegramApiUrl: string;
+
+    before(async () => {
+      stub = await startStubServer((request) => {
+        if (!request.path.startsWith('/botvalid-token/')) {
+          return { status: 401, body: { ok: false, error_code: 401, description: 'Unauthorized' } };
+        }
+        if (request.path.endsWith('/sendMessage')) {
+          return { body: { ok: true, result: { message_id: 77, chat: { id: CHAT_ID } } } };
+        }
+        return { body: { ok: true, result: true } };
+      });
+      telegramApiUrl = env.TELEGRAM_API_URL;
+      env.TELEGRAM_API_URL = `${stub.url}/`;
+    });
+
+    after(async () => {
+      env.TELEGRAM_API_URL = telegramApiUrl;
+      await stub.close();
+    });
+
+    it('registers the webhook with a fresh secret token', async () => {
+      const first = await telegramBot.setWebhook('valid-token', 'channel-1');
+      const second = await telegramBot.setWebhook('valid-token', 'channel-1');
+
+      assert.equal(first.webhookUrl, `${env.API_URL}/v1/webhooks/telegram/channel-1`);
+      assert.match(first.secretToken, /^[0-9a-f]{64}$/);
+      assert.notEqual(first.secretToken, second.secretToken);
+
+      const request = stub.requests[stub.requests.length - 2];
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/botvalid-token/setWebhook');
+      assert.deepEqual(JSON.parse(request.body), {
+        url: first.webhookUrl,
+        secret_token: first.secretToken,
+        allowed_updates: ['message', 'callback_query'],
+      });
+    });
+
+    it('returns "<chat_id>:<message_id>" for sent messages', async () => {
+      const externalId = await telegramBot.send('valid-token', String(CHAT_ID), outbound({ content: 'Oi' }));
+
+      assert.equal(externalId, `${CHAT_ID}:77`);
+      assert.deepEqual(JSON.parse(stub.requests[stub.requests.length - 1].body), { chat_id: String(CHAT_ID), text: 'Oi' });
+    });
+
+    it('reports Bot API errors', async () => {
+      await assert.rejects(telegramBot.setWebhook('revoked-token', 'channel-1'), { message: 'Telegram API error 401: Unauthorized' });
+    });
+  });
+
+  describe('inbound duplicates', () => {
+    const stored = [{ id: 'message-1', conversa_id: 'conversation-1', channelId: 'bot-a', externalId: `${CHAT_ID}:42` }];
+    const message = { externalId: `${CHAT_ID}:42`, type: 'text' as const, content: 'Oi' };
+    const contact = { externalId: String(CHAT_ID), name: 'Maria', phone: null };
+
+    let database: ReturnType<typeof fakeDb>;
+
+    before(() => {
+      database = fakeDb([
+        [/^SELECT id, conversa_id FROM mensagens/, ([tenantId, externalId, channelId]) => stored
+          .filter((row) => tenantId === TENANT_ID && row.externalId === externalId && row.channelId === channelId)],
+        [/^UPDATE contatos SET/, () => [{ id: 'contact-1' }]],
+        [/^SELECT id FROM conversas/, () => [{ id: 'conversation-2' }]],
+      ]);
+      mock.method(db, 'transaction', async (callback: (client: unknown) => Promise<unknown>) => callback({ query: db.query }));
+      mock.method(messagesService, 'createByTenantId', async () => ({ id: 'message-2' }));
+    });
+
+    after(() => database.restore());
+
+    it('drops a resend on the same bot', async () => {
+      const result = await channelInbound.receive({ id: 'bot-a', tenant_id: TENANT_ID, tipo: 'telegram' }, contact, message);
+
+      assert.deepEqual(result, { conversationId: 'conversation-1', messageId: 'message-1', duplicate: true });
+    });
+
+    it('keeps the same chat and message id arriving on another bot of the tenant', async () => {
+      const result = await channelInbound.receive({ id: 'bot-b', tenant_id: TENANT_ID, tipo: 'telegram' }, contact, message);
+
+      assert.deepEqual(result, { conversationId: 'conversation-2', messageId: 'message-2', duplicate: false });
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { env } from '../src/config/env.js';
+import { whatsappCloud, buildWhatsAppMessage } from '../src/modules/channels/channels.whatsapp.js';
+import { OutboundMessage } from '../src/modules/channels/channels.outbound.js';
+import { startStubServer } from './helpers/stub-server.js';
+
+const PHONE_NUMBER_ID = '1098765432';
+
+// Envelope of a Cloud API webhook with a single change
+const webhook = (value: Record<string, any>) => ({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: 'waba-id',
+    changes: [{
+      field: 'messages',
+      value: {
+        messaging_product: 'whatsapp',
+        metadata: { display_phone_number: '15550001111', phone_number_id: PHONE_NUMBER_ID },
+        ...value,
+      },
+    }],
+  }],
+});
+
+const outbound = (overrides: Partial<OutboundMessage>): OutboundMessage => ({
+  id: 'message-id',
+  conversationId: 'conversation-id',
+  senderType: 'agent',
+  createdAt: new Date(),
+  type: 'text',
+  content: 'Hello',
+  metadata: {},
+  replyToExternalId: null,
+  ...overrides,
+});
+
+describe('WhatsApp Cloud', () => {
+  describe('parseWebhook', () => {
+    it('reads text messages with the contact profile name', () => {
+      const { messages, statuses } = whatsappCloud.parseWebhook(webhook({
+        contacts: [{ wa_id: '5511999999999', profile: { name: 'Maria' } }],
+        messages: [{
+          from: '5511999999999',
+          id: 'wamid.text',
+          timestamp: '1700000000',
+          type: 'text',
+          text: { body: 'Oi' },
+          context: { id: 'wamid.previous' },
+        }],
+      }));
+
+      assert.equal(statuses.length, 0);
+      assert.deepEqual(messages, [{
+        phoneNumberId: PHONE_NUMBER_ID,
+        contact: { externalId: '5511999999999', name: 'Maria', phone: '5511999999999' },
+        message: {
+          externalId: 'wamid.text',
+          type: 'text',
+          content: 'Oi',
+          metadata: {
+            whatsapp: { timestamp: '1700000000', type: 'text' },
+            replyToExternalId: 'wamid.previous',
+          },
+        },
+      }]);
+    });
+
+    it('reads media, location and contact messages', () => {
+      const { messages } = whatsappCloud.parseWebhook(webhook({
+        messages: [
+          {
+            from: '551100',
+            id: 'wamid.image',
+            type: 'image',
+            image: { id: 'media-1', mime_type: 'image/jpeg', sha256: 'abc', caption: 'Foto' },
+          },
+          {
+            from: '551100',
+            id: 'wamid.document',
+            type: 'document',
+            document: { id: 'media-2', mime_type: 'application/pdf', filename: 'boleto.pdf' },
+          },
+          {
+            from: '551100',
+            id: 'wamid.location',
+            type: 'location',
+            location: { latitude: -23.5, longitude: -46.6, name: 'Loja', address: 'Av. Paulista' },
+          },
+          {
+            from: '551100',
+            id: 'wamid.contacts',
+            type: 'contacts',
+            contacts: [{ name: { formatted_name: 'João' }, phones: [{ wa_id: '551122' }], emails: [] }],
+          },
+        ],
+      }));
+
+      assert.deepEqual(messages.map((entry) => [entry.message.type, entry.message.content]), [
+        ['image', 'Foto'],
+        ['document', 'boleto.pdf'],
+        ['location', 'Loja - Av. Paulista'],
+        ['contact', 'João'],
+      ]);
+      assert.deepEqual(messages[0].message.metadata.media, {
+        id: 'media-1',
+        mimeType: 'image/jpeg',
+        sha256: 'abc',
+        fileName: undefined,
+        voice: undefined,
+      });
+      assert.equal(messages[0].contact.name, null);
+      assert.deepEqual(messages[3].message.metadata.contacts, [{ name: 'João', phones: ['551122'], emails: [] }]);
+    });
+
+    it('reads button and list replies as text with the chosen option', () => {
+      const { messages } = whatsappCloud.parseWebhook(webhook({
+        messages: [
+          {
+            from: '551100',
+            id: 'wamid.button',
+            type: 'interactive',
+            interactive: { type: 'button_reply', button_reply: { id: 'yes', title: 'Sim' } },
+          },
+          {
+            from: '551100',
+            id: 'wamid.list',
+            type: 'interactive',
+            interactive: { type: 'list_reply', list_reply: { id: 'plan-pro', title: 'Pro', description: 'Plano Pro' } },
+          },
+          {
+            from: '551100',
+            id: 'wamid.template-button',
+            type: 'button',
+            button: { payload: 'CONFIRM', text: 'Confirmar' },
+          },
+        ],
+      }));
+
+      assert.deepEqual(messages.map((entry) => [entry.message.type, entry.message.content]), [
+        ['text', 'Sim'],
+        ['text', 'Pro'],
+        ['text', 'Confirmar'],
+      ]);
+      assert.deepEqual(messages[0].message.metadata.interactive, { type: 'button_reply', id: 'yes', title: 'Sim', description: undefined });
+      assert.deepEqual(messages[1].message.metadata.interactive, { type: 'list_reply', id: 'plan-pro', title: 'Pro', description: 'Plano Pro' });
+      assert.deepEqual(messages[2].message.metadata.interactive, { type: 'button', id: 'CONFIRM', title: 'Confirmar' });
+    });
+
+    it('reads delivery statuses with their errors and skips unknown ones', () => {
+      const { messages, statuses } = whatsappCloud.parseWebhook(webhook({
+        statuses: [
+          { id: 'wamid.1', status: 'delivered', recipient_id: '551100', timestamp: '1700000001' },
+          {
+            id: 'wamid.2',
+            status: 'failed',
+            recipient_id: '551100',
+            errors: [{ code: 131047, title: 'Re-engagement message', error_data: { details: 'More than 24 hours' } }],
+          },
+          { id: 'wamid.3', status: 'deleted', recipient_id: '551100' },
+        ],
+      }));
+
+      assert.equal(messages.length, 0);
+      assert.deepEqual(statuses, [
+        { phoneNumberId: PHONE_NUMBER_ID, externalId: 'wamid.1', status: 'delivered', recipient: '551100', error: null },
+        {
+          phoneNumberId: PHONE_NUMBER_ID,
+          externalId: 'wamid.2',
+          status: 'failed',
+          recipient: '551100',
+          error: '131047 - Re-engagement message - More than 24 hours',
+        },
+      ]);
+    });
+
+    it('ignores other objects and fields', () => {
+      assert.deepEqual(whatsappCloud.parseWebhook({ object: 'page', entry: [] }), { messages: [], statuses: [] });
+
+      const body = webhook({ messages: [{ from: '551100', id: 'wamid.x', type: 'text', text: { body: 'x' } }] });
+      body.entry[0].changes[0].field = 'account_update';
+      assert.deepEqual(whatsappCloud.parseWebhook(body), { messages: [], statuses: [] });
+    });
+  });
+
+  describe('verifySignature', () => {
+    const secret = 'app-secret';
+    const rawBody = Buffer.from(JSON.stringify(webhook({ messages: [] })));
+    const signature = 'sha256=' + crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+    it('accepts the HMAC of the raw body', () => {
+      assert.equal(whatsappCloud.verifySignature(secret, rawBody, signature), true);
+    });
+
+    it('rejects another secret, a changed body or a missing header', () => {
+      assert.equal(whatsappCloud.verifySignature('other-secret', rawBody, signature), false);
+      assert.equal(whatsappCloud.verifySignature(secret, Buffer.concat([rawBody, Buffer.from(' ')]), signature), false);
+      assert.equal(whatsappCloud.verifySignature(secret, rawBody, undefined), false);
+      assert.equal(whatsappCloud.verifySignature(secret, rawBody, signature.slice(0, -1)), false);
+    });
+  });
+
+  describe('buildWhatsAppMessage', () => {
+    it('builds text messages with the reply context', () => {
+      assert.deepEqual(buildWhatsAppMessage('551100', outbound({ content: 'Oi', replyToExternalId: 'wamid.1' })), {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: '551100',
+        context: { message_id: 'wamid.1' },
+        type: 'text',
+        text: { body: 'Oi', preview_url: false },
+      });
+    });
+
+    it('builds reply buttons and truncates long titles', () => {
+      const payload = buildWhatsAppMessage('551100', outbound({
+        content: 'Confirma?',
+        metadata: {
+          header: 'Pedido 42',
+          footer: 'Loja',
+          buttons: [{ id: 'yes', title: 'Sim' }, { id: 'no', title: 'Não, quero falar com um atendente' }],
+        },
+      }));
+
+      assert.equal(payload.type, 'interactive');
+      assert.deepEqual(payload.interactive, {
+        type: 'button',
+        header: { type: 'text', text: 'Pedido 42' },
+        body: { text: 'Confirma?' },
+        footer: { text: 'Loja' },
+        action: {
+          buttons: [
+            { type: 'reply', reply: { id: 'yes', title: 'Sim' } },
+            { type: 'reply', reply: { id: 'no', title: 'Não, quero falar com' } },
+          ],
+        },
+      });
+    });
+
+    it('refuses more than three buttons', () => {
+      const buttons = ['a', 'b', 'c', 'd'].map((id) => ({ id, title: id }));
+      assert.throws(() => buildWhatsAppMessage('551100', outbound({ metadata: { buttons } })), /at most 3 reply buttons/);
+    });
+
+    it('builds lists', () => {
+      const payload = buildWhatsAppMessage('551100', outbound({
+        content: 'Escolha um plano',
+        metadata: {
+          list: {
+            buttonText: 'Ver planos',
+            sections: [{ title: 'Planos', rows: [{ id: 'basic', title: 'Básico' }, { id: 'pro', title: 'Pro', description: 'Tudo incluso' }] }],
+          },
+        },
+      }));
+
+      assert.deepEqual(payload.interactive, {
+        type: 'list',
+        header: undefined,
+        body: { text: 'Escolha um plano' },
+        footer: undefined,
+        action: {
+          button: 'Ver planos',
+          sections: [{
+            title: 'Planos',
+            rows: [
+              { id: 'basic', title: 'Básico', description: undefined },
+              { id: 'pro', title: 'Pro', description: 'Tudo incluso' },
+            ],
+          }],
+        },
+      });
+    });
+
+    it('refuses lists with more than ten rows', () => {
+      const rows = Array.from({ length: 11 }, (_, index) => ({ id: `row-${index}`, title: `Row ${index}` }));
+      assert.throws(
+        () => buildWhatsAppMessage('551100', outbound({ metadata: { list: { buttonText: 'Ver', sections: [{ rows }] } } })),
+        /at most 10 list rows/
+      );
+    });
+
+    it('builds media messages with captions and file names where allowed', () => {
+      assert.deepEqual(
+        buildWhatsAppMessage('551100', outbound({
+          type: 'document',
+          content: 'Seu boleto',
+          metadata: { mediaUrl: 'https://cdn.example.com/boleto.pdf', fileName: 'boleto.pdf' },
+        })).document,
+        { link: 'https://cdn.example.com/boleto.pdf', caption: 'Seu boleto', filename: 'boleto.pdf' }
+      );
+      assert.deepEqual(
+        buildWhatsAppMessage('551100', outbound({
+          type: 'audio',
+          content: 'ignored',
+          metadata: { mediaUrl: 'https://cdn.example.com/audio.ogg' },
+        })).audio,
+        { link: 'https://cdn.example.com/audio.ogg' }
+      );
+      assert.throws(() => buildWhatsAppMessage('551100', outbound({ type: 'image' })), /mediaUrl is required/);
+    });
+
+    it('builds templates', () => {
+      const components = [{ type: 'body', parameters: [{ type: 'text', text: 'Maria' }] }];
+      const payload = buildWhatsAppMessage('551100', outbound({
+        metadata: { template: { name: 'order_update', language: 'pt_BR', components } },
+      }));
+
+      assert.equal(payload.type, 'template');
+      assert.deepEqual(payload.template, { name: 'order_update', language: { code: 'pt_BR' }, components });
+    });
+
+    it('builds locations', () => {
+      const location = { latitude: -23.5, longitude: -46.6, name: 'Loja', address: 'Av. Paulista' };
+      const payload = buildWhatsAppMessage('551100', outbound({ type: 'location', metadata: { location } }));
+
+      assert.equal(payload.type, 'location');
+      assert.deepEqual(payload.location, location);
+      assert.throws(() => buildWhatsAppMessage('551100', outbound({ type: 'location' })), /location is required/);
+    });
+  });
+
+  describe('send', () => {
+    let stub: Awaited<ReturnType<typeof startStubServer>>;
+    let graphApiUrl: string;
+
+    before(async () => {
+      stub = await startStubServer((request) => {
+        if (request.headers.authorization !== 'Bearer valid-token') {
+          return { status: 401, body: { error: { code: 190, message: 'Invalid OAuth access token' } } };
+        }
+        if (request.path === `/${PHONE_NUMBER_ID}/messages`) {
+          return { body: { messaging_product: 'whatsapp', messages: [{ id: 'wamid.sent' }] } };
+        }
+        return { body: { messaging_product: 'whatsapp', messages: [] } };
+      });
+      graphApiUrl = env.WHATSAPP_GRAPH_API_URL;
+      env.WHATSAPP_GRAPH_API_URL = `${stub.url}/`;
+    });
+
+    after(async () => {
+      env.WHATSAPP_GRAPH_API_URL = graphApiUrl;
+      await stub.close();
+    });
+
+    it('posts the message to the phone number and returns the wamid', async () => {
+      const externalId = await whatsappCloud.send(
+        { phoneNumberId: PHONE_NUMBER_ID, accessToken: 'valid-token' },
+        '551100',
+        outbound({ content: 'Oi' })
+      );
+
+      assert.equal(externalId, 'wamid.sent');
+      const request = stub.requests[stub.requests.length - 1];
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, `/${PHONE_NUMBER_ID}/messages`);
+      assert.deepEqual(JSON.parse(request.body).text, { body: 'Oi', preview_url: false });
+    });
+
+    it('reports Graph API errors', async () => {
+      await assert.rejects(
+        whatsappCloud.send({ phoneNumberId: PHONE_NUMBER_ID, accessToken: 'expired' }, '551100', outbound({})),
+        { message: 'WhatsApp API error 190: Invalid OAuth access token' }
+      );
+    });
+
+    it('fails when the response has no message id', async () => {
+      await assert.rejects(
+        whatsappCloud.send({ phoneNumberId: 'other-number', accessToken: 'valid-token' }, '551100', outbound({})),
+        { message: 'Graph API response has no message id' }
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flowsService } from '../src/modules/flows/flows.service.js';
+import { importFlowSchema } from '../src/modules/flows/flows.schema.js';
+import { fakeDb } from './helpers/fake-db.js';
+
+const SOURCE_TENANT = '00000000-0000-4000-8000-00000000000a';
+const TARGET_TENANT = '00000000-0000-4000-8000-00000000000b';
+const FLOW_ID = '10000000-0000-4000-8000-000000000001';
+const CHANNEL_ID = '20000000-0000-4000-8000-000000000001';
+const TARGET_CHANNEL_ID = '20000000-0000-4000-8000-000000000002';
+const AGENT_ID = '30000000-0000-4000-8000-000000000001';
+const TARGET_AGENT_ID = '30000000-0000-4000-8000-000000000002';
+
+// Tenant records as the API writes them: canais and agents both label with nome
+const records: Record<string, Array<{ id: string; tenant_id: string; nome: string }>> = {
+  canais: [
+    { id: CHANNEL_ID, tenant_id: SOURCE_TENANT, nome: 'WhatsApp vendas' },
+    { id: TARGET_CHANNEL_ID, tenant_id: TARGET_TENANT, nome: 'WhatsApp suporte' },
+  ],
+  agents: [
+    { id: AGENT_ID, tenant_id: SOURCE_TENANT, nome: 'Ana' },
+    { id: TARGET_AGENT_ID, tenant_id: TARGET_TENANT, nome: 'Bia' },
+  ],
+};
+
+const flowRow = {
+  id: FLOW_ID,
+  tenant_id: SOURCE_TENANT,
+  nome: 'Boas-vindas',
+  descricao: null,
+  tipo: 'automation',
+  status: 'rascunho',
+  versao: 3,
+  trigger_type: 'event',
+  trigger_config: { event: 'message.received', filters: { 'data.channelId': CHANNEL_ID } },
+  nodes: [
+    { id: 'start', type: 'start', position: { x: 0, y: 0 }, data: {} },
+    { id: 'assign', type: 'assign_agent', position: { x: 200, y: 0 }, data: { agentId: AGENT_ID } },
+  ],
+  edges: [{ id: 'e1', source: 'start', target: 'assign' }],
+  variables: {},
+  tags: [],
+};
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+let database: ReturnType<typeof fakeDb>;
+
+before(() => {
+  database = fakeDb([
+    [/^SELECT \* FROM fluxos WHERE id = \$1 AND tenant_id = \$2/, ([id, tenantId]) =>
+      (id === FLOW_ID && tenantId === SOURCE_TENANT ? [flowRow] : [])],
+    [/^SELECT id, \w+ AS label FROM (\w+) WHERE tenant_id/, ([tenantId, ids], text) => {
+      const [, label, table] = /^SELECT id, (\w+) AS label FROM (\w+)/.exec(text)!;
+      return (records[table] || [])
+        .filter((row) => row.tenant_id === tenantId && ids.includes(row.id))
+        .map((row) => ({ id: row.id, label: (row as Record<string, unknown>)[label] }));
+    }],
+    [/^\s*INSERT INTO fluxos/, (params) => [{
+      id: '10000000-0000-4000-8000-000000000099',
+      tenant_id: params[0],
+      nome: params[1],
+      descricao: params[2],
+      tipo: params[3],
+      status: 'rascunho',
+      trigger_type: params[4],
+      trigger_config: parseJson(params[5]),
+      nodes: parseJson(params[6]),
+      edges: parseJson(params[7]),
+      variables: parseJson(params[8]),
+      tags: parseJson(params[9]),
+    }]],
+  ]);
+});
+
+after(() => database.restore());
+
+describe('flow bundles', () => {
+  it('labels channel and agent references on export', async () => {
+    const bundle = await flowsService.exportFlow(SOURCE_TENANT, FLOW_ID);
+
+    assert.deepEqual(
+      bundle.references.map((reference) => [reference.kind, reference.id, reference.label]),
+      [
+        ['agent', AGENT_ID, 'Ana'],
+        ['channel', CHANNEL_ID, 'WhatsApp vendas'],
+      ]
+    );
+  });
+
+  it('imports a bundle back into the same tenant with its channel', async () => {
+    const bundle = await flowsService.exportFlow(SOURCE_TENANT, FLOW_ID);
+    const result = await flowsService.importFlow(SOURCE_TENANT, importFlowSchema.parse({ bundle: JSON.parse(JSON.stringify(bundle)) }));
+
+    assert.equal(result.unresolved, 0);
+    assert.deepEqual(result.references.map((reference) => reference.status), ['auto', 'auto']);
+    assert.equal(result.flow!.trigger_config.filters['data.channelId'], CHANNEL_ID);
+  });
+
+  it('remaps the channel through a binding in another tenant', async () => {
+    const bundle = JSON.parse(JSON.stringify(await flowsService.exportFlow(SOURCE_TENANT, FLOW_ID)));
+
+    const unbound = await flowsService.importFlow(TARGET_TENANT, importFlowSchema.parse({ bundle, dryRun: true }));
+    assert.deepEqual(
+      unbound.references.map((reference) => [reference.kind, reference.label, reference.status]),
+      [
+        ['agent', 'Ana', 'unresolved'],
+        ['channel', 'WhatsApp vendas', 'unresolved'],
+      ]
+    );
+
+    const result = await flowsService.importFlow(TARGET_TENANT, importFlowSchema.parse({
+      bundle,
+      bindings: { [CHANNEL_ID]: TARGET_CHANNEL_ID, [AGENT_ID]: TARGET_AGENT_ID },
+    }));
+
+    assert.deepEqual(result.references.map((reference) => reference.status), ['bound', 'bound']);
+    assert.equal(result.flow!.trigger_config.filters['data.channelId'], TARGET_CHANNEL_ID);
+    assert.equal(result.flow!.nodes[1].data.agentId, TARGET_AGENT_ID);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flowEngine } from '../src/modules/flows/flows.engine.js';
+import { ExecutionContext } from '../src/modules/flows/flows.nodes.js';
+import { FlowEdge, FlowNode } from '../src/modules/flows/flows.schema.js';
+
+const node = (id: string, type: string, data: Record<string, any> = {}) =>
+  ({ id, type, position: { x: 0, y: 0 }, data }) as FlowNode;
+
+const edge = (source: string, target: string, sourceHandle?: string) =>
+  ({ id: `${source}-${target}`, source, target, sourceHandle }) as FlowEdge;
+
+const context = (): ExecutionContext => ({
+  tenantId: '00000000-0000-4000-8000-00000000000a',
+  flowId: 'flow',
+  executionId: 'execution',
+  trigger: {},
+  input: {},
+  vars: {},
+  nodes: {},
+});
+
+const ran = (result: Awaited<ReturnType<typeof flowEngine.run>>) => result.nodesExecuted.map((step) => step.node_id);
+
+describe('flow engine', () => {
+  it('runs a merge node once when both branches of a diamond reach it', async () => {
+    const result = await flowEngine.run({
+      nodes: [
+        node('start', 'start'),
+        node('left', 'set_variable', { name: 'left', value: 1 }),
+        node('right', 'set_variable', { name: 'right', value: 2 }),
+        node('merge', 'end'),
+      ],
+      edges: [edge('start', 'left'), edge('start', 'right'), edge('left', 'merge'), edge('right', 'merge')],
+      variables: {},
+    }, context());
+
+    assert.equal(result.status, 'sucesso');
+    assert.deepEqual(ran(result), ['start', 'left', 'right', 'merge']);
+    assert.deepEqual(Object.keys(result.nodesExecuted[3].input).sort(), ['left', 'right']);
+    assert.deepEqual(result.output, { left: 1, right: 2 });
+  });
+
+  it('waits for the longer branch before running the merge node', async () => {
+    const result = await flowEngine.run({
+      nodes: [
+        node('start', 'start'),
+        node('a1', 'set_variable', { name: 'a1', value: true }),
+        node('a2', 'set_variable', { name: 'a2', value: true }),
+        node('a3', 'set_variable', { name: 'a3', value: true }),
+        node('b1', 'set_variable', { name: 'b1', value: true }),
+        node('merge', 'end'),
+      ],
+      edges: [
+        edge('start', 'a1'), edge('a1', 'a2'), edge('a2', 'a3'), edge('a3', 'merge'),
+        edge('start', 'b1'), edge('b1', 'merge'),
+      ],
+      variables: {},
+    }, context());
+
+    assert.equal(ran(result).filter((id) => id === 'merge').length, 1);
+    assert.equal(ran(result).at(-1), 'merge');
+    assert.deepEqual(Object.keys(result.nodesExecuted.at(-1)!.input).sort(), ['a3', 'b1']);
+  });
+
+  it('runs the merge node after a condition takes a single branch', async () => {
+    const result = await flowEngine.run({
+      nodes: [
+        node('start', 'start'),
+        node('check', 'condition', { field: 'input.vip', operator: 'equals', value: true }),
+        node('vip', 'set_variable', { name: 'tier', value: 'vip' }),
+        node('regular', 'set_variable', { name: 'tier', value: 'regular' }),
+        node('merge', 'end'),
+      ],
+      edges: [
+        edge('start', 'check'),
+        edge('check', 'vip', 'true'),
+        edge('check', 'regular', 'false'),
+        edge('vip', 'merge'),
+        edge('regular', 'merge'),
+      ],
+      variables: {},
+    }, { ...context(), input: { vip: true } });
+
+    assert.deepEqual(ran(result), ['start', 'check', 'vip', 'merge']);
+    assert.deepEqual(result.output, { tier: 'vip' });
+  });
+});
@@ -0,0 +1,343 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/config/database.js';
+import { env } from '../src/config/env.js';
+import { encryptJson } from '../src/shared/utils/crypto.utils.js';
+import { nodeTypeRegistry, ExecutionContext } from '../src/modules/flows/flows.nodes.js';
+import { FlowNode } from '../src/modules/flows/flows.schema.js';
+import { startStubServer, StubRequest } from './helpers/stub-server.js';
+
+const TENANT_ID = '00000000-0000-0000-0000-000000000001';
+
+// Stored credentials by name, as requestAuth reads them from credenciais
+const credentials = new Map<string, { id: string; tipo: string; data: Record<string, any>; updatedAt: string }>();
+
+// Credentials are allowed on the stub server unless the test says otherwise
+const saveCredential = (name: string, tipo: string, data: Record<string, any>, updatedAt = '2026-01-01T00:00:00.000Z') => {
+  credentials.set(name, { id: `cred-${name}`, tipo, data: { allowedHosts: ['127.0.0.1'], ...data }, updatedAt });
+};
+
+let tokenRequests = 0;
+
+const stubHandler = (request: StubRequest) => {
+  if (request.path === '/oauth/token') {
+    tokenRequests++;
+    const form = new URLSearchParams(request.body);
+    if (form.get('client_id') === 'revoked') {
+      return { status: 401, body: { error: 'invalid_client', error_description: 'Client revoked' } };
+    }
+    return { body: { access_token: `token-${tokenRequests}`, token_type: 'bearer', expires_in: 3600 } };
+  }
+  if (request.path === '/redirect') {
+    return { status: 302, headers: { Location: '/echo' } };
+  }
+  if (request.path === '/fail') {
+    return { status: 503, body: { error: 'unavailable' } };
+  }
+  if (request.path === '/text') {
+    return { headers: { 'Content-Type': 'text/plain' }, body: 'plain answer' };
+  }
+  return { body: { path: request.path } };
+};
+
+let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+const httpRequest = nodeTypeRegistry.get('http_request')!;
+
+const run = (config: Record<string, any>) => {
+  const node = { id: 'http', type: 'http_request', data: config } as unknown as FlowNode;
+  const ctx: ExecutionContext = {
+    tenantId: TENANT_ID,
+    flowId: 'flow',
+    executionId: 'execution',
+    trigger: {},
+    input: {},
+    vars: {},
+    nodes: {},
+  };
+  return httpRequest.execute(httpRequest.configSchema.parse(config), node, ctx);
+};
+
+const lastRequest = () => stub.requests[stub.requests.length - 1];
+
+before(async () => {
+  stub = await startStubServer(stubHandler);
+
+  mock.method(db, 'query', async (text: string, params: any[] = []) => {
+    if (text.startsWith('SELECT * FROM credenciais')) {
+      const credential = credentials.get(params[1]);
+      return {
+        rows: credential
+          ? [{
+            id: credential.id,
+            tenant_id: params[0],
+            nome: params[1],
+            tipo: credential.tipo,
+            dados_criptografados: encryptJson(credential.data),
+            updated_at: credential.updatedAt,
+          }]
+          : [],
+      };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+});
+
+after(async () => {
+  mock.restoreAll();
+  await stub.close();
+});
+
+afterEach(() => {
+  stub.requests.length = 0;
+  tokenRequests = 0;
+});
+
+describe('http_request node', () => {
+  describe('credentials', () => {
+    it('sends an API key header', async () => {
+      saveCredential('crm-key', 'api_key', { key: 'secret-key', in: 'header', name: 'X-Api-Key' });
+
+      await run({ url: `${stub.url}/echo`, credential: 'crm-key' });
+
+      assert.equal(lastRequest().headers['x-api-key'], 'secret-key');
+    });
+
+    it('sends an API key as a query parameter', async () => {
+      saveCredential('query-key', 'api_key', { key: 'secret-key', in: 'query', name: 'apikey' });
+
+      await run({ url: `${stub.url}/echo`, credential: 'query-key', query: { page: 2 } });
+
+      assert.equal(lastRequest().query.get('apikey'), 'secret-key');
+      assert.equal(lastRequest().query.get('page'), '2');
+    });
+
+    it('sends a bearer token', async () => {
+      saveCredential('bearer', 'bearer', { token: 'abc123' });
+
+      await run({ url: `${stub.url}/echo`, credential: 'bearer' });
+
+      assert.equal(lastRequest().headers.authorization, 'Bearer abc123');
+    });
+
+    it('sends basic auth', async () => {
+      saveCredential('basic', 'basic', { username: 'user', password: 'pass' });
+
+      await run({ url: `${stub.url}/echo`, credential: 'basic' });
+
+      assert.equal(lastRequest().headers.authorization, `Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('lets the credential override a header from the node config', async () => {
+      saveCredential('override', 'bearer', { token: 'stored' });
+
+      await run({ url: `${stub.url}/echo`, credential: 'override', headers: { Authorization: 'Bearer typed' } });
+
+      assert.equal(lastRequest().headers.authorization, 'Bearer stored');
+    });
+
+    it('fails when the credential does not exist', async () => {
+      await assert.rejects(run({ url: `${stub.url}/echo`, credential: 'missing' }), { code: 'CREDENTIAL_NOT_FOUND' });
+      assert.equal(stub.requests.length, 0);
+    });
+
+    it('refuses a host the credential is not allowed for', async () => {
+      saveCredential('crm-only', 'bearer', { token: 'abc123', allowedHosts: ['api.crm.example.com', '*.crm.example.com'] });
+
+      for (const url of [`${stub.url}/echo`, 'https://crm.example.com/', 'https://crm.example.com.attacker.net/']) {
+        await assert.rejects(run({ url, credential: 'crm-only' }), { code: 'CREDENTIAL_HOST_NOT_ALLOWED', statusCode: 403 });
+      }
+      assert.equal(stub.requests.length, 0);
+    });
+
+    it('matches the host exactly, not by how it resolves', async () => {
+      saveCredential('loopback', 'bearer', { token: 'abc123' });
+
+      await assert.rejects(
+        run({ url: `${stub.url.replace('127.0.0.1', 'localhost')}/echo`, credential: 'loopback' }),
+        { code: 'CREDENTIAL_HOST_NOT_ALLOWED', details: { host: 'localhost', allowedHosts: ['127.0.0.1'] } }
+      );
+      assert.equal(stub.requests.length, 0);
+    });
+
+    it('refuses a credential saved without allowed hosts', async () => {
+      credentials.set('unbound', { id: 'cred-unbound', tipo: 'bearer', data: { token: 'abc123' }, updatedAt: '2026-01-01T00:00:00.000Z' });
+
+      await assert.rejects(run({ url: `${stub.url}/echo`, credential: 'unbound' }), { code: 'CREDENTIAL_HOST_NOT_ALLOWED' });
+      assert.equal(stub.requests.length, 0);
+    });
+  });
+
+  describe('OAuth2 client credentials', () => {
+    it('fetches a token and reuses it while it is valid', async () => {
+      saveCredential('oauth', 'oauth2_client_credentials', {
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'client',
+        clientSecret: 'secret',
+        scope: 'read',
+        clientAuth: 'body',
+      });
+
+      await run({ url: `${stub.url}/echo`, credential: 'oauth' });
+      await run({ url: `${stub.url}/echo`, credential: 'oauth' });
+
+      const tokenCall = stub.requests.find((request) => request.path === '/oauth/token')!;
+      const form = new URLSearchParams(tokenCall.body);
+      assert.equal(form.get('grant_type'), 'client_credentials');
+      assert.equal(form.get('client_id'), 'client');
+      assert.equal(form.get('client_secret'), 'secret');
+      assert.equal(form.get('scope'), 'read');
+
+      assert.equal(tokenRequests, 1);
+      assert.equal(lastRequest().headers.authorization, 'Bearer token-1');
+    });
+
+    it('shares one token request between concurrent calls', async () => {
+      saveCredential('oauth-concurrent', 'oauth2_client_credentials', {
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'client',
+        clientSecret: 'secret',
+        clientAuth: 'body',
+      });
+
+      await Promise.all([
+        run({ url: `${stub.url}/echo`, credential: 'oauth-concurrent' }),
+        run({ url: `${stub.url}/echo`, credential: 'oauth-concurrent' }),
+      ]);
+
+      assert.equal(tokenRequests, 1);
+    });
+
+    it('sends the client with basic auth when configured', async () => {
+      saveCredential('oauth-basic', 'oauth2_client_credentials', {
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'client',
+        clientSecret: 'secret',
+        clientAuth: 'basic',
+      });
+
+      await run({ url: `${stub.url}/echo`, credential: 'oauth-basic' });
+
+      const tokenCall = stub.requests.find((request) => request.path === '/oauth/token')!;
+      assert.equal(tokenCall.headers.authorization, `Basic ${Buffer.from('client:secret').toString('base64')}`);
+      assert.equal(new URLSearchParams(tokenCall.body).get('client_secret'), null);
+    });
+
+    it('fetches a new token after the credential is edited', async () => {
+      const data = {
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'client',
+        clientSecret: 'secret',
+        clientAuth: 'body',
+      };
+      saveCredential('oauth-edited', 'oauth2_client_credentials', data, '2026-01-01T00:00:00.000Z');
+      await run({ url: `${stub.url}/echo`, credential: 'oauth-edited' });
+
+      saveCredential('oauth-edited', 'oauth2_client_credentials', data, '2026-02-01T00:00:00.000Z');
+      await run({ url: `${stub.url}/echo`, credential: 'oauth-edited' });
+
+      assert.equal(tokenRequests, 2);
+      assert.equal(lastRequest().headers.authorization, 'Bearer token-2');
+    });
+
+    it('maps a rejected token request to CREDENTIAL_TOKEN_ERROR', async () => {
+      saveCredential('oauth-revoked', 'oauth2_client_credentials', {
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'revoked',
+        clientSecret: 'secret',
+        clientAuth: 'body',
+      });
+
+      await assert.rejects(run({ url: `${stub.url}/echo`, credential: 'oauth-revoked' }), {
+        code: 'CREDENTIAL_TOKEN_ERROR',
+        message: 'OAuth2 token request failed: Client revoked',
+        details: { status: 401 },
+      });
+      assert.ok(stub.requests.every((request) => request.path === '/oauth/token'));
+    });
+  });
+
+  describe('responses', () => {
+    it('parses JSON and reports the status', async () => {
+      const result = await run({ url: `${stub.url}/echo` });
+
+      assert.equal(result.output.ok, true);
+      assert.equal(result.output.status, 200);
+      assert.deepEqual(result.output.data, { path: '/echo' });
+    });
+
+    it('keeps text responses as text', async () => {
+      const result = await run({ url: `${stub.url}/text` });
+
+      assert.equal(result.output.data, 'plain answer');
+    });
+
+    it('fails on a status outside successStatus', async () => {
+      await assert.rejects(run({ url: `${stub.url}/fail` }), { message: 'Request failed with status 503' });
+    });
+
+    it('returns ok: false when failOnStatus is off', async () => {
+      const result = await run({ url: `${stub.url}/fail`, failOnStatus: false });
+
+      assert.equal(result.output.ok, false);
+      assert.equal(result.output.status, 503);
+      assert.deepEqual(result.output.data, { error: 'unavailable' });
+    });
+
+    it('accepts statuses listed in successStatus', async () => {
+      const result = await run({ url: `${stub.url}/fail`, successStatus: ['2xx', 503] });
+
+      assert.equal(result.output.ok, true);
+    });
+  });
+
+  describe('destinations', () => {
+    it('does not follow redirects', async () => {
+      saveCredential('redirected', 'bearer', { token: 'abc123' });
+
+      const result = await run({ url: `${stub.url}/redirect`, credential: 'redirected', failOnStatus: false });
+
+      assert.equal(result.output.status, 302);
+      assert.deepEqual(stub.requests.map((request) => request.path), ['/redirect']);
+    });
+
+    describe('with private networks blocked', () => {
+      before(() => {
+        env.OUTBOUND_ALLOW_PRIVATE_NETWORKS = false;
+      });
+
+      after(() => {
+        env.OUTBOUND_ALLOW_PRIVATE_NETWORKS = true;
+      });
+
+      it('refuses loopback and metadata addresses before reading the credential', async () => {
+        saveCredential('internal', 'bearer', { token: 'abc123' });
+
+        for (const url of [`${stub.url}/echo`, 'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://0x7f000001/']) {
+          await assert.rejects(run({ url, credential: 'internal' }), { code: 'UNSAFE_DESTINATION' });
+        }
+        assert.equal(stub.requests.length, 0);
+      });
+
+      it('refuses hostnames that resolve to a private address', async () => {
+        await assert.rejects(run({ url: `${stub.url.replace('127.0.0.1', 'localhost')}/echo` }), /private address/);
+        assert.equal(stub.requests.length, 0);
+      });
+
+      it('refuses an OAuth2 token URL on a private address', async () => {
+        saveCredential('oauth-internal', 'oauth2_client_credentials', {
+          tokenUrl: `${stub.url}/oauth/token`,
+          clientId: 'client',
+          clientSecret: 'secret',
+          clientAuth: 'body',
+          allowedHosts: ['api.example.com'],
+        });
+
+        await assert.rejects(run({ url: 'https://api.example.com/', credential: 'oauth-internal' }), {
+          code: 'CREDENTIAL_TOKEN_ERROR',
+        });
+        assert.equal(tokenRequests, 0);
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { env } from '../src/config/env.js';
+import flowsRoutes from '../src/modules/flows/flows.routes.js';
+import { flowsService } from '../src/modules/flows/flows.service.js';
+import { n8nSyncSchema } from '../src/modules/flows/flows.schema.js';
+import { errorHandler } from '../src/shared/middleware/error.middleware.js';
+import { generateAccessToken } from '../src/shared/utils/jwt.utils.js';
+import { startStubServer, StubRequest } from './helpers/stub-server.js';
+import { fakeDb } from './helpers/fake-db.js';
+
+const TENANT_ID = '00000000-0000-4000-8000-00000000000a';
+const FLOW_ID = '10000000-0000-4000-8000-000000000001';
+const USER_ID = '50000000-0000-4000-8000-000000000001';
+
+const flowRow = {
+  id: FLOW_ID,
+  tenant_id: TENANT_ID,
+  nome: 'Pedido recebido',
+  status: 'rascunho',
+  trigger_type: 'manual',
+  trigger_config: {},
+  nodes: [],
+  edges: [],
+  variables: {},
+  n8n_workflow_id: null,
+  n8n_webhook_url: null,
+  n8n_active: false,
+};
+
+const webhookNode = (path: string) => ({
+  name: 'Pedido',
+  type: 'n8n-nodes-base.webhook',
+  typeVersion: 1,
+  position: [0, 0],
+  parameters: { httpMethod: 'POST', path },
+});
+
+// Mock n8n: creates workflows and echoes them back
+const n8nHandler = (request: StubRequest) => {
+  if (request.method === 'POST' && request.path === '/api/v1/workflows') {
+    return { body: { ...JSON.parse(request.body), id: 'wf-1', active: false } };
+  }
+  return { status: 404, body: { message: 'Not found' } };
+};
+
+const workflowsSent = () => n8n.requests
+  .filter((request) => request.method === 'POST' && request.path === '/api/v1/workflows')
+  .map((request) => JSON.parse(request.body));
+
+let n8n: Awaited<ReturnType<typeof startStubServer>>;
+let database: ReturnType<typeof fakeDb>;
+
+before(async () => {
+  n8n = await startStubServer(n8nHandler);
+  env.N8N_BASE_URL = n8n.url;
+  env.N8N_API_KEY = 'n8n-key';
+
+  database = fakeDb([
+    [/^SELECT tenant_id FROM users/, () => [{ tenant_id: TENANT_ID }]],
+    [/^SELECT \* FROM fluxos WHERE id = \$1 AND tenant_id = \$2/, ([id, tenantId]) =>
+      (id === FLOW_ID && tenantId === TENANT_ID ? [flowRow] : [])],
+    [/^\s*UPDATE fluxos SET\s+n8n_workflow_id/, (params) => [{
+      ...flowRow,
+      n8n_workflow_id: params[0],
+      n8n_webhook_url: params[1],
+      n8n_active: params[2],
+      modo_execucao: params[3],
+    }]],
+  ]);
+});
+
+afterEach(() => {
+  n8n.requests.length = 0;
+});
+
+after(async () => {
+  database.restore();
+  env.N8N_BASE_URL = undefined;
+  env.N8N_API_KEY = undefined;
+  await n8n.close();
+});
+
+describe('n8n sync', () => {
+  it('creates the default workflow under the tenant and flow path', async () => {
+    const flow = await flowsService.syncN8n(TENANT_ID, FLOW_ID, n8nSyncSchema.parse({}));
+
+    const [workflow] = workflowsSent();
+    assert.equal(workflow.nodes[0].parameters.path, `${TENANT_ID}/${FLOW_ID}/omnibot`);
+    assert.equal(n8n.requests[0].headers['x-n8n-api-key'], 'n8n-key');
+    assert.equal(flow.n8n_workflow_id, 'wf-1');
+    assert.equal(flow.n8n_webhook_url, `${n8n.url}/webhook/${TENANT_ID}/${FLOW_ID}/omnibot`);
+  });
+
+  it('prefixes the webhook paths of a custom workflow and drops other settings', async () => {
+    await flowsService.syncN8n(TENANT_ID, FLOW_ID, n8nSyncSchema.parse({
+      workflow: {
+        nodes: [webhookNode('/pedidos'), { name: 'Resposta', type: 'n8n-nodes-base.respondToWebhook', parameters: {} }],
+        connections: { Pedido: { main: [[{ node: 'Resposta', type: 'main', index: 0 }]] } },
+        settings: { executionOrder: 'v1', errorWorkflow: 'other-tenant-workflow' },
+      },
+    }));
+
+    const [workflow] = workflowsSent();
+    assert.equal(workflow.nodes[0].parameters.path, `${TENANT_ID}/${FLOW_ID}/pedidos`);
+    assert.deepEqual(workflow.settings, { executionOrder: 'v1' });
+  });
+
+  it('keeps a path that is already scoped to the flow', async () => {
+    await flowsService.syncN8n(TENANT_ID, FLOW_ID, n8nSyncSchema.parse({
+      workflow: { nodes: [webhookNode(`${TENANT_ID}/${FLOW_ID}/pedidos`)] },
+    }));
+
+    assert.equal(workflowsSent()[0].nodes[0].parameters.path, `${TENANT_ID}/${FLOW_ID}/pedidos`);
+  });
+
+  it('refuses node types outside the allowlist and n8n credentials', async () => {
+    await assert.rejects(
+      flowsService.syncN8n(TENANT_ID, FLOW_ID, n8nSyncSchema.parse({
+        workflow: {
+          nodes: [
+            webhookNode('pedidos'),
+            { name: 'Shell', type: 'n8n-nodes-base.executeCommand', parameters: { command: 'env' } },
+            { name: 'Code', type: 'n8n-nodes-base.code', parameters: { jsCode: 'return process.env' } },
+            { name: 'Set', type: 'n8n-nodes-base.set', parameters: {}, credentials: { httpHeaderAuth: { id: '1' } } },
+          ],
+        },
+      })),
+      {
+        code: 'N8N_NODE_NOT_ALLOWED',
+        details: {
+          problems: {
+            Shell: 'node type n8n-nodes-base.executeCommand is not allowed',
+            Code: 'node type n8n-nodes-base.code is not allowed',
+            Set: 'n8n credentials are not allowed',
+          },
+        },
+      }
+    );
+    assert.equal(n8n.requests.length, 0);
+  });
+
+  describe('route', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    before(async () => {
+      const app = express();
+      app.use(express.json());
+      app.use('/v1/flows', flowsRoutes);
+      app.use(errorHandler);
+      server = app.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const sync = (role: string) => fetch(`${baseUrl}/v1/flows/${FLOW_ID}/n8n/sync`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${generateAccessToken({ userId: USER_ID, email: 'user@example.com', role })}`,
+        'Content-Type': 'application/json',
+      },
+      body: '{}',
+    });
+
+    it('is refused to operators', async () => {
+      const response = await sync('operator');
+
+      assert.equal(response.status, 403);
+      assert.equal(n8n.requests.length, 0);
+    });
+
+    it('syncs for admins', async () => {
+      const response = await sync('admin');
+
+      assert.equal(response.status, 200);
+      assert.equal(workflowsSent().length, 1);
+    });
+  });
+});
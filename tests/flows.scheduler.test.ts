@@ -0,0 +1,84 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/config/database.js';
+import { flowScheduler, MisfirePolicy } from '../src/modules/flows/flows.scheduler.js';
+import { flowsService } from '../src/modules/flows/flows.service.js';
+import { fakeDb } from './helpers/fake-db.js';
+
+const TENANT_ID = '00000000-0000-4000-8000-00000000000a';
+const FLOW_ID = '10000000-0000-4000-8000-000000000001';
+const NOW = new Date('2026-03-02T12:00:30.000Z');
+
+// A flow that runs every minute and was last claimed two hours ago
+let misfirePolicy: MisfirePolicy;
+let enqueued: string[];
+let database: ReturnType<typeof fakeDb>;
+
+before(() => {
+  mock.timers.enable({ apis: ['Date'], now: NOW });
+  database = fakeDb([
+    [/^SELECT pg_try_advisory_xact_lock/, () => [{ locked: true }]],
+    [/^\s*SELECT id, tenant_id, trigger_config, proxima_execucao FROM fluxos/, () => [{
+      id: FLOW_ID,
+      tenant_id: TENANT_ID,
+      trigger_config: { cron: '* * * * *', misfirePolicy },
+      proxima_execucao: new Date('2026-03-02T10:00:00.000Z'),
+    }]],
+  ]);
+  mock.method(db, 'transaction', async (callback: (client: unknown) => Promise<unknown>) => callback({ query: db.query }));
+  mock.method(flowsService, 'enqueue', async (tenantId: string, flowId: string, data: { triggerData: { scheduledFor: string } }) => {
+    enqueued.push(data.triggerData.scheduledFor);
+  });
+});
+
+beforeEach(() => {
+  enqueued = [];
+  database.queries.length = 0;
+});
+
+after(() => {
+  mock.timers.reset();
+  database.restore();
+});
+
+describe('flow scheduler misfires', () => {
+  it('catches up the most recent missed runs', async () => {
+    misfirePolicy = 'catch_up';
+    await flowScheduler.tick();
+
+    assert.deepEqual(enqueued, [
+      '2026-03-02T11:51:00.000Z',
+      '2026-03-02T11:52:00.000Z',
+      '2026-03-02T11:53:00.000Z',
+      '2026-03-02T11:54:00.000Z',
+      '2026-03-02T11:55:00.000Z',
+      '2026-03-02T11:56:00.000Z',
+      '2026-03-02T11:57:00.000Z',
+      '2026-03-02T11:58:00.000Z',
+      '2026-03-02T11:59:00.000Z',
+      '2026-03-02T12:00:00.000Z',
+    ]);
+  });
+
+  it('runs once for the latest missed run', async () => {
+    misfirePolicy = 'run_once';
+    await flowScheduler.tick();
+
+    assert.deepEqual(enqueued, ['2026-03-02T12:00:00.000Z']);
+  });
+
+  it('skips missed runs but keeps the one that is due now', async () => {
+    misfirePolicy = 'skip';
+    await flowScheduler.tick();
+
+    assert.deepEqual(enqueued, ['2026-03-02T12:00:00.000Z']);
+  });
+
+  it('records the latest run and the next one', async () => {
+    misfirePolicy = 'run_once';
+    await flowScheduler.tick();
+
+    const update = database.queries.find((query) => query.text.trim().startsWith('UPDATE fluxos SET proxima_execucao'))!;
+    assert.deepEqual(update.params, [new Date('2026-03-02T12:01:00.000Z'), new Date('2026-03-02T12:00:00.000Z'), FLOW_ID]);
+  });
+});
@@ -0,0 +1,104 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flowsService } from '../src/modules/flows/flows.service.js';
+import { updateFlowSchema } from '../src/modules/flows/flows.schema.js';
+import { fakeDb } from './helpers/fake-db.js';
+
+const TENANT_ID = '00000000-0000-4000-8000-00000000000a';
+const FLOW_ID = '10000000-0000-4000-8000-000000000001';
+
+// Valid webhook flow; status is changed by the tests
+const flowRow: Record<string, any> = {
+  id: FLOW_ID,
+  tenant_id: TENANT_ID,
+  nome: 'Pedido recebido',
+  tipo: 'automation',
+  status: 'rascunho',
+  versao: 1,
+  trigger_type: 'webhook',
+  trigger_config: {},
+  nodes: [
+    { id: 'start', type: 'start', position: { x: 0, y: 0 }, data: {} },
+    { id: 'end', type: 'end', position: { x: 200, y: 0 }, data: {} },
+  ],
+  edges: [{ id: 'e1', source: 'start', target: 'end' }],
+  variables: {},
+  tags: [],
+  webhook_token: null,
+  publicado_em: null,
+};
+
+let row: Record<string, any>;
+let database: ReturnType<typeof fakeDb>;
+
+const statements = () => database.queries.map((query) => query.text.replace(/\s+/g, ' ').trim());
+
+before(() => {
+  database = fakeDb([
+    [/^SELECT \* FROM fluxos WHERE id = \$1 AND tenant_id = \$2/, () => [row]],
+    [/^UPDATE fluxos SET status = 'ativo'/, () => {
+      row = { ...row, status: 'ativo', publicado_em: new Date() };
+      return [row];
+    }],
+    [/^UPDATE fluxos SET status = 'inativo'/, () => {
+      row = { ...row, status: 'inativo' };
+      return [row];
+    }],
+    [/^UPDATE fluxos SET status = \$1/, ([status]) => {
+      row = { ...row, status };
+      return [row];
+    }],
+    [/^UPDATE fluxos SET webhook_token = \$1/, ([token]) => {
+      row = { ...row, webhook_token: token };
+      return [];
+    }],
+    [/^UPDATE fluxos SET nome = \$1/, ([name]) => {
+      row = { ...row, nome: name, versao: row.versao + 1 };
+      return [row];
+    }],
+  ]);
+});
+
+beforeEach(() => {
+  row = { ...flowRow };
+  database.queries.length = 0;
+});
+
+after(() => database.restore());
+
+describe('flow status in update', () => {
+  it('publishes the flow through activate when the status becomes active', async () => {
+    const flow = await flowsService.update(TENANT_ID, FLOW_ID, updateFlowSchema.parse({ status: 'ativo' }));
+
+    assert.equal(flow.status, 'active');
+    assert.ok(row.publicado_em);
+    assert.match(row.webhook_token, /^[0-9a-f]{48}$/);
+    assert.ok(statements().some((text) => text.startsWith('INSERT INTO fluxo_versoes')));
+  });
+
+  it('saves the other fields before activating', async () => {
+    const flow = await flowsService.update(TENANT_ID, FLOW_ID, updateFlowSchema.parse({ name: 'Pedido pago', status: 'ativo' }));
+
+    assert.equal(flow.name, 'Pedido pago');
+    assert.equal(flow.status, 'active');
+    const order = statements().filter((text) => text.startsWith('UPDATE fluxos SET nome') || text.startsWith("UPDATE fluxos SET status = 'ativo'"));
+    assert.equal(order.length, 2);
+    assert.ok(order[0].startsWith('UPDATE fluxos SET nome'));
+  });
+
+  it('takes an active flow offline through deactivate', async () => {
+    row = { ...flowRow, status: 'ativo', proxima_execucao: null };
+
+    const flow = await flowsService.update(TENANT_ID, FLOW_ID, updateFlowSchema.parse({ status: 'rascunho' }));
+
+    assert.equal(flow.status, 'draft');
+    assert.ok(statements().some((text) => text.startsWith("UPDATE fluxos SET status = 'inativo', proxima_execucao = NULL")));
+  });
+
+  it('leaves the flow untouched when the status does not change', async () => {
+    const flow = await flowsService.update(TENANT_ID, FLOW_ID, updateFlowSchema.parse({ status: 'rascunho' }));
+
+    assert.equal(flow.status, 'draft');
+    assert.ok(statements().every((text) => !text.startsWith('UPDATE')));
+  });
+});
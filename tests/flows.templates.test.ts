@@ -0,0 +1,84 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flowsService } from '../src/modules/flows/flows.service.js';
+import { createFromTemplateSchema } from '../src/modules/flows/flows.schema.js';
+import { fakeDb } from './helpers/fake-db.js';
+
+const TENANT_ID = '00000000-0000-4000-8000-00000000000a';
+const OTHER_TENANT_ID = '00000000-0000-4000-8000-00000000000b';
+const TEMPLATE_ID = '40000000-0000-4000-8000-000000000001';
+const CHANNEL_ID = '20000000-0000-4000-8000-000000000001';
+const OTHER_CHANNEL_ID = '20000000-0000-4000-8000-000000000002';
+
+const channels = [
+  { id: CHANNEL_ID, tenant_id: TENANT_ID, nome: 'WhatsApp vendas' },
+  { id: OTHER_CHANNEL_ID, tenant_id: OTHER_TENANT_ID, nome: 'WhatsApp de outro tenant' },
+];
+
+// Published template whose trigger filter is asked for as a channel parameter
+const templateRow = {
+  id: TEMPLATE_ID,
+  tenant_id: null,
+  nome: 'Boas-vindas por canal',
+  tipo: 'automation',
+  is_public: true,
+  trigger_type: 'event',
+  trigger_config: { event: 'message.received', filters: {} },
+  nodes: [{ id: 'start', type: 'start', position: { x: 0, y: 0 }, data: {} }],
+  edges: [],
+  variables: {},
+  parametros: [{
+    key: 'channel',
+    label: 'Canal',
+    type: 'channel',
+    required: true,
+    targets: [{ location: 'trigger', filter: 'data.channelId' }],
+  }],
+};
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+let database: ReturnType<typeof fakeDb>;
+
+before(() => {
+  database = fakeDb([
+    [/^SELECT \* FROM templates_fluxo WHERE id = \$1/, ([id]) => (id === TEMPLATE_ID ? [templateRow] : [])],
+    [/^SELECT id, nome AS label FROM canais WHERE tenant_id/, ([tenantId, ids]) => channels
+      .filter((row) => row.tenant_id === tenantId && ids.includes(row.id))
+      .map((row) => ({ id: row.id, label: row.nome }))],
+    [/^\s*INSERT INTO fluxos/, (params) => [{
+      id: '10000000-0000-4000-8000-000000000099',
+      tenant_id: params[0],
+      nome: params[1],
+      status: 'rascunho',
+      trigger_type: params[4],
+      trigger_config: parseJson(params[5]),
+      nodes: parseJson(params[6]),
+      edges: parseJson(params[7]),
+      variables: parseJson(params[8]),
+    }]],
+  ]);
+});
+
+after(() => database.restore());
+
+describe('flow templates', () => {
+  it('creates a flow with the tenant channel given for a channel parameter', async () => {
+    const flow = await flowsService.createFromTemplate(TENANT_ID, createFromTemplateSchema.parse({
+      templateId: TEMPLATE_ID,
+      parameters: { channel: CHANNEL_ID },
+    }));
+
+    assert.deepEqual(flow.trigger_config.filters, { 'data.channelId': [CHANNEL_ID] });
+  });
+
+  it('refuses a channel of another tenant', async () => {
+    await assert.rejects(
+      flowsService.createFromTemplate(TENANT_ID, createFromTemplateSchema.parse({
+        templateId: TEMPLATE_ID,
+        parameters: { channel: OTHER_CHANNEL_ID },
+      })),
+      { code: 'TEMPLATE_PARAMETERS_REQUIRED', details: { problems: { channel: 'channel not found' }, parameters: templateRow.parametros } }
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { mock } from 'node:test';
+import { db } from '../../src/config/database.js';
+
+export interface FakeQuery {
+  text: string;
+  params: any[];
+}
+
+// Answers db.query from the first handler whose pattern matches the SQL; unmatched queries return no rows.
+// Every query is kept, so tests can check what was written.
+export const fakeDb = (handlers: Array<[RegExp, (params: any[], text: string) => any[]]>) => {
+  const queries: FakeQuery[] = [];
+
+  mock.method(db, 'query', async (text: string, params: any[] = []) => {
+    queries.push({ text, params });
+    const handler = handlers.find(([pattern]) => pattern.test(text));
+    const rows = handler ? handler[1](params, text) : [];
+    return { rows, rowCount: rows.length };
+  });
+
+  return {
+    queries,
+    restore: () => mock.restoreAll(),
+  };
+};
@@ -0,0 +1,55 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown; // Objects are sent as JSON
+}
+
+export type StubHandler = (request: StubRequest) => StubResponse | Promise<StubResponse>;
+
+// Local HTTP server standing in for an external API; keeps every request it received
+export const startStubServer = async (handler: StubHandler) => {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    const url = new URL(req.url || '/', 'http://stub');
+    const request: StubRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body: Buffer.concat(chunks).toString('utf8'),
+    };
+    requests.push(request);
+
+    const reply = await handler(request);
+    const json = reply.body !== undefined && typeof reply.body !== 'string';
+    res.writeHead(reply.status ?? 200, {
+      ...(json ? { 'Content-Type': 'application/json' } : {}),
+      ...reply.headers,
+    });
+    res.end(json ? JSON.stringify(reply.body) : (reply.body as string | undefined));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};